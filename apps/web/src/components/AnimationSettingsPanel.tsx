@@ -0,0 +1,182 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import {
+  ANIMATION_EASINGS,
+  ANIMATION_VARIANTS,
+  DEFAULT_ANIMATION,
+  playStickerAnimation,
+} from '../lib/overlayAnimations';
+import type { AnimationSettings, AnimationVariant, Streamer } from '../types';
+import { ConfettiBurst } from './ConfettiBurst';
+
+const PREVIEW_SIZE = 56;
+const PREVIEW_CANVAS = { width: 240, height: 120 };
+// The sample sits in the middle of the box, so it always slides in from just past the left edge
+const PREVIEW_SLIDE = { x: -(PREVIEW_CANVAS.width + PREVIEW_SIZE) / 2, y: 0 };
+// How long the sample sticker rests between entering and leaving
+const PREVIEW_HOLD_MS = 700;
+
+const selectClassName = 'w-36 rounded-btn border border-slate bg-charcoal px-2 py-1 text-white';
+
+/** A sample sticker that plays the enter animation, rests, then plays the exit one. */
+const AnimationPreview = ({ settings }: { settings: AnimationSettings }) => {
+  const stickerRef = useRef<HTMLDivElement>(null);
+  const [burst, setBurst] = useState<'enter' | 'exit' | null>(null);
+
+  useEffect(() => {
+    const element = stickerRef.current;
+    if (!element) return;
+    let current = playStickerAnimation(element, settings, 'enter', PREVIEW_SLIDE);
+    setBurst(settings.enter === 'confetti' ? 'enter' : null);
+    const timer = window.setTimeout(() => {
+      current?.cancel();
+      current = playStickerAnimation(element, settings, 'exit', PREVIEW_SLIDE);
+      setBurst(settings.exit === 'confetti' ? 'exit' : null);
+    }, settings.durationMs + PREVIEW_HOLD_MS);
+    return () => {
+      window.clearTimeout(timer);
+      current?.cancel();
+    };
+  }, [settings]);
+
+  return (
+    <div
+      className="absolute"
+      style={{
+        left: `calc(50% - ${PREVIEW_SIZE / 2}px)`,
+        top: (PREVIEW_CANVAS.height - PREVIEW_SIZE) / 2,
+        width: PREVIEW_SIZE,
+      }}
+    >
+      <div
+        ref={stickerRef}
+        className="flex items-center justify-center rounded-card bg-gradient-to-br from-violet to-cyan text-2xl"
+        style={{ height: PREVIEW_SIZE }}
+      >
+        ✨
+      </div>
+      {burst && <ConfettiBurst key={burst} size={PREVIEW_SIZE} durationMs={settings.durationMs} />}
+    </div>
+  );
+};
+
+export const AnimationSettingsPanel = ({ animation }: { animation?: AnimationSettings }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<AnimationSettings>(animation ?? DEFAULT_ANIMATION);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by Replay; remounting the preview plays it from the start
+  const [run, setRun] = useState(0);
+
+  const animationMutation = useMutation({
+    mutationFn: async (input: AnimationSettings) => {
+      const response = await api.put<{ user: Streamer }>('/settings/animation', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save animations'));
+    },
+  });
+
+  const variantSelect = (key: 'enter' | 'exit', label: string) => (
+    <label className="flex items-center justify-between gap-3 text-coolGray">
+      {label}
+      <select
+        value={draft[key]}
+        onChange={(event) =>
+          setDraft((prev) => ({
+            ...prev,
+            [key]: event.target.value as AnimationVariant,
+          }))
+        }
+        className={selectClassName}
+      >
+        {ANIMATION_VARIANTS.map((variant) => (
+          <option key={variant.value} value={variant.value}>
+            {variant.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Animations</h3>
+      <p className="mt-1 text-xs text-dimGray">How GIFs arrive on and leave your overlay.</p>
+      <div
+        className="relative mt-3 overflow-hidden rounded-btn border border-slate/50 bg-charcoal"
+        style={{
+          width: '100%',
+          maxWidth: PREVIEW_CANVAS.width,
+          height: PREVIEW_CANVAS.height,
+        }}
+      >
+        <AnimationPreview key={run} settings={draft} />
+        <button
+          type="button"
+          onClick={() => setRun((value) => value + 1)}
+          className="absolute bottom-1 right-1 rounded-btn border border-slate px-2 py-0.5 text-xs text-coolGray hover:border-violet hover:text-white"
+        >
+          Replay
+        </button>
+      </div>
+      <div className="mt-3 space-y-2">
+        {variantSelect('enter', 'Enter')}
+        {variantSelect('exit', 'Exit')}
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Easing
+          <select
+            value={draft.easing}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                easing: event.target.value as AnimationSettings['easing'],
+              }))
+            }
+            className={selectClassName}
+          >
+            {ANIMATION_EASINGS.map((easing) => (
+              <option key={easing.value} value={easing.value}>
+                {easing.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-coolGray">
+          <span className="flex items-center justify-between">
+            Duration
+            <span className="text-white">{(draft.durationMs / 1000).toFixed(2)} s</span>
+          </span>
+          <input
+            type="range"
+            min={150}
+            max={3000}
+            step={50}
+            value={draft.durationMs}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                durationMs: Number(event.target.value),
+              }))
+            }
+            className="mt-1 w-full accent-violet"
+          />
+        </label>
+      </div>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => animationMutation.mutate(draft)}
+        disabled={animationMutation.isPending}
+      >
+        {animationMutation.isPending ? 'Saving…' : 'Save animations'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import type { AuditAction, AuditEvent } from '../types';
+
+type AuditPage = { events: AuditEvent[]; nextCursor: string | null };
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'submission.created': 'submitted a GIF',
+  'submission.approved': 'approved a GIF',
+  'submission.denied': 'denied a GIF',
+  'submission.deleted': 'deleted a GIF',
+  'submission.restored': 'restored a GIF from the trash',
+  'submission.merged': 'resent a GIF that was already queued',
+  'submission.arranged': 'arranged a GIF on the overlay',
+  'submission.blocked': 'was stopped by the blocklist',
+  'blocklist.added': 'added a blocklist entry',
+  'blocklist.removed': 'removed a blocklist entry',
+  'settings.updated': 'changed overlay settings',
+  'profile.updated': 'updated the profile',
+  'password.changed': 'changed the password',
+  'sessions.revoked': 'signed out sessions',
+  'two_factor.enabled': 'turned on two-factor authentication',
+  'two_factor.disabled': 'turned off two-factor authentication',
+  'two_factor.recovery_codes_regenerated': 'generated new recovery codes',
+  'overlay_token.rotated': 'rotated the overlay token',
+  'member.invited': 'created a moderator invite',
+  'member.updated': 'changed moderator permissions',
+  'member.removed': 'removed a moderator',
+  'member.joined': 'joined as moderator',
+  'member.left': 'left the moderator team',
+};
+
+export const AuditLogPanel = () => {
+  const auditQuery = useInfiniteQuery({
+    queryKey: ['audit'],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const response = await api.get<AuditPage>('/audit', {
+        params: pageParam ? { cursor: pageParam } : undefined,
+      });
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const events = auditQuery.data?.pages.flatMap((page) => page.events) ?? [];
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Activity</h3>
+        <button
+          type="button"
+          className="text-xs text-dimGray hover:text-white"
+          onClick={() => auditQuery.refetch()}
+          disabled={auditQuery.isFetching}
+        >
+          Refresh
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-dimGray">Who did what on your channel, newest first.</p>
+      <ul className="mt-3 space-y-2">
+        {events.map((event) => (
+          <li key={event.id} className="rounded-btn border border-slate bg-charcoal p-2 text-xs">
+            <p className="text-coolGray">
+              <span className="font-semibold text-white">{event.actor.name}</span> {ACTION_LABELS[event.action]}
+            </p>
+            <p className="mt-1 text-dimGray">{new Date(event.createdAt).toLocaleString()}</p>
+            {(event.before != null || event.after != null) && (
+              <details className="mt-1 text-dimGray">
+                <summary className="cursor-pointer hover:text-white">Details</summary>
+                {event.before != null && (
+                  <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-all">
+                    Before: {JSON.stringify(event.before, null, 2)}
+                  </pre>
+                )}
+                {event.after != null && (
+                  <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-all">
+                    After: {JSON.stringify(event.after, null, 2)}
+                  </pre>
+                )}
+              </details>
+            )}
+          </li>
+        ))}
+        {!auditQuery.isLoading && events.length === 0 && <p className="text-xs text-dimGray">No activity yet.</p>}
+      </ul>
+      {auditQuery.hasNextPage && (
+        <button
+          type="button"
+          className="mt-3 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+          onClick={() => auditQuery.fetchNextPage()}
+          disabled={auditQuery.isFetchingNextPage}
+        >
+          {auditQuery.isFetchingNextPage ? 'Loading…' : 'Load older'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import type { BlocklistEntry, BlocklistKind, BlocklistMode, Streamer } from '../types';
+
+type BlocklistErrorBody = { details?: { value?: { _errors?: string[] } } };
+
+const KIND_LABELS: Record<BlocklistKind, string> = {
+  name: 'Uploader name',
+  name_pattern: 'Name pattern (regex)',
+  word: 'Word in message',
+  file_hash: 'File hash (SHA-256)',
+};
+
+export const BlocklistPanel = () => {
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<BlocklistKind>('name');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const blocklistQuery = useQuery({
+    queryKey: ['blocklist'],
+    queryFn: async () => {
+      const response = await api.get<{ entries: BlocklistEntry[]; mode: BlocklistMode }>('/settings/blocklist');
+      return response.data;
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (entry: { kind: BlocklistKind; value: string }) => {
+      const response = await api.post<{ entry: BlocklistEntry }>('/settings/blocklist', entry);
+      return response.data.entry;
+    },
+    onSuccess: () => {
+      setValue('');
+      setError(null);
+      void queryClient.invalidateQueries({ queryKey: ['blocklist'] });
+    },
+    onError: (err) => {
+      // Prefer the validation message for the value, such as why a pattern was refused
+      const valueError = axios.isAxiosError<BlocklistErrorBody>(err)
+        ? err.response?.data?.details?.value?._errors?.[0]
+        : undefined;
+      setError(valueError ?? apiErrorMessage(err, 'Unable to add entry'));
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/settings/blocklist/${id}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['blocklist'] });
+    },
+  });
+
+  const modeMutation = useMutation({
+    mutationFn: async (mode: BlocklistMode) => {
+      const response = await api.put<{ user: Streamer }>('/settings/blocklist/mode', { mode });
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['me'], user);
+      void queryClient.invalidateQueries({ queryKey: ['blocklist'] });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!value.trim()) return;
+    addMutation.mutate({ kind, value: value.trim() });
+  };
+
+  const entries = blocklistQuery.data?.entries ?? [];
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Blocklist</h3>
+        <select
+          value={blocklistQuery.data?.mode ?? 'silent'}
+          onChange={(event) => modeMutation.mutate(event.target.value as BlocklistMode)}
+          disabled={modeMutation.isPending || !blocklistQuery.data}
+          className="rounded-btn border border-slate bg-charcoal px-2 py-1 text-xs text-white"
+          aria-label="Blocklist mode"
+        >
+          <option value="silent">Drop silently</option>
+          <option value="reject">Reject with a message</option>
+        </select>
+      </div>
+      <p className="mt-1 text-xs text-dimGray">
+        Silently dropped uploads look successful to the sender, so trolls do not know to change names.
+      </p>
+      <ul className="mt-3 space-y-2">
+        {entries.map((entry) => (
+          <li
+            key={entry.id}
+            className="flex items-center justify-between gap-2 rounded-btn border border-slate bg-charcoal p-2 text-xs"
+          >
+            <div className="min-w-0">
+              <p className="text-dimGray">{KIND_LABELS[entry.kind]}</p>
+              <p className="truncate font-mono text-white">{entry.value}</p>
+            </div>
+            <button
+              type="button"
+              className="text-dimGray hover:text-coral"
+              onClick={() => removeMutation.mutate(entry.id)}
+              disabled={removeMutation.isPending}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+        {!blocklistQuery.isLoading && entries.length === 0 && (
+          <p className="text-xs text-dimGray">Nobody is blocked.</p>
+        )}
+      </ul>
+      <form
+        className="mt-4 space-y-2 rounded-btn border border-dashed border-slate p-3 text-xs"
+        onSubmit={handleSubmit}
+      >
+        <select
+          value={kind}
+          onChange={(event) => setKind(event.target.value as BlocklistKind)}
+          className="w-full rounded-btn border border-slate bg-charcoal px-2 py-1 text-white"
+        >
+          {(Object.keys(KIND_LABELS) as BlocklistKind[]).map((option) => (
+            <option key={option} value={option}>
+              {KIND_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          maxLength={100}
+          placeholder={kind === 'name_pattern' ? '^troll\\d+$' : kind === 'file_hash' ? '64 hex characters' : ''}
+          className="w-full rounded-btn border border-slate bg-charcoal px-2 py-1 text-white"
+        />
+        {kind === 'name_pattern' && (
+          <p className="text-dimGray">
+            Case-insensitive. Groups that repeat something already repeating, like (a+)+, backreferences and more than
+            two of *, +, ? or ranged repeats are refused.
+          </p>
+        )}
+        {error && <p className="text-coral">{error}</p>}
+        <button
+          type="submit"
+          className="w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+          disabled={addMutation.isPending}
+        >
+          {addMutation.isPending ? 'Adding…' : 'Add to blocklist'}
+        </button>
+      </form>
+    </div>
+  );
+};
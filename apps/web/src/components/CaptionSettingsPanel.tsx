@@ -0,0 +1,143 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import {
+  CAPTION_BOUNDS,
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+  DEFAULT_CAPTIONS,
+  captionMessage,
+} from '../lib/overlayCaptions';
+import type { CaptionFont, CaptionPosition, CaptionSettings, Streamer } from '../types';
+import { OverlayCaption } from './OverlayCaption';
+
+const SAMPLE = { name: 'friendly_viewer', message: 'This one is for the clutch play earlier, what a round!' };
+
+const fieldClassName = 'w-36 rounded-btn border border-slate bg-charcoal px-2 py-1 text-white';
+const numberInputClassName = 'w-20 rounded-btn border border-slate bg-charcoal px-2 py-1 text-right text-white';
+
+export const CaptionSettingsPanel = ({ captions }: { captions?: CaptionSettings }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CaptionSettings>(captions ?? DEFAULT_CAPTIONS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(captions ?? DEFAULT_CAPTIONS);
+  }, [captions]);
+
+  const captionsMutation = useMutation({
+    mutationFn: async (input: CaptionSettings) => {
+      const response = await api.put<{ user: Streamer }>('/settings/captions', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save captions'));
+    },
+  });
+
+  const update = (patch: Partial<CaptionSettings>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Captions</h3>
+      <p className="mt-1 text-xs text-dimGray">
+        Credit whoever sent each GIF, with their message, right on the overlay.
+      </p>
+      <label className="mt-3 flex items-center gap-2 text-coolGray cursor-pointer">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(event) => update({ enabled: event.target.checked })}
+          className="h-3 w-3 accent-violet"
+        />
+        Show captions in collage mode
+      </label>
+      <div className="mt-3 flex justify-center overflow-hidden rounded-btn border border-slate/50 bg-charcoal p-3">
+        <OverlayCaption
+          name={SAMPLE.name}
+          message={captionMessage(SAMPLE.message, Math.max(CAPTION_BOUNDS.maxLength.min, draft.maxLength || 0))}
+          // Capped so a large overlay size still fits the sidebar
+          settings={{ ...draft, fontSize: Math.min(Math.max(CAPTION_BOUNDS.fontSize.min, draft.fontSize || 0), 32) }}
+        />
+      </div>
+      <div className="mt-3 space-y-2">
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Font
+          <select
+            value={draft.font}
+            onChange={(event) => update({ font: event.target.value as CaptionFont })}
+            className={fieldClassName}
+          >
+            {CAPTION_FONTS.map((font) => (
+              <option key={font.value} value={font.value}>
+                {font.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Size (px)
+          <input
+            type="number"
+            min={CAPTION_BOUNDS.fontSize.min}
+            max={CAPTION_BOUNDS.fontSize.max}
+            value={draft.fontSize}
+            onChange={(event) => update({ fontSize: Number(event.target.value) })}
+            className={numberInputClassName}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Colour
+          <input
+            type="color"
+            value={draft.color}
+            onChange={(event) => update({ color: event.target.value })}
+            className="h-7 w-20 cursor-pointer rounded-btn border border-slate bg-charcoal"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Position
+          <select
+            value={draft.position}
+            onChange={(event) => update({ position: event.target.value as CaptionPosition })}
+            className={fieldClassName}
+          >
+            {CAPTION_POSITIONS.map((position) => (
+              <option key={position.value} value={position.value}>
+                {position.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-3 text-coolGray">
+          Max message length
+          <input
+            type="number"
+            min={CAPTION_BOUNDS.maxLength.min}
+            max={CAPTION_BOUNDS.maxLength.max}
+            value={draft.maxLength}
+            onChange={(event) => update({ maxLength: Number(event.target.value) })}
+            className={numberInputClassName}
+          />
+        </label>
+        <p className="text-xs text-dimGray">
+          Captions move to the other side of a GIF when they would cover a safe zone. Spotlight mode styles its caption
+          the same way.
+        </p>
+      </div>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => captionsMutation.mutate(draft)}
+        disabled={captionsMutation.isPending}
+      >
+        {captionsMutation.isPending ? 'Saving…' : 'Save captions'}
+      </button>
+    </div>
+  );
+};
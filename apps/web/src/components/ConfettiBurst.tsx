@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+
+type Props = {
+  /** Width of the sticker the burst comes out of, in pixels. */
+  size: number;
+  durationMs: number;
+};
+
+const PARTICLE_COUNT = 18;
+const COLORS = ['#8B5CF6', '#22D3EE', '#F472B6', '#FACC15', '#22C55E', '#FB7185'];
+const PARTICLES = Array.from({ length: PARTICLE_COUNT }, (_, index) => ({
+  id: `particle-${index}`,
+  color: COLORS[index % COLORS.length],
+}));
+
+/** A one-shot spray of confetti from the centre of its positioned parent. */
+export const ConfettiBurst = ({ size, durationMs }: Props) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const particles = Array.from(containerRef.current?.children ?? []) as HTMLElement[];
+    const animations = particles.map((particle, index) => {
+      if (typeof particle.animate !== 'function') return null;
+      // Evenly spread angles with a little variation so the burst does not look like a clock face
+      const angle = (index / PARTICLE_COUNT) * Math.PI * 2 + (index % 3) * 0.2;
+      const distance = size * (0.7 + (index % 4) * 0.22);
+      const x = Math.cos(angle) * distance;
+      const y = Math.sin(angle) * distance;
+      return particle.animate(
+        [
+          { transform: 'translate(0, 0) scale(0.4) rotate(0deg)', opacity: 1 },
+          {
+            transform: `translate(${x}px, ${y}px) scale(1) rotate(${200 + index * 25}deg)`,
+            opacity: 1,
+            offset: 0.6,
+          },
+          {
+            transform: `translate(${x * 1.2}px, ${y * 1.2 + size * 0.6}px) scale(0.8) rotate(${360 + index * 25}deg)`,
+            opacity: 0,
+          },
+        ],
+        {
+          duration: Math.max(600, durationMs * 1.4),
+          easing: 'cubic-bezier(0.16, 1, 0.3, 1)',
+          fill: 'forwards',
+        },
+      );
+    });
+    return () => {
+      for (const animation of animations) {
+        animation?.cancel();
+      }
+    };
+  }, [size, durationMs]);
+
+  return (
+    <div ref={containerRef} className="pointer-events-none absolute inset-0">
+      {PARTICLES.map((particle) => (
+        <span
+          key={particle.id}
+          className="absolute left-1/2 top-1/2 block rounded-sm opacity-0"
+          style={{
+            width: Math.max(4, size * 0.04),
+            height: Math.max(8, size * 0.08),
+            marginLeft: -Math.max(2, size * 0.02),
+            marginTop: -Math.max(4, size * 0.04),
+            background: particle.color,
+          }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import { DEFAULT_DISPLAY_MODE, DISPLAY_MODES, DISPLAY_MODE_BOUNDS, TICKER_EDGES } from '../lib/displayModes';
+import type { DisplayModeSettings, Streamer, TickerEdge } from '../types';
+
+const numberInputClassName = 'w-20 rounded-btn border border-slate bg-charcoal px-2 py-1 text-right text-white';
+
+export const DisplayModePanel = ({ displayMode }: { displayMode?: DisplayModeSettings }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DisplayModeSettings>(displayMode ?? DEFAULT_DISPLAY_MODE);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(displayMode ?? DEFAULT_DISPLAY_MODE);
+  }, [displayMode]);
+
+  const displayModeMutation = useMutation({
+    mutationFn: async (input: DisplayModeSettings) => {
+      const response = await api.put<{ user: Streamer }>('/settings/display-mode', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save the display mode'));
+    },
+  });
+
+  const setSpotlight = (patch: Partial<DisplayModeSettings['spotlight']>) =>
+    setDraft((prev) => ({ ...prev, spotlight: { ...prev.spotlight, ...patch } }));
+  const setTicker = (patch: Partial<DisplayModeSettings['ticker']>) =>
+    setDraft((prev) => ({ ...prev, ticker: { ...prev.ticker, ...patch } }));
+
+  const activeMode = DISPLAY_MODES.find((mode) => mode.value === draft.mode);
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Display mode</h3>
+      <p className="mt-1 text-xs text-dimGray">{activeMode?.description}</p>
+      <div className="mt-3 grid grid-cols-3 gap-1 rounded-btn border border-slate bg-charcoal p-1">
+        {DISPLAY_MODES.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => setDraft((prev) => ({ ...prev, mode: mode.value }))}
+            className={`rounded-btn py-1 font-semibold ${
+              draft.mode === mode.value ? 'bg-violet text-white' : 'text-coolGray hover:text-white'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 space-y-2">
+        {draft.mode === 'collage' && (
+          <p className="text-xs text-dimGray">Arrange and pin GIFs in the overlay layout editor.</p>
+        )}
+        {draft.mode === 'spotlight' && (
+          <>
+            <label className="flex items-center justify-between gap-3 text-coolGray">
+              Seconds per GIF
+              <input
+                type="number"
+                min={DISPLAY_MODE_BOUNDS.secondsPerItem.min}
+                max={DISPLAY_MODE_BOUNDS.secondsPerItem.max}
+                value={draft.spotlight.secondsPerItem}
+                onChange={(event) => setSpotlight({ secondsPerItem: Number(event.target.value) })}
+                className={numberInputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-coolGray cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.spotlight.showCaptions}
+                onChange={(event) => setSpotlight({ showCaptions: event.target.checked })}
+                className="h-3 w-3 accent-violet"
+              />
+              Show who sent it and their message
+            </label>
+          </>
+        )}
+        {draft.mode === 'ticker' && (
+          <>
+            <label className="flex items-center justify-between gap-3 text-coolGray">
+              Edge
+              <select
+                value={draft.ticker.edge}
+                onChange={(event) => setTicker({ edge: event.target.value as TickerEdge })}
+                className="w-24 rounded-btn border border-slate bg-charcoal px-2 py-1 text-white"
+              >
+                {TICKER_EDGES.map((edge) => (
+                  <option key={edge.value} value={edge.value}>
+                    {edge.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-3 text-coolGray">
+              GIF height (px)
+              <input
+                type="number"
+                min={DISPLAY_MODE_BOUNDS.itemSize.min}
+                max={DISPLAY_MODE_BOUNDS.itemSize.max}
+                value={draft.ticker.itemSize}
+                onChange={(event) => setTicker({ itemSize: Number(event.target.value) })}
+                className={numberInputClassName}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-coolGray">
+              Speed (px per second)
+              <input
+                type="number"
+                min={DISPLAY_MODE_BOUNDS.speed.min}
+                max={DISPLAY_MODE_BOUNDS.speed.max}
+                value={draft.ticker.speed}
+                onChange={(event) => setTicker({ speed: Number(event.target.value) })}
+                className={numberInputClassName}
+              />
+            </label>
+          </>
+        )}
+        <p className="text-xs text-dimGray">Every mode keeps clear of your enabled safe zones.</p>
+      </div>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => displayModeMutation.mutate(draft)}
+        disabled={displayModeMutation.isPending}
+      >
+        {displayModeMutation.isPending ? 'Saving…' : 'Save display mode'}
+      </button>
+    </div>
+  );
+};
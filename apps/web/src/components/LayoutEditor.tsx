@@ -0,0 +1,265 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import { computeLayout, resolveOverlayStage } from '../lib/overlayLayout';
+import type { OverlayStageSettings, Submission, SubmissionLayout } from '../types';
+
+type Props = {
+  streamerId: string;
+  submissions: Submission[];
+  stage: OverlayStageSettings | undefined;
+  canEdit: boolean;
+};
+
+type Placement = { x: number; y: number; size: number; rotation: number };
+
+type DragMode = 'move' | 'resize' | 'rotate';
+
+const MIN_SIZE = 48;
+
+const clamp = (value: number, min: number, max: number) => {
+  return Math.min(Math.max(value, min), max);
+};
+
+/**
+ * The overlay canvas at the streamer's resolution with every approved item
+ * where the overlay currently shows it. Dragging, resizing or rotating an item
+ * pins it there; unpinned items keep being placed automatically around it.
+ */
+export const LayoutEditor = ({ streamerId, submissions, stage: stageSettings, canEdit }: Props) => {
+  const queryClient = useQueryClient();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(480);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // The in-progress position while a drag is running, so the saved layout only changes on release
+  const [draft, setDraft] = useState<{ id: string; placement: Placement } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const activeDrag = useRef<{
+    id: string;
+    mode: DragMode;
+    startX: number;
+    startY: number;
+    origin: Placement;
+    latest: Placement;
+  } | null>(null);
+
+  const stage = useMemo(() => resolveOverlayStage(stageSettings), [stageSettings]);
+  const { canvas } = stage;
+  const layout = useMemo(
+    () =>
+      computeLayout(canvas, stage.safeZoneEnabled ? stage.safeZones : [], submissions, {
+        rotationEnabled: stageSettings?.rotationEnabled ?? true,
+      }),
+    [canvas, stage.safeZoneEnabled, stage.safeZones, stageSettings?.rotationEnabled, submissions],
+  );
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const updateSize = () => setContainerWidth(element.clientWidth || 480);
+    updateSize();
+    const observer = new ResizeObserver(() => updateSize());
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = containerWidth / canvas.width;
+
+  const layoutMutation = useMutation({
+    mutationFn: async (input: { id: string; layout: SubmissionLayout }) => {
+      const response = await api.put<{ submission: Submission }>(`/submissions/${input.id}/layout`, {
+        layout: input.layout,
+      });
+      return response.data.submission;
+    },
+    onSuccess: (submission) => {
+      queryClient.setQueryData<{ submissions: Submission[]; stage: OverlayStageSettings }>(
+        ['approved', streamerId],
+        (current) =>
+          current && {
+            ...current,
+            submissions: current.submissions.map((entry) => (entry.id === submission.id ? submission : entry)),
+          },
+      );
+      setError(null);
+    },
+    onError: (error) => {
+      setError(apiErrorMessage(error, 'Failed to save the layout'));
+    },
+    onSettled: () => setDraft(null),
+  });
+
+  const saveLayout = (id: string, placement: Placement, pinned: boolean) => {
+    layoutMutation.mutate({
+      id,
+      layout: {
+        x: Math.round(placement.x),
+        y: Math.round(placement.y),
+        size: Math.round(placement.size),
+        rotation: Math.round(placement.rotation),
+        pinned,
+        canvas: { width: canvas.width, height: canvas.height },
+      },
+    });
+  };
+
+  useEffect(() => {
+    const move = (event: PointerEvent) => {
+      const drag = activeDrag.current;
+      if (!drag) return;
+      const dx = (event.clientX - drag.startX) / scale;
+      const dy = (event.clientY - drag.startY) / scale;
+      const { origin } = drag;
+      let next = origin;
+      if (drag.mode === 'move') {
+        next = {
+          ...origin,
+          x: clamp(origin.x + dx, 0, canvas.width - origin.size),
+          y: clamp(origin.y + dy, 0, canvas.height - origin.size),
+        };
+      } else if (drag.mode === 'resize') {
+        const maxSize = Math.min(canvas.width - origin.x, canvas.height - origin.y);
+        next = { ...origin, size: clamp(origin.size + Math.max(dx, dy), MIN_SIZE, maxSize) };
+      } else {
+        // Angle from the item's centre to the pointer; the handle sits straight above at 0 degrees
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const centerX = rect.left + (origin.x + origin.size / 2) * scale;
+        const centerY = rect.top + (origin.y + origin.size / 2) * scale;
+        const angle = (Math.atan2(event.clientY - centerY, event.clientX - centerX) * 180) / Math.PI + 90;
+        next = { ...origin, rotation: Math.round(((angle + 540) % 360) - 180) };
+      }
+      drag.latest = next;
+      setDraft({ id: drag.id, placement: next });
+    };
+    const up = () => {
+      const drag = activeDrag.current;
+      if (!drag) return;
+      activeDrag.current = null;
+      if (drag.latest === drag.origin) {
+        setDraft(null);
+        return;
+      }
+      saveLayout(drag.id, drag.latest, true);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+    return () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+  });
+
+  const startDrag = (id: string, mode: DragMode, placement: Placement) => (event: React.PointerEvent<HTMLElement>) => {
+    event.stopPropagation();
+    setSelectedId(id);
+    if (!canEdit) return;
+    event.preventDefault();
+    activeDrag.current = {
+      id,
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      origin: placement,
+      latest: placement,
+    };
+  };
+
+  const selected = layout.find((item) => item.id === selectedId);
+  const selectedPinned = Boolean(selected?.submission.layout?.pinned);
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        className="relative w-full rounded-lg border border-white/10 bg-slate-900/60"
+        style={{ aspectRatio: `${canvas.width} / ${canvas.height}`, touchAction: 'none' }}
+        onPointerDown={() => setSelectedId(null)}
+      >
+        <div className="absolute inset-0 bg-[radial-gradient(circle,_rgba(148,163,184,0.2)_1px,_transparent_1px)] [background-size:16px_16px]" />
+        {stage.safeZoneEnabled &&
+          stage.safeZones.map((zone) => (
+            <div
+              key={`safe-zone-${zone.x}-${zone.y}-${zone.width}-${zone.height}`}
+              className="pointer-events-none absolute rounded border border-dashed border-emerald-400/60 bg-emerald-400/5"
+              style={{
+                left: zone.x * scale,
+                top: zone.y * scale,
+                width: zone.width * scale,
+                height: zone.height * scale,
+              }}
+            />
+          ))}
+        {layout.map((item) => {
+          const placement = draft?.id === item.id ? draft.placement : item;
+          const isSelected = item.id === selectedId;
+          const isPinned = Boolean(item.submission.layout?.pinned);
+          return (
+            <div
+              key={item.id}
+              className={`absolute select-none ${canEdit ? 'cursor-move' : 'cursor-pointer'} ${
+                isSelected ? 'ring-2 ring-violet' : isPinned ? 'ring-1 ring-violet/50' : ''
+              }`}
+              style={{
+                left: placement.x * scale,
+                top: placement.y * scale,
+                width: placement.size * scale,
+                height: placement.size * scale,
+                zIndex: isSelected ? 1000 : item.zIndex,
+                transform: `rotate(${placement.rotation}deg)`,
+              }}
+              onPointerDown={startDrag(item.id, 'move', placement)}
+            >
+              <img
+                src={item.submission.thumbnailUrl ?? item.submission.fileUrl}
+                alt={item.submission.uploaderName}
+                draggable={false}
+                className="h-full w-full object-contain"
+              />
+              {isSelected && canEdit && (
+                <>
+                  <span
+                    onPointerDown={startDrag(item.id, 'resize', placement)}
+                    className="absolute bottom-0 right-0 h-3 w-3 translate-x-1/2 translate-y-1/2 cursor-nwse-resize rounded-full border border-white bg-violet"
+                    title="Resize"
+                  />
+                  <span
+                    onPointerDown={startDrag(item.id, 'rotate', placement)}
+                    className="absolute left-1/2 -top-5 h-3 w-3 -translate-x-1/2 cursor-grab rounded-full border border-white bg-cyan"
+                    title="Rotate"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs text-coral">{error}</p>}
+      {selected ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-coolGray">
+          <span className="min-w-0 truncate">
+            <span className="font-semibold text-white">{selected.submission.uploaderName}</span> ·{' '}
+            {selectedPinned ? 'Pinned' : 'Placed automatically'} · {Math.round(selected.size)} px ·{' '}
+            {Math.round(selected.rotation)}°
+          </span>
+          {canEdit && (
+            <button
+              type="button"
+              disabled={layoutMutation.isPending}
+              onClick={() => saveLayout(selected.id, selected, !selectedPinned)}
+              className="rounded-btn border border-slate px-3 py-1 font-semibold text-white hover:border-violet disabled:opacity-50"
+            >
+              {selectedPinned ? 'Unpin' : 'Pin here'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-dimGray">
+          {canEdit
+            ? 'Drag a GIF to pin it in place. Use the corner handle to resize it and the top handle to rotate it.'
+            : 'Select a GIF to see where it sits on the overlay.'}
+        </p>
+      )}
+    </div>
+  );
+};
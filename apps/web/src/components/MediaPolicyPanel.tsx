@@ -0,0 +1,100 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import type { MediaPolicy, Streamer } from '../types';
+
+const DEFAULT_POLICY: MediaPolicy = {
+  maxFrames: 300,
+  maxDurationSeconds: 15,
+  maxWidth: 1280,
+  maxHeight: 1280,
+  allowStillImages: true,
+  limitStillSize: false,
+};
+
+type NumericField = Exclude<keyof MediaPolicy, 'allowStillImages' | 'limitStillSize'>;
+
+const FIELDS: { key: NumericField; label: string; min: number; max: number }[] = [
+  { key: 'maxFrames', label: 'Max frames', min: 1, max: 2000 },
+  { key: 'maxDurationSeconds', label: 'Max length (seconds)', min: 1, max: 120 },
+  { key: 'maxWidth', label: 'Max width (px)', min: 64, max: 4096 },
+  { key: 'maxHeight', label: 'Max height (px)', min: 64, max: 4096 },
+];
+
+export const MediaPolicyPanel = ({ policy }: { policy?: MediaPolicy }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<MediaPolicy>(policy ?? DEFAULT_POLICY);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(policy ?? DEFAULT_POLICY);
+  }, [policy]);
+
+  const policyMutation = useMutation({
+    mutationFn: async (input: MediaPolicy) => {
+      const response = await api.put<{ user: Streamer }>('/settings/media-policy', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save media rules'));
+    },
+  });
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Media rules</h3>
+      <p className="mt-1 text-xs text-dimGray">Uploads outside these limits are turned away with an explanation.</p>
+      <div className="mt-3 space-y-2">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-3 text-coolGray">
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={draft[field.key]}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [field.key]: Number(event.target.value) }))}
+              className="w-20 rounded-btn border border-slate bg-charcoal px-2 py-1 text-right text-white"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-coolGray cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.allowStillImages}
+            onChange={(event) => setDraft((prev) => ({ ...prev, allowStillImages: event.target.checked }))}
+            className="h-3 w-3 accent-violet"
+          />
+          Accept still images
+        </label>
+        <label className="flex items-center gap-2 text-coolGray cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.limitStillSize}
+            disabled={!draft.allowStillImages}
+            onChange={(event) => setDraft((prev) => ({ ...prev, limitStillSize: event.target.checked }))}
+            className="h-3 w-3 accent-violet"
+          />
+          Apply the size limits to still images too
+        </label>
+        <p className="text-xs text-dimGray">
+          Off by default, so photos straight from a phone camera are accepted. Width and height always apply to
+          animations.
+        </p>
+      </div>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => policyMutation.mutate(draft)}
+        disabled={policyMutation.isPending}
+      >
+        {policyMutation.isPending ? 'Saving…' : 'Save media rules'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { api } from '../lib/api';
+import type { MemberPermission, StreamerMember } from '../types';
+
+const GRANTABLE_PERMISSIONS: { value: MemberPermission; label: string }[] = [
+  { value: 'review', label: 'Approve & deny' },
+  { value: 'delete', label: 'Delete' },
+];
+
+export const MembersPanel = () => {
+  const queryClient = useQueryClient();
+  const [invitePermissions, setInvitePermissions] = useState<MemberPermission[]>(['review']);
+  const [copiedInviteId, setCopiedInviteId] = useState<string | null>(null);
+
+  const membersQuery = useQuery({
+    queryKey: ['members'],
+    queryFn: async () => {
+      const response = await api.get<{ members: StreamerMember[] }>('/members');
+      return response.data.members;
+    },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (permissions: MemberPermission[]) => {
+      const response = await api.post<{ member: StreamerMember }>('/members/invites', {
+        permissions: ['view', ...permissions],
+      });
+      return response.data.member;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['members'] });
+    },
+  });
+
+  const permissionsMutation = useMutation({
+    mutationFn: async ({ id, permissions }: { id: string; permissions: MemberPermission[] }) => {
+      const response = await api.put<{ member: StreamerMember }>(`/members/${id}`, { permissions });
+      return response.data.member;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['members'] });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/members/${id}`);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['members'] });
+    },
+  });
+
+  const inviteUrl = (code: string) => {
+    const params = new URLSearchParams({ invite: code });
+    return `${window.location.origin}/auth/signup?${params.toString()}`;
+  };
+
+  const members = membersQuery.data ?? [];
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Moderators</h3>
+      <p className="mt-1 text-xs text-dimGray">
+        Invite mods with their own login instead of sharing your password. Moderators can never change settings or
+        rotate your overlay token.
+      </p>
+      <div className="mt-3 space-y-2">
+        {members.map((member) => (
+          <div key={member.id} className="rounded-btn border border-slate bg-charcoal p-2 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <p className="truncate font-semibold text-white">
+                {member.acceptedAt ? member.displayName ?? member.slug : 'Pending invite'}
+              </p>
+              <button
+                type="button"
+                className="text-dimGray hover:text-coral"
+                onClick={() => removeMutation.mutate(member.id)}
+                disabled={removeMutation.isPending}
+              >
+                {member.acceptedAt ? 'Remove' : 'Revoke'}
+              </button>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-3 text-coolGray">
+              {GRANTABLE_PERMISSIONS.map((permission) => (
+                <label key={permission.value} className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={member.permissions.includes(permission.value)}
+                    onChange={(event) => {
+                      const granted = member.permissions.filter((entry) => entry !== permission.value);
+                      permissionsMutation.mutate({
+                        id: member.id,
+                        permissions: event.target.checked ? [...granted, permission.value] : granted,
+                      });
+                    }}
+                    className="h-3 w-3 accent-violet"
+                  />
+                  {permission.label}
+                </label>
+              ))}
+            </div>
+            {member.inviteCode && (
+              <div className="mt-2 flex gap-2">
+                <code className="flex-1 truncate rounded-btn bg-graphite border border-slate p-1">
+                  {inviteUrl(member.inviteCode)}
+                </code>
+                <button
+                  type="button"
+                  className="rounded-btn border border-slate px-2 hover:border-violet"
+                  onClick={async () => {
+                    try {
+                      await navigator.clipboard.writeText(inviteUrl(member.inviteCode ?? ''));
+                      setCopiedInviteId(member.id);
+                      setTimeout(() => setCopiedInviteId(null), 2000);
+                    } catch (error) {
+                      console.error('Clipboard error', error);
+                    }
+                  }}
+                >
+                  {copiedInviteId === member.id ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {!membersQuery.isLoading && members.length === 0 && <p className="text-xs text-dimGray">No moderators yet.</p>}
+      </div>
+      <div className="mt-4 rounded-btn border border-dashed border-slate p-3 text-xs">
+        <p className="font-semibold text-coolGray">New invite</p>
+        <div className="mt-2 flex flex-wrap gap-3 text-coolGray">
+          {GRANTABLE_PERMISSIONS.map((permission) => (
+            <label key={permission.value} className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={invitePermissions.includes(permission.value)}
+                onChange={(event) =>
+                  setInvitePermissions((prev) =>
+                    event.target.checked
+                      ? [...prev, permission.value]
+                      : prev.filter((entry) => entry !== permission.value),
+                  )
+                }
+                className="h-3 w-3 accent-violet"
+              />
+              {permission.label}
+            </label>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="mt-3 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+          onClick={() => inviteMutation.mutate(invitePermissions)}
+          disabled={inviteMutation.isPending}
+        >
+          {inviteMutation.isPending ? 'Creating…' : 'Create invite link'}
+        </button>
+      </div>
+    </div>
+  );
+};
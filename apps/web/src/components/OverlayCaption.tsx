@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { CAPTION_MESSAGE_LINES, CAPTION_MESSAGE_SCALE, captionFontStack, captionPadding } from '../lib/overlayCaptions';
+import type { LayoutRect } from '../lib/overlayLayout';
+import type { CaptionSettings } from '../types';
+
+type Props = {
+  name: string;
+  message: string;
+  /** Where to draw the bubble; omitted when the parent lays it out in normal flow. */
+  rect?: LayoutRect;
+  settings: CaptionSettings;
+  /** Fades in over this long when it first appears. */
+  fadeMs?: number;
+};
+
+export const OverlayCaption = ({ name, message, rect, settings, fadeMs = 300 }: Props) => {
+  const bubbleRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = bubbleRef.current;
+    if (!element || typeof element.animate !== 'function') return;
+    const fade = element.animate([{ opacity: 0 }, { opacity: 1 }], { duration: fadeMs, easing: 'ease-out' });
+    return () => fade.cancel();
+  }, [fadeMs]);
+
+  return (
+    <div
+      ref={bubbleRef}
+      className={`${rect ? 'absolute' : 'max-w-full'} overflow-hidden rounded-2xl bg-black/60 text-center shadow-lg`}
+      style={{
+        ...(rect && { left: rect.x, top: rect.y, width: rect.width, maxHeight: rect.height, zIndex: 1000 }),
+        padding: captionPadding(settings.fontSize),
+        fontFamily: captionFontStack(settings.font),
+        fontSize: settings.fontSize,
+        color: settings.color,
+        lineHeight: 1.25,
+      }}
+    >
+      <p className="truncate font-bold">{name}</p>
+      {message && (
+        <p
+          className="break-words opacity-90"
+          style={{
+            fontSize: settings.fontSize * CAPTION_MESSAGE_SCALE,
+            display: '-webkit-box',
+            WebkitBoxOrient: 'vertical',
+            WebkitLineClamp: CAPTION_MESSAGE_LINES,
+            overflow: 'hidden',
+          }}
+        >
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useExitingItems } from '../lib/overlayAnimations';
+import { captionMessage, measureCaption } from '../lib/overlayCaptions';
+import type { LayoutCanvas, LayoutItem, LayoutRect } from '../lib/overlayLayout';
+import type { AnimationSettings, CaptionSettings, DisplayModeSettings, Submission } from '../types';
+import { OverlayCaption } from './OverlayCaption';
+import { OverlaySticker } from './OverlaySticker';
+
+type Props = {
+  submissions: Submission[];
+  canvas: LayoutCanvas;
+  /** Where the spotlight may draw, already clear of the safe zones. */
+  area: LayoutRect;
+  options: DisplayModeSettings['spotlight'];
+  animation: AnimationSettings;
+  /** Styles the caption; whether it shows is up to `options.showCaptions`. */
+  captions: CaptionSettings;
+};
+
+const CAPTION_GAP = 16;
+
+/**
+ * Shows one approved GIF at a time, oldest approval first, moving on every
+ * `secondsPerItem` and wrapping around at the end of the queue.
+ */
+export const OverlaySpotlight = ({ submissions, canvas, area, options, animation, captions }: Props) => {
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  // Falls back to the front of the queue when the current GIF is removed
+  const current = submissions.find((submission) => submission.id === currentId) ?? submissions[0] ?? null;
+
+  useEffect(() => {
+    if (submissions.length < 2) return;
+    const timer = window.setInterval(() => {
+      setCurrentId((previous) => {
+        // Nothing picked yet, or the pick was removed, means the front of the queue is showing
+        const index = Math.max(
+          0,
+          submissions.findIndex((submission) => submission.id === previous),
+        );
+        return submissions[(index + 1) % submissions.length].id;
+      });
+    }, options.secondsPerItem * 1000);
+    return () => window.clearInterval(timer);
+  }, [submissions, options.secondsPerItem]);
+
+  const message = captionMessage(current?.message, captions.maxLength);
+  const captionSpace =
+    options.showCaptions && current
+      ? Math.min(
+          area.height * 0.35,
+          measureCaption({ name: current.uploaderName, message }, captions, area.width).height + CAPTION_GAP,
+        )
+      : 0;
+  const size = Math.max(0, Math.min(area.width, area.height - captionSpace));
+
+  const items = useMemo<LayoutItem<Submission>[]>(() => {
+    if (!current) return [];
+    return [
+      {
+        id: current.id,
+        submission: current,
+        x: area.x + (area.width - size) / 2,
+        y: area.y + (area.height - captionSpace - size) / 2,
+        size,
+        rotation: 0,
+        zIndex: 200,
+      },
+    ];
+  }, [current, area, size, captionSpace]);
+  const exitingItems = useExitingItems(items, animation.durationMs);
+
+  return (
+    <>
+      {[
+        ...items.map((item) => ({ item, exiting: false })),
+        ...exitingItems.map((item) => ({ item, exiting: true })),
+      ].map(({ item, exiting }) => (
+        <OverlaySticker key={item.id} item={item} canvas={canvas} animation={animation} exiting={exiting} />
+      ))}
+      {options.showCaptions && current && (
+        <div
+          className="absolute flex justify-center"
+          style={{
+            left: area.x,
+            top: area.y + area.height - captionSpace + CAPTION_GAP,
+            width: area.width,
+            zIndex: 300,
+          }}
+        >
+          <OverlayCaption
+            key={current.id}
+            name={current.uploaderName}
+            message={message}
+            settings={captions}
+            fadeMs={animation.durationMs}
+          />
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { playStickerAnimation, slideOffsetFor } from '../lib/overlayAnimations';
+import type { LayoutItem } from '../lib/overlayLayout';
+import type { AnimationSettings, Submission } from '../types';
+import { ConfettiBurst } from './ConfettiBurst';
+
+type Props = {
+  item: LayoutItem<Submission>;
+  canvas: { width: number; height: number };
+  animation: AnimationSettings;
+  exiting: boolean;
+};
+
+/**
+ * One GIF on the overlay. The outer element owns position and rotation (and
+ * eases between layouts); the inner one plays the enter and exit animations.
+ */
+export const OverlaySticker = ({ item, canvas, animation, exiting }: Props) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  // Decided on mount so switching the setting later does not set off every sticker already on screen
+  const [enterBurst] = useState(() => animation.enter === 'confetti');
+  // Read when the animations start rather than re-running them whenever settings or the layout change
+  const latest = useRef({ item, canvas, animation });
+  latest.current = { item, canvas, animation };
+
+  useEffect(() => {
+    const element = bodyRef.current;
+    if (!element) return;
+    const { item: current, canvas: currentCanvas, animation: settings } = latest.current;
+    const played = playStickerAnimation(element, settings, 'enter', slideOffsetFor(current, currentCanvas));
+    return () => played?.cancel();
+  }, []);
+
+  useEffect(() => {
+    const element = bodyRef.current;
+    if (!exiting || !element) return;
+    const { item: current, canvas: currentCanvas, animation: settings } = latest.current;
+    const played = playStickerAnimation(element, settings, 'exit', slideOffsetFor(current, currentCanvas));
+    return () => played?.cancel();
+  }, [exiting]);
+
+  return (
+    <div
+      className={`absolute transition-all duration-500 ${exiting ? 'pointer-events-none' : ''}`}
+      style={{
+        left: item.x,
+        top: item.y,
+        width: item.size,
+        zIndex: item.zIndex,
+        transform: `rotate(${item.rotation}deg)`,
+      }}
+    >
+      <div ref={bodyRef} className="relative">
+        <img
+          src={item.submission.fileUrl}
+          alt={item.submission.uploaderName}
+          className="block w-full drop-shadow-[0_10px_25px_rgba(15,15,30,0.7)]"
+        />
+      </div>
+      {!exiting && enterBurst && <ConfettiBurst size={item.size} durationMs={animation.durationMs} />}
+      {exiting && animation.exit === 'confetti' && <ConfettiBurst size={item.size} durationMs={animation.durationMs} />}
+    </div>
+  );
+};
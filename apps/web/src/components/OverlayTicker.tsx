@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import type { LayoutRect } from '../lib/overlayLayout';
+import type { DisplayModeSettings, Submission } from '../types';
+
+type Props = {
+  submissions: Submission[];
+  /** The strip to scroll through, already clear of the safe zones. */
+  area: LayoutRect;
+  options: DisplayModeSettings['ticker'];
+};
+
+const GAP = 24;
+
+/**
+ * Approved GIFs in a single row that scrolls along an edge on a loop. When
+ * the whole queue fits in the strip it simply sits there, centred.
+ */
+export const OverlayTicker = ({ submissions, area, options }: Props) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  // How far through the loop the strip was, so a queue change carries on from there instead of jumping back
+  const progress = useRef(0);
+  const size = area.height;
+  const contentWidth = submissions.length * (size + GAP);
+  const scrolls = contentWidth > area.width;
+
+  useEffect(() => {
+    const element = trackRef.current;
+    if (!element || !scrolls || typeof element.animate !== 'function') return;
+    const duration = (contentWidth / options.speed) * 1000;
+    const animation = element.animate(
+      [{ transform: 'translateX(0)' }, { transform: `translateX(-${contentWidth}px)` }],
+      {
+        duration,
+        iterations: Number.POSITIVE_INFINITY,
+        easing: 'linear',
+      },
+    );
+    animation.currentTime = progress.current * duration;
+    return () => {
+      progress.current = (Number(animation.currentTime) % duration) / duration || 0;
+      animation.cancel();
+    };
+  }, [contentWidth, options.speed, scrolls]);
+
+  // Drawn twice while scrolling so the strip never runs empty as the loop wraps
+  const rows = scrolls ? [submissions, submissions] : [submissions];
+
+  return (
+    <div
+      className="absolute overflow-hidden"
+      style={{ left: area.x, top: area.y, width: area.width, height: area.height, zIndex: 200 }}
+    >
+      <div ref={trackRef} className={`flex h-full ${scrolls ? '' : 'justify-center'}`} style={{ gap: GAP }}>
+        {rows.flatMap((row, copy) =>
+          row.map((submission) => (
+            <img
+              key={`${copy}-${submission.id}`}
+              src={submission.fileUrl}
+              alt={submission.uploaderName}
+              className="h-full flex-none object-contain drop-shadow-[0_10px_25px_rgba(15,15,30,0.7)]"
+              style={{ width: size }}
+            />
+          )),
+        )}
+      </div>
+    </div>
+  );
+};
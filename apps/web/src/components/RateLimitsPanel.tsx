@@ -0,0 +1,114 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import type { DuplicateHandling, RateLimits, Streamer } from '../types';
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  windowMinutes: 10,
+  perIp: 8,
+  perUploader: 4,
+};
+
+const FIELDS: { key: keyof RateLimits; label: string; max: number }[] = [
+  { key: 'perIp', label: 'Per viewer connection', max: 100 },
+  { key: 'perUploader', label: 'Per uploader name', max: 100 },
+  { key: 'windowMinutes', label: 'Window (minutes)', max: 1440 },
+];
+
+const DUPLICATE_OPTIONS: { value: DuplicateHandling; label: string }[] = [
+  { value: 'merge', label: 'Merge into the original' },
+  { value: 'reject', label: 'Reject' },
+  { value: 'allow', label: 'Allow' },
+];
+
+type RateLimitsPanelProps = {
+  limits?: RateLimits;
+  duplicateHandling?: DuplicateHandling;
+};
+
+export const RateLimitsPanel = ({ limits, duplicateHandling = 'merge' }: RateLimitsPanelProps) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RateLimits>(limits ?? DEFAULT_RATE_LIMITS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(limits ?? DEFAULT_RATE_LIMITS);
+  }, [limits]);
+
+  const rateLimitsMutation = useMutation({
+    mutationFn: async (input: RateLimits) => {
+      const response = await api.put<{ user: Streamer }>('/settings/rate-limits', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save spam protection'));
+    },
+  });
+
+  const duplicatesMutation = useMutation({
+    mutationFn: async (mode: DuplicateHandling) => {
+      const response = await api.put<{ user: Streamer }>('/settings/duplicates', { mode });
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['me'], user);
+    },
+  });
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Spam protection</h3>
+      <p className="mt-1 text-xs text-dimGray">
+        Viewers over these limits are asked to wait before submitting again. Resubmitted GIFs are recognised even after
+        being resized or re-encoded.
+      </p>
+      <div className="mt-3 space-y-2">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-3 text-coolGray">
+            {field.label}
+            <input
+              type="number"
+              min={1}
+              max={field.max}
+              value={draft[field.key]}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [field.key]: Number(event.target.value) }))}
+              className="w-20 rounded-btn border border-slate bg-charcoal px-2 py-1 text-right text-white"
+            />
+          </label>
+        ))}
+      </div>
+      <label className="mt-3 flex items-center justify-between gap-3 text-coolGray">
+        Resubmitted GIFs
+        <select
+          value={duplicateHandling}
+          onChange={(event) => duplicatesMutation.mutate(event.target.value as DuplicateHandling)}
+          disabled={duplicatesMutation.isPending}
+          className="rounded-btn border border-slate bg-charcoal px-2 py-1 text-white"
+        >
+          {DUPLICATE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="mt-1 text-xs text-dimGray">
+        Exact copies are caught in every format. Resized or re-encoded copies are only recognised for GIF and PNG
+        uploads.
+      </p>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => rateLimitsMutation.mutate(draft)}
+        disabled={rateLimitsMutation.isPending}
+      >
+        {rateLimitsMutation.isPending ? 'Saving…' : 'Save limits'}
+      </button>
+    </div>
+  );
+};
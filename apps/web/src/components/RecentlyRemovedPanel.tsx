@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import type { Streamer, Submission } from '../types';
+import { SubmissionThumbnail } from './SubmissionThumbnail';
+
+const RETENTION_OPTIONS = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 1440, label: '24 hours' },
+];
+
+type RecentlyRemovedPanelProps = {
+  streamerId: string;
+  /** Denied items need review rights to restore, deleted ones need delete rights. */
+  canRestore: (submission: Submission) => boolean;
+  /** Only the channel owner can change how long the trash is kept. */
+  retentionMinutes?: number;
+};
+
+export const RecentlyRemovedPanel = ({ streamerId, canRestore, retentionMinutes }: RecentlyRemovedPanelProps) => {
+  const queryClient = useQueryClient();
+
+  const trashQuery = useQuery({
+    queryKey: ['trash', streamerId],
+    queryFn: async () => {
+      const response = await api.get<{ submissions: Submission[] }>('/submissions/trash', {
+        params: { streamerId },
+      });
+      return response.data.submissions;
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await api.post<{ submission: Submission }>(`/submissions/${id}/restore`);
+      return response.data.submission;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['trash'] });
+      void queryClient.invalidateQueries({ queryKey: ['pending'] });
+      void queryClient.invalidateQueries({ queryKey: ['approved'] });
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: async (minutes: number) => {
+      const response = await api.put<{ user: Streamer }>('/settings/trash-retention', { minutes });
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['me'], user);
+    },
+  });
+
+  const submissions = trashQuery.data ?? [];
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-4 md:p-l shadow-low">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Recently removed</h2>
+        {retentionMinutes !== undefined && (
+          <label className="flex items-center gap-2 text-xs text-coolGray">
+            Keep for
+            <select
+              value={retentionMinutes}
+              onChange={(event) => retentionMutation.mutate(Number(event.target.value))}
+              disabled={retentionMutation.isPending}
+              className="rounded-btn border border-slate bg-charcoal px-2 py-1 text-white"
+            >
+              {RETENTION_OPTIONS.some((option) => option.minutes === retentionMinutes) ? null : (
+                <option value={retentionMinutes}>{retentionMinutes} minutes</option>
+              )}
+              {RETENTION_OPTIONS.map((option) => (
+                <option key={option.minutes} value={option.minutes}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-dimGray">Denied and deleted GIFs can be restored until they are purged.</p>
+      <div className="mt-4 space-y-2">
+        {submissions.map((submission) => (
+          <div
+            key={submission.id}
+            className="flex items-center gap-3 rounded-card border border-slate/30 bg-charcoal p-2 text-sm"
+          >
+            <SubmissionThumbnail
+              submission={submission}
+              className="h-12 w-20 shrink-0 rounded-btn object-cover object-center opacity-60"
+            />
+            <div className="min-w-0 flex-1">
+              <p className="font-semibold truncate">{submission.uploaderName}</p>
+              <p className="text-xs text-dimGray">
+                {submission.status === 'denied' ? 'Denied' : 'Deleted'}
+                {submission.purgeAt && ` · purged ${new Date(submission.purgeAt).toLocaleTimeString()}`}
+              </p>
+            </div>
+            {canRestore(submission) && (
+              <button
+                type="button"
+                className="rounded-btn border border-violet/40 px-3 py-1 text-xs font-semibold text-white hover:bg-violet/20 active:bg-violet/30 shrink-0 disabled:opacity-60"
+                onClick={() => restoreMutation.mutate(submission.id)}
+                disabled={restoreMutation.isPending}
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        ))}
+        {!trashQuery.isLoading && submissions.length === 0 && (
+          <p className="text-sm text-dimGray">Nothing removed recently.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import type { AccountSession } from '../types';
+
+type SessionsPanelProps = {
+  /** Called once the current session is gone, so the page can leave. */
+  onSignedOut: () => void;
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Electron\//, 'Desktop app'],
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !platform) {
+    return userAgent.slice(0, 60);
+  }
+  return [browser, platform].filter(Boolean).join(' on ');
+}
+
+export const SessionsPanel = ({ onSignedOut }: SessionsPanelProps) => {
+  const queryClient = useQueryClient();
+
+  const sessionsQuery = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await api.get<{ sessions: AccountSession[] }>('/settings/sessions');
+      return response.data.sessions;
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: AccountSession) => {
+      await api.delete(`/settings/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        onSignedOut();
+        return;
+      }
+      void queryClient.invalidateQueries({ queryKey: ['sessions'] });
+    },
+  });
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      await api.post('/auth/logout-all');
+    },
+    onSuccess: onSignedOut,
+  });
+
+  const sessions = sessionsQuery.data ?? [];
+
+  return (
+    <div className="rounded-modal bg-graphite border border-slate/30 p-l shadow-medium">
+      <h2 className="text-xl font-semibold mb-2">Active sessions</h2>
+      <p className="text-sm text-coolGray mb-4">
+        Every browser and app signed in to this account. Sign out anything you don't recognise.
+      </p>
+      <div className="space-y-2">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-3 rounded-btn border border-slate bg-charcoal p-3 text-sm"
+          >
+            <div className="min-w-0">
+              <p className="font-semibold truncate">
+                {describeUserAgent(session.userAgent)}
+                {session.current && <span className="ml-2 text-xs font-normal text-emerald">This browser</span>}
+              </p>
+              <p className="text-xs text-dimGray">
+                {session.locationHint ?? 'Unknown location'} · signed in{' '}
+                {new Date(session.createdAt).toLocaleDateString()} · last active{' '}
+                {new Date(session.lastSeenAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              type="button"
+              className="shrink-0 rounded-btn border border-slate px-3 py-1 text-xs font-semibold text-coolGray hover:border-coral hover:text-white disabled:opacity-60"
+              onClick={() => revokeMutation.mutate(session)}
+              disabled={revokeMutation.isPending}
+            >
+              Sign out
+            </button>
+          </div>
+        ))}
+        {sessionsQuery.isLoading && <p className="text-sm text-coolGray">Loading sessions...</p>}
+      </div>
+      <button
+        type="button"
+        onClick={() => signOutEverywhereMutation.mutate()}
+        disabled={signOutEverywhereMutation.isPending}
+        className="mt-4 rounded-btn border border-coral/40 py-2 px-5 font-semibold text-white hover:bg-coral/20 active:bg-coral/30 disabled:opacity-50"
+      >
+        {signOutEverywhereMutation.isPending ? 'Signing out...' : 'Sign out everywhere'}
+      </button>
+    </div>
+  );
+};
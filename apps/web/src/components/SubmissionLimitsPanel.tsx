@@ -0,0 +1,79 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import type { Streamer, SubmissionLimits } from '../types';
+
+const DEFAULT_LIMITS: SubmissionLimits = {
+  pendingExpiryHours: 12,
+  approvedExpiryHours: 12,
+  maxSubmissions: 64,
+};
+
+const FIELDS: { key: keyof SubmissionLimits; label: string; hint: string; max: number }[] = [
+  { key: 'pendingExpiryHours', label: 'Pending lifetime', hint: 'hours', max: 72 },
+  { key: 'approvedExpiryHours', label: 'Live lifetime', hint: 'hours after approval', max: 72 },
+  { key: 'maxSubmissions', label: 'Queue cap', hint: 'submissions', max: 500 },
+];
+
+export const SubmissionLimitsPanel = ({ limits }: { limits?: SubmissionLimits }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<SubmissionLimits>(limits ?? DEFAULT_LIMITS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(limits ?? DEFAULT_LIMITS);
+  }, [limits]);
+
+  const limitsMutation = useMutation({
+    mutationFn: async (input: SubmissionLimits) => {
+      const response = await api.put<{ user: Streamer }>('/settings/submission-limits', input);
+      return response.data.user;
+    },
+    onSuccess: (user) => {
+      setError(null);
+      queryClient.setQueryData(['me'], user);
+      void queryClient.invalidateQueries({ queryKey: ['pending'] });
+      void queryClient.invalidateQueries({ queryKey: ['approved'] });
+    },
+    onError: (err) => {
+      setError(apiErrorMessage(err, 'Unable to save limits'));
+    },
+  });
+
+  return (
+    <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+      <h3 className="text-lg font-semibold">Queue limits</h3>
+      <p className="mt-1 text-xs text-dimGray">
+        Match these to your stream length. When the cap is reached, denied and pending GIFs are dropped before live
+        ones. GIFs in the trash do not count.
+      </p>
+      <div className="mt-3 space-y-2">
+        {FIELDS.map((field) => (
+          <label key={field.key} className="flex items-center justify-between gap-3 text-coolGray">
+            <span>
+              {field.label}
+              <span className="ml-1 text-xs text-dimGray">({field.hint})</span>
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={field.max}
+              value={draft[field.key]}
+              onChange={(event) => setDraft((prev) => ({ ...prev, [field.key]: Number(event.target.value) }))}
+              className="w-20 rounded-btn border border-slate bg-charcoal px-2 py-1 text-right text-white"
+            />
+          </label>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-xs text-coral">{error}</p>}
+      <button
+        type="button"
+        className="mt-4 w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30 disabled:opacity-60"
+        onClick={() => limitsMutation.mutate(draft)}
+        disabled={limitsMutation.isPending}
+      >
+        {limitsMutation.isPending ? 'Saving…' : 'Save limits'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import type { Submission } from '../types';
+
+type SubmissionThumbnailProps = {
+  submission: Submission;
+  /** Loop the downscaled preview instead of showing the still poster frame. */
+  animated?: boolean;
+  className?: string;
+};
+
+/**
+ * Shows the generated poster or preview and only loads the full upload while
+ * hovered. Falls back to the original until previews have been generated.
+ */
+export const SubmissionThumbnail = ({ submission, animated = false, className }: SubmissionThumbnailProps) => {
+  const [hovered, setHovered] = useState(false);
+  const resting = (animated ? submission.previewUrl : null) ?? submission.thumbnailUrl;
+  const src = hovered || !resting ? submission.fileUrl : resting;
+
+  return (
+    <img
+      src={src}
+      alt={submission.fileName}
+      loading="lazy"
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      className={className}
+    />
+  );
+};
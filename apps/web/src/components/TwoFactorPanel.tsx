@@ -0,0 +1,251 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { api, apiErrorMessage } from '../lib/api';
+import type { TwoFactorStatus } from '../types';
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+const inputClassName =
+  'mt-1 w-full rounded-btn border border-slate bg-charcoal p-2 text-white placeholder-dimGray focus:border-violet focus:outline-none';
+
+/** Groups the base32 secret in fours so it can be typed into an app by hand. */
+function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+}
+
+export const TwoFactorPanel = () => {
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  // Only ever shown once, straight after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusQuery = useQuery({
+    queryKey: ['two-factor'],
+    queryFn: async () => {
+      const response = await api.get<{ twoFactor: TwoFactorStatus }>('/settings/two-factor');
+      return response.data.twoFactor;
+    },
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    setError(apiErrorMessage(error, fallback));
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post<TwoFactorSetup>('/settings/two-factor/setup');
+      return response.data;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode('');
+      setError(null);
+    },
+    onError: onError('Failed to start two-factor setup'),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post<{ recoveryCodes: string[]; twoFactor: TwoFactorStatus }>(
+        '/settings/two-factor/confirm',
+        { code },
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['two-factor'], data.twoFactor);
+      setRecoveryCodes(data.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      setError(null);
+    },
+    onError: onError('Failed to confirm the code'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post<{ recoveryCodes: string[]; twoFactor: TwoFactorStatus }>(
+        '/settings/two-factor/recovery-codes',
+        { currentPassword },
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['two-factor'], data.twoFactor);
+      setRecoveryCodes(data.recoveryCodes);
+      setCurrentPassword('');
+      setError(null);
+    },
+    onError: onError('Failed to generate new recovery codes'),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post<{ twoFactor: TwoFactorStatus }>('/settings/two-factor/disable', {
+        currentPassword,
+      });
+      return response.data.twoFactor;
+    },
+    onSuccess: (twoFactor) => {
+      queryClient.setQueryData(['two-factor'], twoFactor);
+      setRecoveryCodes(null);
+      setCurrentPassword('');
+      setError(null);
+    },
+    onError: onError('Failed to turn off two-factor authentication'),
+  });
+
+  const handleConfirm = (event: FormEvent) => {
+    event.preventDefault();
+    confirmMutation.mutate();
+  };
+
+  const status = statusQuery.data;
+
+  return (
+    <div className="rounded-modal bg-graphite border border-slate/30 p-l shadow-medium">
+      <h2 className="text-xl font-semibold mb-2">Two-factor authentication</h2>
+      <p className="text-sm text-coolGray mb-4">
+        Ask for a code from an authenticator app after your password, so a leaked password alone cannot open your
+        dashboard.
+      </p>
+      {error && <p className="mb-4 rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">{error}</p>}
+
+      {recoveryCodes && (
+        <div className="mb-4 rounded-btn border border-emerald/40 bg-emerald/10 p-3 text-sm">
+          <p className="font-semibold">Save your recovery codes</p>
+          <p className="mt-1 text-xs text-coolGray">
+            Each code signs you in once if you lose your authenticator. They will not be shown again.
+          </p>
+          <ul className="mt-3 grid grid-cols-2 gap-1 font-mono">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              className="rounded-btn border border-slate px-3 py-1 text-xs font-semibold text-coolGray hover:border-violet hover:text-white"
+              onClick={() => void navigator.clipboard?.writeText(recoveryCodes.join('\n'))}
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              className="rounded-btn border border-slate px-3 py-1 text-xs font-semibold text-coolGray hover:border-violet hover:text-white"
+              onClick={() => setRecoveryCodes(null)}
+            >
+              I've saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {statusQuery.isLoading && <p className="text-sm text-coolGray">Loading...</p>}
+
+      {status && !status.enabled && !setup && (
+        <button
+          type="button"
+          onClick={() => setupMutation.mutate()}
+          disabled={setupMutation.isPending}
+          className="rounded-btn bg-violet py-2 px-5 font-semibold text-white hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-50"
+        >
+          {setupMutation.isPending ? 'Preparing...' : 'Set up two-factor authentication'}
+        </button>
+      )}
+
+      {status && !status.enabled && setup && (
+        <form className="space-y-4" onSubmit={handleConfirm}>
+          <div className="rounded-btn border border-slate bg-charcoal p-3 text-sm">
+            <p className="text-coolGray">
+              Add GIFstrem to your authenticator app by opening{' '}
+              <a href={setup.otpauthUrl} className="text-violet hover:text-softViolet font-semibold">
+                this setup link
+              </a>{' '}
+              on your phone, or by entering this key:
+            </p>
+            <p className="mt-2 font-mono text-base tracking-wider break-all">{formatSecret(setup.secret)}</p>
+          </div>
+          <label className="block text-sm font-semibold text-coolGray">
+            Code from your app
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className={`${inputClassName} tracking-widest`}
+              placeholder="123456"
+              value={code}
+              onChange={(event) => setCode(event.target.value.replace(/\D/g, '').slice(0, 6))}
+              required
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={confirmMutation.isPending || code.length !== 6}
+              className="rounded-btn bg-violet py-2 px-5 font-semibold text-white hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-50"
+            >
+              {confirmMutation.isPending ? 'Checking...' : 'Turn on'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setSetup(null);
+                setError(null);
+              }}
+              className="rounded-btn border border-slate py-2 px-5 font-semibold text-coolGray hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status?.enabled && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            <span className="font-semibold text-emerald">On</span>
+            {status.enabledAt && (
+              <span className="text-coolGray"> since {new Date(status.enabledAt).toLocaleDateString()}</span>
+            )}
+            <span className="text-coolGray"> · {status.recoveryCodesRemaining} recovery codes left</span>
+          </p>
+          <label className="block text-sm font-semibold text-coolGray">
+            Current password
+            <input
+              type="password"
+              className={inputClassName}
+              value={currentPassword}
+              onChange={(event) => setCurrentPassword(event.target.value)}
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!currentPassword || regenerateMutation.isPending}
+              className="rounded-btn border border-slate py-2 px-5 font-semibold text-coolGray hover:border-violet hover:text-white disabled:opacity-50"
+            >
+              {regenerateMutation.isPending ? 'Generating...' : 'New recovery codes'}
+            </button>
+            <button
+              type="button"
+              onClick={() => disableMutation.mutate()}
+              disabled={!currentPassword || disableMutation.isPending}
+              className="rounded-btn border border-coral/40 py-2 px-5 font-semibold text-white hover:bg-coral/20 active:bg-coral/30 disabled:opacity-50"
+            >
+              {disableMutation.isPending ? 'Turning off...' : 'Turn off'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import axios from 'axios';
-import { clearToken, getToken } from './auth';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { clearToken, getRefreshToken, getToken, setTokens } from './auth';
+import type { AuthTokens } from './auth';
 
 const API_BASE = import.meta.env.VITE_API_URL ?? '';
 
@@ -16,12 +18,69 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+type RetriableConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// A 401 from these means bad credentials, not an expired access token.
+const NO_REFRESH_ROUTES = new Set(['/auth/login', '/auth/login/totp', '/auth/signup', '/auth/logout']);
+
+// Shared so a burst of 401s triggers one refresh instead of racing each other.
+let pendingRefresh: Promise<boolean> | null = null;
+
+async function refreshSession(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return false;
+  }
+  try {
+    // Plain axios so this request skips the interceptors below
+    const response = await axios.post<AuthTokens>(`${API_BASE}/api/auth/refresh`, { refreshToken });
+    setTokens(response.data);
+    return true;
+  } catch {
+    // Another tab may have rotated the token first; use whatever it stored
+    return getRefreshToken() !== refreshToken && getToken() !== null;
+  }
+}
+
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    if (error.response?.status === 401 && config && !config._retried && !NO_REFRESH_ROUTES.has(config.url ?? '')) {
+      config._retried = true;
+      if (!pendingRefresh) {
+        pendingRefresh = refreshSession().finally(() => {
+          pendingRefresh = null;
+        });
+      }
+      if (await pendingRefresh) {
+        return api(config);
+      }
+    }
     if (error.response?.status === 401) {
       clearToken();
     }
     return Promise.reject(error);
   },
 );
+
+/** The server's error message for a failed request, or `fallback` when it sent none. */
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: string }>(error)) {
+    return error.response?.data?.error ?? fallback;
+  }
+  return fallback;
+}
+
+/** Revokes the current session server-side, then forgets the tokens locally either way. */
+export async function signOut() {
+  try {
+    if (getToken()) {
+      await api.post('/auth/logout');
+    }
+  } catch (error) {
+    console.warn('[auth] Failed to revoke session', error);
+  } finally {
+    clearToken();
+  }
+}
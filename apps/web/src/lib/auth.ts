@@ -1,13 +1,25 @@
 const TOKEN_KEY = 'gifstrem/token';
+const REFRESH_TOKEN_KEY = 'gifstrem/refresh-token';
+
+export type AuthTokens = {
+  token: string;
+  refreshToken: string;
+};
 
 export function getToken() {
   return localStorage.getItem(TOKEN_KEY);
 }
 
-export function setToken(token: string) {
-  localStorage.setItem(TOKEN_KEY, token);
+export function getRefreshToken() {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function setTokens(tokens: AuthTokens) {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
 }
 
 export function clearToken() {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
 }
@@ -0,0 +1,25 @@
+import type { DisplayMode, DisplayModeSettings, TickerEdge } from '../types';
+
+export const DISPLAY_MODES: { value: DisplayMode; label: string; description: string }[] = [
+  { value: 'collage', label: 'Collage', description: 'Every approved GIF on screen at once.' },
+  { value: 'spotlight', label: 'Spotlight', description: 'One GIF at a time, large, with who sent it.' },
+  { value: 'ticker', label: 'Ticker', description: 'A strip of GIFs scrolling along an edge.' },
+];
+
+export const TICKER_EDGES: { value: TickerEdge; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'top', label: 'Top' },
+];
+
+/** Mirrors the limits the settings route accepts. */
+export const DISPLAY_MODE_BOUNDS = {
+  secondsPerItem: { min: 3, max: 120 },
+  itemSize: { min: 64, max: 400 },
+  speed: { min: 20, max: 600 },
+} as const;
+
+export const DEFAULT_DISPLAY_MODE: DisplayModeSettings = {
+  mode: 'collage',
+  spotlight: { secondsPerItem: 8, showCaptions: true },
+  ticker: { edge: 'bottom', itemSize: 160, speed: 120 },
+};
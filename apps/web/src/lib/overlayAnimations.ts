@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AnimationEasing, AnimationSettings, AnimationVariant } from '../types';
+
+/**
+ * Enter and exit animations for overlay stickers, played with the Web
+ * Animations API so they compose with each sticker's own rotation. Exits are
+ * the enter keyframes run in reverse.
+ */
+
+export const ANIMATION_VARIANTS: { value: AnimationVariant; label: string }[] = [
+  { value: 'pop', label: 'Pop' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide from edge' },
+  { value: 'drop', label: 'Drop' },
+  { value: 'spin', label: 'Spin' },
+  { value: 'confetti', label: 'Confetti burst' },
+];
+
+export const ANIMATION_EASINGS: { value: AnimationEasing; label: string }[] = [
+  { value: 'spring', label: 'Springy' },
+  { value: 'ease-out', label: 'Smooth' },
+  { value: 'ease-in-out', label: 'Gentle' },
+  { value: 'linear', label: 'Linear' },
+];
+
+export const DEFAULT_ANIMATION: AnimationSettings = { enter: 'pop', exit: 'fade', easing: 'spring', durationMs: 600 };
+
+const EASING_CURVES: Record<AnimationEasing, string> = {
+  spring: 'cubic-bezier(0.34, 1.56, 0.64, 1)',
+  'ease-out': 'cubic-bezier(0.16, 1, 0.3, 1)',
+  'ease-in-out': 'cubic-bezier(0.65, 0, 0.35, 1)',
+  linear: 'linear',
+};
+
+/** Where a sliding sticker comes from, in pixels relative to its resting place. */
+export type SlideOffset = { x: number; y: number };
+
+/** Slide in from whichever canvas edge is closest, starting fully off-canvas. */
+export function slideOffsetFor(
+  rect: { x: number; y: number; size: number },
+  canvas: { width: number; height: number },
+): SlideOffset {
+  const distances = [
+    { offset: { x: -(rect.x + rect.size), y: 0 }, distance: rect.x },
+    { offset: { x: canvas.width - rect.x, y: 0 }, distance: canvas.width - rect.x - rect.size },
+    { offset: { x: 0, y: -(rect.y + rect.size) }, distance: rect.y },
+    { offset: { x: 0, y: canvas.height - rect.y }, distance: canvas.height - rect.y - rect.size },
+  ];
+  return distances.reduce((best, entry) => (entry.distance < best.distance ? entry : best)).offset;
+}
+
+function keyframesFor(variant: AnimationVariant, slide: SlideOffset): Keyframe[] {
+  switch (variant) {
+    case 'fade':
+      return [{ opacity: 0 }, { opacity: 1 }];
+    case 'slide':
+      return [
+        { transform: `translate(${slide.x}px, ${slide.y}px)`, opacity: 0 },
+        { opacity: 1, offset: 0.4 },
+        { transform: 'translate(0, 0)', opacity: 1 },
+      ];
+    case 'drop':
+      return [
+        { transform: 'translateY(-140%)', opacity: 0 },
+        { transform: 'translateY(6%)', opacity: 1, offset: 0.75 },
+        { transform: 'translateY(0)', opacity: 1 },
+      ];
+    case 'spin':
+      return [
+        { transform: 'rotate(-540deg) scale(0)', opacity: 0 },
+        { transform: 'rotate(0deg) scale(1)', opacity: 1 },
+      ];
+    case 'pop':
+    case 'confetti':
+      return [
+        { transform: 'scale(0)', opacity: 0 },
+        { transform: 'scale(1.12)', opacity: 1, offset: 0.7 },
+        { transform: 'scale(1)', opacity: 1 },
+      ];
+  }
+}
+
+/**
+ * Plays the enter or exit animation on `element`. Exits hold their last frame
+ * so the sticker stays hidden until it is unmounted.
+ */
+export function playStickerAnimation(
+  element: HTMLElement,
+  settings: AnimationSettings,
+  phase: 'enter' | 'exit',
+  slide: SlideOffset = { x: -200, y: 0 },
+): Animation | null {
+  if (typeof element.animate !== 'function') {
+    return null;
+  }
+  const variant = phase === 'enter' ? settings.enter : settings.exit;
+  return element.animate(keyframesFor(variant, slide), {
+    duration: settings.durationMs,
+    easing: EASING_CURVES[settings.easing] ?? EASING_CURVES.spring,
+    direction: phase === 'enter' ? 'normal' : 'reverse',
+    fill: phase === 'enter' ? 'backwards' : 'forwards',
+  });
+}
+
+/**
+ * Keeps items that dropped out of `items` around for `exitMs`, flagged as
+ * exiting, so their exit animation can play before they are unmounted.
+ */
+export function useExitingItems<T extends { id: string }>(items: T[], exitMs: number) {
+  const [exiting, setExiting] = useState<Map<string, T>>(() => new Map());
+  const previous = useRef<T[]>(items);
+  const timers = useRef<number[]>([]);
+
+  useEffect(() => {
+    const currentIds = new Set(items.map((item) => item.id));
+    const removed = previous.current.filter((item) => !currentIds.has(item.id));
+    previous.current = items;
+    setExiting((current) => {
+      const next = new Map(current);
+      for (const item of removed) {
+        next.set(item.id, item);
+      }
+      // Anything that came back while leaving is live again
+      for (const id of currentIds) {
+        next.delete(id);
+      }
+      return next.size === current.size && removed.length === 0 ? current : next;
+    });
+    if (removed.length > 0) {
+      timers.current.push(
+        window.setTimeout(() => {
+          setExiting((current) => {
+            const next = new Map(current);
+            for (const item of removed) {
+              next.delete(item.id);
+            }
+            return next;
+          });
+        }, exitMs),
+      );
+    }
+  }, [items, exitMs]);
+
+  useEffect(() => {
+    return () => {
+      for (const timer of timers.current) {
+        window.clearTimeout(timer);
+      }
+    };
+  }, []);
+
+  return [...exiting.values()];
+}
@@ -0,0 +1,87 @@
+import type { CaptionFont, CaptionPosition, CaptionSettings } from '../types';
+
+/**
+ * Caption bubbles crediting whoever sent each GIF. Text is measured by
+ * estimate rather than in the DOM so placement stays a pure calculation.
+ */
+
+export const CAPTION_FONTS: { value: CaptionFont; label: string; stack: string }[] = [
+  {
+    value: 'rounded',
+    label: 'Rounded',
+    stack: 'Nunito, "Varela Round", ui-rounded, "Arial Rounded MT Bold", sans-serif',
+  },
+  { value: 'sans', label: 'Sans', stack: 'Inter, "Helvetica Neue", Arial, sans-serif' },
+  { value: 'serif', label: 'Serif', stack: 'Georgia, "Times New Roman", serif' },
+  { value: 'mono', label: 'Monospace', stack: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+  { value: 'display', label: 'Bold display', stack: 'Impact, Anton, "Arial Black", sans-serif' },
+];
+
+export const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'below', label: 'Below the GIF' },
+  { value: 'above', label: 'Above the GIF' },
+  { value: 'overlay', label: 'On the GIF' },
+];
+
+/** Mirrors the limits the settings route accepts. */
+export const CAPTION_BOUNDS = {
+  fontSize: { min: 12, max: 72 },
+  maxLength: { min: 10, max: 200 },
+} as const;
+
+export const DEFAULT_CAPTIONS: CaptionSettings = {
+  enabled: false,
+  font: 'rounded',
+  fontSize: 24,
+  color: '#ffffff',
+  position: 'below',
+  maxLength: 80,
+};
+
+// Messages are shrunk a little under the name and never run past this many lines
+export const CAPTION_MESSAGE_SCALE = 0.85;
+export const CAPTION_MESSAGE_LINES = 3;
+const CAPTION_LINE_HEIGHT = 1.25;
+// Average glyph width relative to the font size; generous so estimates rarely come up short
+const CAPTION_CHAR_WIDTH = 0.58;
+
+export function captionFontStack(font: CaptionFont) {
+  return (CAPTION_FONTS.find((entry) => entry.value === font) ?? CAPTION_FONTS[0]).stack;
+}
+
+/** Cuts the message to `maxLength` characters, ending on an ellipsis when it had to cut. */
+export function captionMessage(message: string | null | undefined, maxLength: number) {
+  const text = message?.replace(/\s+/g, ' ').trim() ?? '';
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/** Padding inside the bubble, in pixels, for a given font size. */
+export function captionPadding(fontSize: number) {
+  return Math.round(fontSize * 0.45);
+}
+
+/**
+ * Estimated bubble size for a caption under a GIF `itemSize` pixels wide.
+ * Bubbles may be a little wider than the GIF but wrap long messages.
+ */
+export function measureCaption(
+  caption: { name: string; message: string },
+  settings: Pick<CaptionSettings, 'fontSize'>,
+  itemSize: number,
+) {
+  const { fontSize } = settings;
+  const padding = captionPadding(fontSize);
+  const messageSize = fontSize * CAPTION_MESSAGE_SCALE;
+  const maxInner = Math.max(itemSize * 1.4, fontSize * 8) - padding * 2;
+  const nameWidth = caption.name.length * fontSize * CAPTION_CHAR_WIDTH;
+  const messageWidth = caption.message.length * messageSize * CAPTION_CHAR_WIDTH;
+  const inner = Math.min(maxInner, Math.max(nameWidth, messageWidth));
+  const messageLines = caption.message ? Math.min(CAPTION_MESSAGE_LINES, Math.ceil(messageWidth / inner)) : 0;
+  return {
+    width: Math.ceil(inner + padding * 2),
+    height: Math.ceil(padding * 2 + fontSize * CAPTION_LINE_HEIGHT + messageLines * messageSize * CAPTION_LINE_HEIGHT),
+  };
+}
@@ -0,0 +1,115 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import type { Streamer, Submission } from '../types';
+import { api } from './api';
+
+export type OverlayFeed = {
+  version: number;
+  streamer: Streamer;
+  submissions: Submission[];
+};
+
+export type OverlayFeedUnchanged = {
+  version: number;
+  unchanged: true;
+};
+
+export function overlayQueryKey(token: string | null) {
+  return ['overlay', token] as const;
+}
+
+/**
+ * Subscribes to /overlay/stream and applies approve/update/remove/settings events to
+ * the cached overlay feed. Returns whether the stream is currently connected so
+ * the caller can fall back to polling while it is down.
+ */
+export function useOverlayStream(token: string | null) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!token || typeof EventSource === 'undefined') {
+      return;
+    }
+    const queryKey = overlayQueryKey(token);
+    const params = new URLSearchParams({ token });
+    const source = new EventSource(`${api.defaults.baseURL ?? '/api'}/overlay/stream?${params.toString()}`);
+    let isConnected = false;
+
+    const updateFeed = (updater: (feed: OverlayFeed) => OverlayFeed) => {
+      queryClient.setQueryData<OverlayFeed>(queryKey, (feed) => (feed ? updater(feed) : feed));
+    };
+
+    source.addEventListener('ready', (event) => {
+      // Events older than the resume point are not replayed, so resync once, but only when the feed
+      // has moved on from the copy we hold.
+      const ready = parseEventData<{ version: number }>(event);
+      const feed = queryClient.getQueryData<OverlayFeed>(queryKey);
+      if (!isConnected && feed && feed.version !== ready?.version) {
+        void queryClient.invalidateQueries({ queryKey });
+      }
+      isConnected = true;
+      setConnected(true);
+    });
+
+    const upsertSubmission = (event: Event) => {
+      const submission = parseEventData<Submission>(event);
+      if (!submission) return;
+      updateFeed((feed) => ({
+        ...feed,
+        submissions: [...feed.submissions.filter((entry) => entry.id !== submission.id), submission].sort((a, b) =>
+          (a.approvedAt ?? '').localeCompare(b.approvedAt ?? ''),
+        ),
+      }));
+    };
+
+    source.addEventListener('submission.approved', upsertSubmission);
+    // Layout changes from the dashboard editor
+    source.addEventListener('submission.updated', upsertSubmission);
+
+    source.addEventListener('submission.removed', (event) => {
+      const payload = parseEventData<{ ids: string[] }>(event);
+      if (!payload) return;
+      const removed = new Set(payload.ids);
+      updateFeed((feed) => ({
+        ...feed,
+        submissions: feed.submissions.filter((entry) => !removed.has(entry.id)),
+      }));
+    });
+
+    source.addEventListener('streamer.updated', (event) => {
+      const streamer = parseEventData<Streamer>(event);
+      if (!streamer) return;
+      updateFeed((feed) => ({ ...feed, streamer }));
+    });
+
+    source.addEventListener('overlay.revoked', () => {
+      source.close();
+      isConnected = false;
+      setConnected(false);
+      void queryClient.invalidateQueries({ queryKey });
+    });
+
+    source.onerror = () => {
+      // EventSource retries on its own; poll in the meantime.
+      isConnected = false;
+      setConnected(false);
+    };
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [queryClient, token]);
+
+  return connected;
+}
+
+function parseEventData<T>(event: Event): T | null {
+  try {
+    return JSON.parse((event as MessageEvent<string>).data) as T;
+  } catch (error) {
+    console.warn('[overlay] Ignoring malformed stream event', error);
+    return null;
+  }
+}
@@ -1,7 +1,10 @@
-import { FormEvent, useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { api } from '../lib/api';
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { SessionsPanel } from '../components/SessionsPanel';
+import { TwoFactorPanel } from '../components/TwoFactorPanel';
+import { api, apiErrorMessage, signOut } from '../lib/api';
 import { clearToken } from '../lib/auth';
 import { sanitizeDisplayName, sanitizeSlug, sanitizeText, validateInput } from '../lib/sanitize';
 import type { Streamer } from '../types';
@@ -21,7 +24,7 @@ const AccountSettingsPage = () => {
   const [profileError, setProfileError] = useState<string | null>(null);
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [profileSuccess, setProfileSuccess] = useState(false);
-  const [passwordSuccess, setPasswordSuccess] = useState(false);
+  const [passwordSuccess, setPasswordSuccess] = useState<string | null>(null);
 
   const { data: userData, isLoading } = useQuery({
     queryKey: ['me'],
@@ -52,24 +55,29 @@ const AccountSettingsPage = () => {
       setProfileError(null);
       setTimeout(() => setProfileSuccess(false), 3000);
     },
-    onError: (error: any) => {
-      const message = error.response?.data?.error ?? 'Failed to update profile';
+    onError: (error) => {
+      const message = apiErrorMessage(error, 'Failed to update profile');
       setProfileError(message);
     },
   });
 
   const passwordMutation = useMutation({
     mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
-      await api.put('/settings/password', data);
+      const response = await api.put<{ revokedSessions: number }>('/settings/password', data);
+      return response.data.revokedSessions;
     },
-    onSuccess: () => {
-      setPasswordSuccess(true);
+    onSuccess: (revokedSessions) => {
+      setPasswordSuccess(
+        revokedSessions > 0
+          ? `Password updated. Signed out ${revokedSessions} other session${revokedSessions === 1 ? '' : 's'}.`
+          : 'Password updated successfully!',
+      );
       setPasswordError(null);
       setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
-      setTimeout(() => setPasswordSuccess(false), 3000);
+      setTimeout(() => setPasswordSuccess(null), 3000);
     },
-    onError: (error: any) => {
-      const message = error.response?.data?.error ?? 'Failed to update password';
+    onError: (error) => {
+      const message = apiErrorMessage(error, 'Failed to update password');
       setPasswordError(message);
     },
   });
@@ -100,8 +108,8 @@ const AccountSettingsPage = () => {
     });
   };
 
-  const handleLogout = () => {
-    clearToken();
+  const handleLogout = async () => {
+    await signOut();
     navigate('/auth/login');
   };
 
@@ -140,9 +148,7 @@ const AccountSettingsPage = () => {
             <h2 className="text-xl font-semibold mb-4">Profile Information</h2>
             <form onSubmit={handleProfileSubmit} className="space-y-m">
               {profileError && (
-                <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">
-                  {profileError}
-                </p>
+                <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">{profileError}</p>
               )}
               {profileSuccess && (
                 <p className="rounded-btn bg-green-500/20 border border-green-500/40 p-2 text-sm text-white">
@@ -192,13 +198,9 @@ const AccountSettingsPage = () => {
                 />
                 <div className="mt-2 rounded-btn bg-charcoal border border-slate/30 p-2">
                   <p className="text-xs text-dimGray mb-1">Your submission link will be:</p>
-                  <p className="text-sm font-mono text-violet">
-                    gifstrem.com/{profileForm.slug || 'your-slug'}
-                  </p>
+                  <p className="text-sm font-mono text-violet">gifstrem.com/{profileForm.slug || 'your-slug'}</p>
                 </div>
-                <span className="text-xs text-dimGray mt-1 block">
-                  This is used for login and your submission link
-                </span>
+                <span className="text-xs text-dimGray mt-1 block">This is used for login and your submission link</span>
               </label>
               <button
                 type="submit"
@@ -215,13 +217,11 @@ const AccountSettingsPage = () => {
             <h2 className="text-xl font-semibold mb-4">Change Password</h2>
             <form onSubmit={handlePasswordSubmit} className="space-y-m">
               {passwordError && (
-                <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">
-                  {passwordError}
-                </p>
+                <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">{passwordError}</p>
               )}
               {passwordSuccess && (
                 <p className="rounded-btn bg-green-500/20 border border-green-500/40 p-2 text-sm text-white">
-                  Password updated successfully!
+                  {passwordSuccess}
                 </p>
               )}
               <label className="block text-sm font-semibold text-coolGray">
@@ -279,12 +279,18 @@ const AccountSettingsPage = () => {
             </form>
           </div>
 
+          <TwoFactorPanel />
+
+          <SessionsPanel
+            onSignedOut={() => {
+              clearToken();
+              navigate('/auth/login');
+            }}
+          />
+
           {/* Navigation */}
           <div className="pt-4">
-            <Link
-              to="/dashboard"
-              className="inline-flex items-center text-violet hover:text-softViolet font-semibold"
-            >
+            <Link to="/dashboard" className="inline-flex items-center text-violet hover:text-softViolet font-semibold">
               ← Back to Dashboard
             </Link>
           </div>
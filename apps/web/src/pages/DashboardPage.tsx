@@ -1,11 +1,22 @@
-import { useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { api } from '../lib/api';
-import { scaleSafeZones } from '../lib/safeZones';
-import type { SafeZone, Streamer, Submission } from '../types';
-import { clearToken } from '../lib/auth';
+import { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import { AnimationSettingsPanel } from '../components/AnimationSettingsPanel';
+import { AuditLogPanel } from '../components/AuditLogPanel';
+import { BlocklistPanel } from '../components/BlocklistPanel';
+import { CaptionSettingsPanel } from '../components/CaptionSettingsPanel';
+import { DisplayModePanel } from '../components/DisplayModePanel';
+import { LayoutEditor } from '../components/LayoutEditor';
+import { MediaPolicyPanel } from '../components/MediaPolicyPanel';
+import { MembersPanel } from '../components/MembersPanel';
+import { RateLimitsPanel } from '../components/RateLimitsPanel';
+import { RecentlyRemovedPanel } from '../components/RecentlyRemovedPanel';
 import { SafeZoneEditor } from '../components/SafeZoneEditor';
+import { SubmissionLimitsPanel } from '../components/SubmissionLimitsPanel';
+import { SubmissionThumbnail } from '../components/SubmissionThumbnail';
+import { api, apiErrorMessage, signOut } from '../lib/api';
+import { scaleSafeZones } from '../lib/safeZones';
+import type { MemberPermission, Membership, OverlayStageSettings, SafeZone, Streamer, Submission } from '../types';
 
 const RESOLUTION_SPECS = {
   '720p': { width: 1280, height: 720 },
@@ -39,6 +50,9 @@ const DashboardPage = () => {
   const [showOverlayUrl, setShowOverlayUrl] = useState(false);
   const [copiedSubmission, setCopiedSubmission] = useState(false);
   const [copiedOverlay, setCopiedOverlay] = useState(false);
+  const [selectedStreamerId, setSelectedStreamerId] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
 
   const { data: userData } = useQuery({
     queryKey: ['me'],
@@ -74,22 +88,61 @@ const DashboardPage = () => {
     }
   }, [userData?.settings?.preferredResolution, userData?.settings?.customResolution]);
 
+  const membershipsQuery = useQuery({
+    queryKey: ['memberships'],
+    queryFn: async () => {
+      const response = await api.get<{ memberships: Membership[] }>('/memberships');
+      return response.data.memberships;
+    },
+    enabled: Boolean(userData),
+  });
+
+  const memberships = membershipsQuery.data ?? [];
+  const isModeratorAccount = userData?.role === 'moderator';
+  const activeStreamerId =
+    selectedStreamerId ?? (isModeratorAccount ? memberships[0]?.streamer.id : userData?.id) ?? null;
+  const isOwnChannel = Boolean(userData) && activeStreamerId === userData?.id;
+  const activeMembership = memberships.find((membership) => membership.streamer.id === activeStreamerId);
+  const canModerate = (permission: MemberPermission) =>
+    isOwnChannel || Boolean(activeMembership?.permissions.includes(permission));
+
   const pendingQuery = useQuery({
-    queryKey: ['pending'],
+    queryKey: ['pending', activeStreamerId],
     queryFn: async () => {
-      const response = await api.get<{ submissions: Submission[] }>('/submissions/pending');
+      const response = await api.get<{ submissions: Submission[] }>('/submissions/pending', {
+        params: { streamerId: activeStreamerId },
+      });
       return response.data.submissions;
     },
-    enabled: Boolean(userData),
+    enabled: Boolean(userData && activeStreamerId && canModerate('view')),
   });
 
   const approvedQuery = useQuery({
-    queryKey: ['approved'],
+    queryKey: ['approved', activeStreamerId],
     queryFn: async () => {
-      const response = await api.get<{ submissions: Submission[] }>('/submissions/approved');
-      return response.data.submissions;
+      const response = await api.get<{ submissions: Submission[]; stage: OverlayStageSettings }>(
+        '/submissions/approved',
+        { params: { streamerId: activeStreamerId } },
+      );
+      return response.data;
+    },
+    enabled: Boolean(userData && activeStreamerId && canModerate('view')),
+  });
+
+  const acceptInviteMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await api.post<{ membership: Membership }>('/memberships/accept', { inviteCode: code });
+      return response.data.membership;
+    },
+    onSuccess: (membership) => {
+      setInviteCode('');
+      setInviteError(null);
+      setSelectedStreamerId(membership.streamer.id);
+      void queryClient.invalidateQueries({ queryKey: ['memberships'] });
+    },
+    onError: (error) => {
+      setInviteError(apiErrorMessage(error, 'Unable to accept invite'));
     },
-    enabled: Boolean(userData),
   });
 
   const [zones, setZones] = useState<SafeZone[]>(() => [createDefaultZone(RESOLUTION_SPECS['1080p'])]);
@@ -106,11 +159,7 @@ const DashboardPage = () => {
     const key = settings?.safeZones?.[activeResolution];
     const legacyZone = key ? (key as { zone?: SafeZone }).zone : undefined;
     const keyZones =
-      key && Array.isArray(key.zones) && key.zones.length > 0
-        ? key.zones
-        : legacyZone
-          ? [legacyZone]
-          : null;
+      key && Array.isArray(key.zones) && key.zones.length > 0 ? key.zones : legacyZone ? [legacyZone] : null;
     if (key && keyZones) {
       const scaledZones = scaleSafeZones(keyZones, key.size ?? currentResolutionSpec, currentResolutionSpec);
       setZones(scaledZones);
@@ -132,6 +181,19 @@ const DashboardPage = () => {
     onSuccess: () => {
       void queryClient.invalidateQueries({ queryKey: ['pending'] });
       void queryClient.invalidateQueries({ queryKey: ['approved'] });
+      void queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+
+  const blockUploaderMutation = useMutation({
+    mutationFn: async (submission: Submission) => {
+      await api.post('/settings/blocklist', { kind: 'name', value: submission.uploaderName });
+      await api.post(`/submissions/${submission.id}/review`, { action: 'deny' });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['blocklist'] });
+      void queryClient.invalidateQueries({ queryKey: ['pending'] });
+      void queryClient.invalidateQueries({ queryKey: ['trash'] });
     },
   });
 
@@ -247,9 +309,10 @@ const DashboardPage = () => {
               Settings
             </Link> */}
             <button
+              type="button"
               className="text-violet hover:text-softViolet font-semibold"
-              onClick={() => {
-                clearToken();
+              onClick={async () => {
+                await signOut();
                 navigate('/auth/login');
               }}
             >
@@ -262,15 +325,78 @@ const DashboardPage = () => {
       {/* Mobile note */}
       <div className="md:hidden mx-4 mt-4 rounded-btn bg-violet/10 border border-violet/30 p-3 text-sm">
         <p className="text-coolGray">
-          💡 <span className="font-semibold text-white">Mobile Mode:</span> Approve or deny submissions on the go. 
-          For safe zone settings and more options, visit the desktop dashboard.
+          💡 <span className="font-semibold text-white">Mobile Mode:</span> Approve or deny submissions on the go. For
+          safe zone settings and more options, visit the desktop dashboard.
         </p>
       </div>
 
       <section className="mx-auto px-4 py-6 md:px-6 md:py-10 max-w-7xl">
+        {/* Channel switcher for moderators */}
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-3 text-xs">
+          <div className="flex flex-wrap gap-2">
+            {!isModeratorAccount && (
+              <button
+                type="button"
+                onClick={() => setSelectedStreamerId(userData.id)}
+                className={`rounded-btn px-3 py-1 font-semibold ${
+                  isOwnChannel
+                    ? 'bg-violet text-white'
+                    : 'bg-charcoal border border-slate text-coolGray hover:border-violet'
+                }`}
+              >
+                My channel
+              </button>
+            )}
+            {memberships.map((membership) => (
+              <button
+                type="button"
+                key={membership.id}
+                onClick={() => setSelectedStreamerId(membership.streamer.id)}
+                className={`rounded-btn px-3 py-1 font-semibold ${
+                  activeStreamerId === membership.streamer.id
+                    ? 'bg-violet text-white'
+                    : 'bg-charcoal border border-slate text-coolGray hover:border-violet'
+                }`}
+              >
+                {membership.streamer.displayName ?? membership.streamer.slug}
+              </button>
+            ))}
+          </div>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (inviteCode.trim()) {
+                acceptInviteMutation.mutate(inviteCode.trim());
+              }
+            }}
+          >
+            {inviteError && <span className="text-coral">{inviteError}</span>}
+            <input
+              type="text"
+              value={inviteCode}
+              onChange={(event) => setInviteCode(event.target.value.replace(/[^a-fA-F0-9]/g, '').toLowerCase())}
+              placeholder="Invite code"
+              className="w-40 rounded-btn border border-slate bg-graphite px-2 py-1 text-white placeholder-dimGray focus:border-violet focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={acceptInviteMutation.isPending}
+              className="rounded-btn border border-slate px-3 py-1 font-semibold text-coolGray hover:border-violet hover:text-white disabled:opacity-50"
+            >
+              Join channel
+            </button>
+          </form>
+        </div>
+        {isModeratorAccount && memberships.length === 0 && !membershipsQuery.isLoading && (
+          <p className="mb-6 rounded-btn border border-cyan/40 bg-cyan/10 p-4 text-sm text-coolGray">
+            You don&apos;t moderate any channels yet. Ask a streamer for an invite code and enter it above.
+          </p>
+        )}
         <div className="grid gap-6 lg:grid-cols-[1fr_420px]">
           {/* Main content - visible on all devices */}
-          <div className="space-y-6 min-w-0">{/* Pending submissions */}
+          <div className="space-y-6 min-w-0">
+            {/* Pending submissions */}
             <div className="rounded-card border border-slate/30 bg-graphite p-4 md:p-l shadow-low">
               <h2 className="text-lg font-semibold">Pending submissions</h2>
               {pendingQuery.isLoading && <p className="mt-4 text-sm text-coolGray">Loading queue...</p>}
@@ -278,33 +404,57 @@ const DashboardPage = () => {
                 {(pendingQuery.data ?? []).map((submission) => (
                   <div key={submission.id} className="rounded-card border border-slate/30 bg-charcoal p-3 md:p-m">
                     <div className="flex flex-col gap-3">
-                      <img
-                        src={submission.fileUrl}
-                        alt={submission.fileName}
-                        loading="lazy"
+                      <SubmissionThumbnail
+                        submission={submission}
                         className="aspect-video w-full rounded-btn object-cover object-center"
                       />
                       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
                         <div className="min-w-0">
-                          <p className="font-semibold truncate">{submission.uploaderName}</p>
+                          <div className="flex items-center gap-2 min-w-0">
+                            <p className="font-semibold truncate">{submission.uploaderName}</p>
+                            {(submission.duplicateCount ?? 0) > 0 && (
+                              <span
+                                className="shrink-0 rounded-full border border-cyan/40 bg-cyan/10 px-2 text-xs text-cyan"
+                                title="Matching resubmissions were merged into this one"
+                              >
+                                +{submission.duplicateCount} duplicate{submission.duplicateCount === 1 ? '' : 's'}
+                              </span>
+                            )}
+                          </div>
                           <p className="text-xs text-dimGray">
-                            {new Date(submission.createdAt).toLocaleString()} · {(submission.fileSize / (1024 * 1024)).toFixed(2)} MB
+                            {new Date(submission.createdAt).toLocaleString()} ·{' '}
+                            {(submission.fileSize / (1024 * 1024)).toFixed(2)} MB
                           </p>
                         </div>
-                        <div className="flex gap-2 shrink-0">
-                          <button
-                            className="flex-1 sm:flex-initial rounded-btn border border-coral/40 px-4 py-2 text-sm font-semibold text-white hover:bg-coral/20 active:bg-coral/30"
-                            onClick={() => reviewMutation.mutate({ id: submission.id, action: 'deny' })}
-                          >
-                            Deny
-                          </button>
-                          <button
-                            className="flex-1 sm:flex-initial rounded-btn border border-emerald/40 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald/20 active:bg-emerald/30"
-                            onClick={() => reviewMutation.mutate({ id: submission.id, action: 'approve' })}
-                          >
-                            Approve
-                          </button>
-                        </div>
+                        {canModerate('review') && (
+                          <div className="flex gap-2 shrink-0">
+                            {isOwnChannel && (
+                              <button
+                                type="button"
+                                className="flex-1 sm:flex-initial rounded-btn border border-slate px-4 py-2 text-sm font-semibold text-coolGray hover:border-coral hover:text-white disabled:opacity-60"
+                                title={`Block ${submission.uploaderName} and deny this submission`}
+                                onClick={() => blockUploaderMutation.mutate(submission)}
+                                disabled={blockUploaderMutation.isPending}
+                              >
+                                Block
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              className="flex-1 sm:flex-initial rounded-btn border border-coral/40 px-4 py-2 text-sm font-semibold text-white hover:bg-coral/20 active:bg-coral/30"
+                              onClick={() => reviewMutation.mutate({ id: submission.id, action: 'deny' })}
+                            >
+                              Deny
+                            </button>
+                            <button
+                              type="button"
+                              className="flex-1 sm:flex-initial rounded-btn border border-emerald/40 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald/20 active:bg-emerald/30"
+                              onClick={() => reviewMutation.mutate({ id: submission.id, action: 'approve' })}
+                            >
+                              Approve
+                            </button>
+                          </div>
+                        )}
                       </div>
                       {submission.message && <p className="text-sm text-coolGray">"{submission.message}"</p>}
                     </div>
@@ -320,13 +470,12 @@ const DashboardPage = () => {
             <div className="rounded-card border border-slate/30 bg-graphite p-4 md:p-l shadow-low">
               <h2 className="text-lg font-semibold">Approved & live</h2>
               <div className="mt-4 grid gap-3 sm:grid-cols-2">
-                {(approvedQuery.data ?? []).map((submission) => (
+                {(approvedQuery.data?.submissions ?? []).map((submission) => (
                   <div key={submission.id} className="rounded-card border border-slate/30 bg-charcoal p-3 text-sm">
                     <div className="flex flex-col gap-3">
-                      <img
-                        src={submission.fileUrl}
-                        alt={submission.fileName}
-                        loading="lazy"
+                      <SubmissionThumbnail
+                        submission={submission}
+                        animated
                         className="aspect-video w-full rounded-btn object-cover object-center"
                       />
                       <div className="flex items-center justify-between gap-3">
@@ -336,290 +485,370 @@ const DashboardPage = () => {
                             Expires {new Date(submission.expiresAt).toLocaleTimeString()}
                           </p>
                         </div>
-                        <button
-                          className="rounded-btn border border-cyan/40 px-3 py-1 text-xs font-semibold text-white hover:bg-cyan/20 active:bg-cyan/30 shrink-0"
-                          onClick={() => reviewMutation.mutate({ id: submission.id, action: 'deny' })}
-                        >
-                          Remove
-                        </button>
+                        {canModerate('review') && (
+                          <button
+                            type="button"
+                            className="rounded-btn border border-cyan/40 px-3 py-1 text-xs font-semibold text-white hover:bg-cyan/20 active:bg-cyan/30 shrink-0"
+                            onClick={() => reviewMutation.mutate({ id: submission.id, action: 'deny' })}
+                          >
+                            Remove
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
                 ))}
-                {(approvedQuery.data ?? []).length === 0 && (
+                {(approvedQuery.data?.submissions ?? []).length === 0 && (
                   <p className="text-sm text-dimGray">No active submissions yet.</p>
                 )}
               </div>
             </div>
-          </div>
 
-          {/* Sidebar - hidden on mobile, visible on desktop */}
-          <div className="hidden lg:block space-y-6 w-full">{/* Safe zone settings */}
-            <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <h3 className="text-lg font-semibold">Safe zone</h3>
-                  <label className="flex items-center gap-2 text-xs text-coolGray cursor-pointer" title="Enforce safe zone boundaries">
-                    <input
-                      type="checkbox"
-                      checked={safeZoneEnabled}
-                      onChange={(event) => setSafeZoneEnabled(event.target.checked)}
-                      className="h-4 w-4 rounded border border-slate bg-charcoal accent-violet cursor-pointer"
-                    />
-                    Enforce
-                  </label>
-                </div>
-                <div className="flex items-center gap-3">
-                  <button
-                    onClick={() => {
-                      const newValue = !showSafeZoneOverlay;
-                      setShowSafeZoneOverlay(newValue);
-                      toggleSafeZoneMutation.mutate(newValue);
-                    }}
-                    className="rounded-btn border border-slate p-2 hover:border-violet hover:bg-slate/30"
-                    title={showSafeZoneOverlay ? "Hide safe zone overlay on stream" : "Show safe zone overlay on stream"}
-                  >
-                    {showSafeZoneOverlay ? (
-                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                      </svg>
-                    ) : (
-                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                      </svg>
-                    )}
-                  </button>
-                  <label className="flex items-center gap-2 text-xs text-coolGray cursor-pointer" title="Randomly rotate new GIFs">
-                    <input
-                      type="checkbox"
-                      checked={rotationEnabled}
-                      onChange={(event) => {
-                        const next = event.target.checked;
-                        setRotationEnabled(next);
-                        toggleRotationMutation.mutate(next);
-                      }}
-                      className="h-4 w-4 rounded border border-slate bg-charcoal accent-violet cursor-pointer"
-                    />
-                    Rotate GIFs
-                  </label>
-                </div>
+            {activeStreamerId && approvedQuery.data && approvedQuery.data.submissions.length > 0 && (
+              <div className="rounded-card border border-slate/30 bg-graphite p-4 md:p-l shadow-low">
+                <h2 className="text-lg font-semibold">Overlay layout</h2>
+                <p className="mt-1 mb-4 text-sm text-coolGray">
+                  Arrange live GIFs by hand. Anything you leave alone is placed automatically around them.
+                </p>
+                <LayoutEditor
+                  streamerId={activeStreamerId}
+                  submissions={approvedQuery.data.submissions}
+                  stage={approvedQuery.data.stage}
+                  canEdit={canModerate('review')}
+                />
               </div>
-              <div className="mt-3 flex flex-wrap gap-2 text-xs">
-                {RESOLUTION_OPTIONS.map((resolution) => (
-                  <button
-                    key={resolution}
-                    onClick={() => {
-                      setActiveResolution(resolution);
-                      resolutionMutation.mutate({
-                        resolution,
-                        customSize: resolution === 'custom' ? customResolution : undefined,
-                      });
-                    }}
-                    className={`rounded-btn px-3 py-1 font-semibold ${
-                      activeResolution === resolution
-                        ? 'bg-violet text-white'
-                        : 'bg-charcoal border border-slate text-coolGray hover:border-violet'
-                    }`}
-                  >
-                    {resolution === 'custom' ? 'Custom' : resolution}
-                  </button>
-                ))}
-              </div>
-              {activeResolution === 'custom' && (
-                <div className="mt-3 space-y-3 rounded-card border border-slate bg-charcoal p-3 text-xs">
-                  <div className="grid grid-cols-2 gap-2">
-                    <label className="flex flex-col gap-1">
-                      Width (px)
+            )}
+
+            {activeStreamerId && canModerate('view') && (
+              <RecentlyRemovedPanel
+                streamerId={activeStreamerId}
+                canRestore={(submission) => canModerate(submission.status === 'denied' ? 'review' : 'delete')}
+                retentionMinutes={isOwnChannel ? userData?.settings?.trashRetentionMinutes ?? 30 : undefined}
+              />
+            )}
+          </div>
+
+          {/* Sidebar - hidden on mobile, visible on desktop; settings stay with the channel owner */}
+          {isOwnChannel && (
+            <div className="hidden lg:block space-y-6 w-full">
+              {/* Safe zone settings */}
+              <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <h3 className="text-lg font-semibold">Safe zone</h3>
+                    <label
+                      className="flex items-center gap-2 text-xs text-coolGray cursor-pointer"
+                      title="Enforce safe zone boundaries"
+                    >
                       <input
-                        type="number"
-                        min={640}
-                        className="rounded-btn border border-slate bg-graphite px-2 py-1 text-white focus:border-violet focus:outline-none"
-                        value={customResolution.width}
-                        onChange={(event) =>
-                          setCustomResolution((prev) => ({
-                            ...prev,
-                            width: Number(event.target.value) || prev.width,
-                          }))
-                        }
+                        type="checkbox"
+                        checked={safeZoneEnabled}
+                        onChange={(event) => setSafeZoneEnabled(event.target.checked)}
+                        className="h-4 w-4 rounded border border-slate bg-charcoal accent-violet cursor-pointer"
                       />
+                      Enforce
                     </label>
-                    <label className="flex flex-col gap-1">
-                      Height (px)
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        const newValue = !showSafeZoneOverlay;
+                        setShowSafeZoneOverlay(newValue);
+                        toggleSafeZoneMutation.mutate(newValue);
+                      }}
+                      className="rounded-btn border border-slate p-2 hover:border-violet hover:bg-slate/30"
+                      title={
+                        showSafeZoneOverlay ? 'Hide safe zone overlay on stream' : 'Show safe zone overlay on stream'
+                      }
+                    >
+                      {showSafeZoneOverlay ? (
+                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                          />
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                          />
+                        </svg>
+                      ) : (
+                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+                          />
+                        </svg>
+                      )}
+                    </button>
+                    <label
+                      className="flex items-center gap-2 text-xs text-coolGray cursor-pointer"
+                      title="Randomly rotate new GIFs"
+                    >
                       <input
-                        type="number"
-                        min={360}
-                        className="rounded-btn border border-slate bg-graphite px-2 py-1 text-white focus:border-violet focus:outline-none"
-                        value={customResolution.height}
-                        onChange={(event) =>
-                          setCustomResolution((prev) => ({
-                            ...prev,
-                            height: Number(event.target.value) || prev.height,
-                          }))
-                        }
+                        type="checkbox"
+                        checked={rotationEnabled}
+                        onChange={(event) => {
+                          const next = event.target.checked;
+                          setRotationEnabled(next);
+                          toggleRotationMutation.mutate(next);
+                        }}
+                        className="h-4 w-4 rounded border border-slate bg-charcoal accent-violet cursor-pointer"
                       />
+                      Rotate GIFs
                     </label>
                   </div>
-                  <button
-                    className="w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30"
-                    onClick={() =>
-                      resolutionMutation.mutate({
-                        resolution: 'custom',
-                        customSize: customResolution,
-                      })
-                    }
-                    disabled={resolutionMutation.isPending}
-                  >
-                    {resolutionMutation.isPending ? 'Saving…' : 'Save custom resolution'}
-                  </button>
                 </div>
-              )}
-              <div className="mt-4 space-y-3">
-                <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
-                  <div className="flex flex-wrap gap-2">
-                    {zones.map((_, index) => {
-                      const isActive = index === activeZoneIndex;
-                      return (
-                        <div
-                          key={`zone-chip-${index}`}
-                          className={`flex items-center gap-1 rounded-btn border px-2 py-1 ${
-                            isActive ? 'border-violet bg-violet/10 text-white' : 'border-slate text-coolGray'
-                          }`}
-                        >
-                          <button
-                            type="button"
-                            onClick={() => setActiveZoneIndex(index)}
-                            className="font-semibold"
-                          >
-                            Zone {index + 1}
-                          </button>
-                          {zones.length > 1 && (
-                            <button
-                              type="button"
-                              className="ml-1 text-xs text-dimGray hover:text-coral"
-                              aria-label={`Remove zone ${index + 1}`}
-                              onClick={() => handleRemoveZone(index)}
-                            >
-                              ×
-                            </button>
-                          )}
-                        </div>
-                      );
-                    })}
-                  </div>
-                  {zones.length < MAX_SAFE_ZONES && (
+                <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                  {RESOLUTION_OPTIONS.map((resolution) => (
                     <button
                       type="button"
-                      onClick={handleAddZone}
-                      disabled={!safeZoneEnabled}
-                      className="rounded-btn border border-dashed border-slate px-3 py-1 font-semibold text-coolGray hover:border-violet hover:text-white disabled:opacity-50"
+                      key={resolution}
+                      onClick={() => {
+                        setActiveResolution(resolution);
+                        resolutionMutation.mutate({
+                          resolution,
+                          customSize: resolution === 'custom' ? customResolution : undefined,
+                        });
+                      }}
+                      className={`rounded-btn px-3 py-1 font-semibold ${
+                        activeResolution === resolution
+                          ? 'bg-violet text-white'
+                          : 'bg-charcoal border border-slate text-coolGray hover:border-violet'
+                      }`}
                     >
-                      + Add zone
+                      {resolution === 'custom' ? 'Custom' : resolution}
                     </button>
-                  )}
+                  ))}
                 </div>
-                {safeZoneEnabled ? (
-                  <SafeZoneEditor
-                    resolution={currentResolutionSpec}
-                    zones={zones}
-                    activeIndex={activeZoneIndex}
-                    onZoneChange={handleZoneChange}
-                    onSelectZone={setActiveZoneIndex}
-                  />
-                ) : (
-                  <p className="rounded-btn border border-cyan/40 bg-cyan/10 p-4 text-sm text-coolGray">
-                    Safe zone is disabled for this resolution. Enable it above if you want to edit the protected area.
-                  </p>
-                )}
-              </div>
-              <p className="mt-2 text-xs text-dimGray">
-                Drag the highlighted boxes to keep your drawing area clear. Corner handles resize each safe zone, and you
-                can add multiple boxes to protect different parts of your overlay.
-              </p>
-              <button
-                className="mt-4 w-full rounded-btn bg-violet py-[10px] text-sm font-semibold hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-60"
-                onClick={() => safeZoneMutation.mutate()}
-                disabled={safeZoneMutation.isPending}
-              >
-                {safeZoneMutation.isPending ? 'Saving…' : 'Save safe zones'}
-              </button>
-            </div>
-
-            {/* Links section */}
-            <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
-              <h3 className="text-lg font-semibold">Links</h3>
-              <div className="mt-2">
-                <p className="text-coolGray">Submission URL</p>
-                <div className="mt-1 flex gap-2">
-                  <code className="flex-1 truncate rounded-btn bg-charcoal border border-slate p-2 text-xs">{submissionUrl}</code>
-                  <button
-                    className="rounded-btn border border-slate px-2 py-2 hover:border-violet hover:bg-slate/30"
-                    title="Copy submission URL"
-                    onClick={async () => {
-                      try {
-                        await navigator.clipboard.writeText(submissionUrl);
-                        setCopiedSubmission(true);
-                        setTimeout(() => setCopiedSubmission(false), 2000);
-                      } catch (error) {
-                        console.error('Clipboard error', error);
+                {activeResolution === 'custom' && (
+                  <div className="mt-3 space-y-3 rounded-card border border-slate bg-charcoal p-3 text-xs">
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="flex flex-col gap-1">
+                        Width (px)
+                        <input
+                          type="number"
+                          min={640}
+                          className="rounded-btn border border-slate bg-graphite px-2 py-1 text-white focus:border-violet focus:outline-none"
+                          value={customResolution.width}
+                          onChange={(event) =>
+                            setCustomResolution((prev) => ({
+                              ...prev,
+                              width: Number(event.target.value) || prev.width,
+                            }))
+                          }
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        Height (px)
+                        <input
+                          type="number"
+                          min={360}
+                          className="rounded-btn border border-slate bg-graphite px-2 py-1 text-white focus:border-violet focus:outline-none"
+                          value={customResolution.height}
+                          onChange={(event) =>
+                            setCustomResolution((prev) => ({
+                              ...prev,
+                              height: Number(event.target.value) || prev.height,
+                            }))
+                          }
+                        />
+                      </label>
+                    </div>
+                    <button
+                      type="button"
+                      className="w-full rounded-btn border border-slate py-1 font-semibold hover:border-violet hover:bg-slate/30"
+                      onClick={() =>
+                        resolutionMutation.mutate({
+                          resolution: 'custom',
+                          customSize: customResolution,
+                        })
                       }
-                    }}
-                  >
-                    {copiedSubmission ? (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                    ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
+                      disabled={resolutionMutation.isPending}
+                    >
+                      {resolutionMutation.isPending ? 'Saving…' : 'Save custom resolution'}
+                    </button>
+                  </div>
+                )}
+                <div className="mt-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                    <div className="flex flex-wrap gap-2">
+                      {zones.map((_, index) => {
+                        const isActive = index === activeZoneIndex;
+                        return (
+                          <div
+                            key={`zone-chip-${index}`}
+                            className={`flex items-center gap-1 rounded-btn border px-2 py-1 ${
+                              isActive ? 'border-violet bg-violet/10 text-white' : 'border-slate text-coolGray'
+                            }`}
+                          >
+                            <button type="button" onClick={() => setActiveZoneIndex(index)} className="font-semibold">
+                              Zone {index + 1}
+                            </button>
+                            {zones.length > 1 && (
+                              <button
+                                type="button"
+                                className="ml-1 text-xs text-dimGray hover:text-coral"
+                                aria-label={`Remove zone ${index + 1}`}
+                                onClick={() => handleRemoveZone(index)}
+                              >
+                                ×
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {zones.length < MAX_SAFE_ZONES && (
+                      <button
+                        type="button"
+                        onClick={handleAddZone}
+                        disabled={!safeZoneEnabled}
+                        className="rounded-btn border border-dashed border-slate px-3 py-1 font-semibold text-coolGray hover:border-violet hover:text-white disabled:opacity-50"
+                      >
+                        + Add zone
+                      </button>
                     )}
-                  </button>
+                  </div>
+                  {safeZoneEnabled ? (
+                    <SafeZoneEditor
+                      resolution={currentResolutionSpec}
+                      zones={zones}
+                      activeIndex={activeZoneIndex}
+                      onZoneChange={handleZoneChange}
+                      onSelectZone={setActiveZoneIndex}
+                    />
+                  ) : (
+                    <p className="rounded-btn border border-cyan/40 bg-cyan/10 p-4 text-sm text-coolGray">
+                      Safe zone is disabled for this resolution. Enable it above if you want to edit the protected area.
+                    </p>
+                  )}
                 </div>
+                <p className="mt-2 text-xs text-dimGray">
+                  Drag the highlighted boxes to keep your drawing area clear. Corner handles resize each safe zone, and
+                  you can add multiple boxes to protect different parts of your overlay.
+                </p>
+                <button
+                  type="button"
+                  className="mt-4 w-full rounded-btn bg-violet py-[10px] text-sm font-semibold hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-60"
+                  onClick={() => safeZoneMutation.mutate()}
+                  disabled={safeZoneMutation.isPending}
+                >
+                  {safeZoneMutation.isPending ? 'Saving…' : 'Save safe zones'}
+                </button>
               </div>
-              <div className="mt-4">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-coolGray">Overlay URL</p>
-                  <button
-                    className="text-xs text-violet hover:text-softViolet font-semibold"
-                    onClick={() => setShowOverlayUrl(!showOverlayUrl)}
-                  >
-                    {showOverlayUrl ? 'Hide' : 'Show'}
-                  </button>
+
+              {/* Links section */}
+              <div className="rounded-card border border-slate/30 bg-graphite p-l shadow-low text-sm">
+                <h3 className="text-lg font-semibold">Links</h3>
+                <div className="mt-2">
+                  <p className="text-coolGray">Submission URL</p>
+                  <div className="mt-1 flex gap-2">
+                    <code className="flex-1 truncate rounded-btn bg-charcoal border border-slate p-2 text-xs">
+                      {submissionUrl}
+                    </code>
+                    <button
+                      type="button"
+                      className="rounded-btn border border-slate px-2 py-2 hover:border-violet hover:bg-slate/30"
+                      title="Copy submission URL"
+                      onClick={async () => {
+                        try {
+                          await navigator.clipboard.writeText(submissionUrl);
+                          setCopiedSubmission(true);
+                          setTimeout(() => setCopiedSubmission(false), 2000);
+                        } catch (error) {
+                          console.error('Clipboard error', error);
+                        }
+                      }}
+                    >
+                      {copiedSubmission ? (
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                      ) : (
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                          />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
                 </div>
-                <div className="flex gap-2">
-                  <code className="flex-1 rounded-btn bg-charcoal border border-slate p-2 text-xs select-none overflow-hidden">
-                    <span className={`block truncate transition-all duration-200 ${showOverlayUrl ? '' : 'blur-sm'}`}>
-                      {overlayUrl}
-                    </span>
-                  </code>
-                  <button
-                    className="rounded-btn border border-slate px-2 py-2 hover:border-violet hover:bg-slate/30"
-                    title="Copy overlay URL"
-                    onClick={async () => {
-                      try {
-                        await navigator.clipboard.writeText(overlayUrl);
-                        setCopiedOverlay(true);
-                        setTimeout(() => setCopiedOverlay(false), 2000);
-                      } catch (error) {
-                        console.error('Clipboard error', error);
-                      }
-                    }}
-                  >
-                    {copiedOverlay ? (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                    ) : (
-                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                      </svg>
-                    )}
-                  </button>
+                <div className="mt-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-coolGray">Overlay URL</p>
+                    <button
+                      type="button"
+                      className="text-xs text-violet hover:text-softViolet font-semibold"
+                      onClick={() => setShowOverlayUrl(!showOverlayUrl)}
+                    >
+                      {showOverlayUrl ? 'Hide' : 'Show'}
+                    </button>
+                  </div>
+                  <div className="flex gap-2">
+                    <code className="flex-1 rounded-btn bg-charcoal border border-slate p-2 text-xs select-none overflow-hidden">
+                      <span className={`block truncate transition-all duration-200 ${showOverlayUrl ? '' : 'blur-sm'}`}>
+                        {overlayUrl}
+                      </span>
+                    </code>
+                    <button
+                      type="button"
+                      className="rounded-btn border border-slate px-2 py-2 hover:border-violet hover:bg-slate/30"
+                      title="Copy overlay URL"
+                      onClick={async () => {
+                        try {
+                          await navigator.clipboard.writeText(overlayUrl);
+                          setCopiedOverlay(true);
+                          setTimeout(() => setCopiedOverlay(false), 2000);
+                        } catch (error) {
+                          console.error('Clipboard error', error);
+                        }
+                      }}
+                    >
+                      {copiedOverlay ? (
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                      ) : (
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                          />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
                 </div>
               </div>
+
+              <SubmissionLimitsPanel limits={userData?.settings?.submissionLimits} />
+              <MediaPolicyPanel policy={userData?.settings?.mediaPolicy} />
+              <DisplayModePanel displayMode={userData?.settings?.displayMode} />
+              <CaptionSettingsPanel captions={userData?.settings?.captions} />
+              <AnimationSettingsPanel animation={userData?.settings?.animation} />
+              <RateLimitsPanel
+                limits={userData?.settings?.rateLimits}
+                duplicateHandling={userData?.settings?.duplicateHandling}
+              />
+              <BlocklistPanel />
+              <MembersPanel />
+              <AuditLogPanel />
             </div>
-          </div>
+          )}
         </div>
       </section>
     </div>
@@ -1,15 +1,22 @@
-import { FormEvent, useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { api } from '../lib/api';
-import { getToken, setToken } from '../lib/auth';
+import { getToken, setTokens } from '../lib/auth';
+import type { AuthTokens } from '../lib/auth';
 import { sanitizeSlug, sanitizeText, validateInput } from '../lib/sanitize';
 import type { Streamer } from '../types';
 
+type LoginResponse = (AuthTokens & { user: Streamer }) | { twoFactorRequired: true; challengeToken: string };
+
 const LoginPage = () => {
   const navigate = useNavigate();
   const [form, setForm] = useState({ slug: '', password: '' });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set once the password is accepted for an account with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
 
   useEffect(() => {
     if (getToken()) {
@@ -22,12 +29,23 @@ const LoginPage = () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await api.post<{ token: string; user: Streamer }>('/auth/login', form);
-      setToken(response.data.token);
+      const response = challengeToken
+        ? await api.post<LoginResponse>('/auth/login/totp', { challengeToken, code })
+        : await api.post<LoginResponse>('/auth/login', form);
+      if ('twoFactorRequired' in response.data) {
+        setChallengeToken(response.data.challengeToken);
+        return;
+      }
+      setTokens(response.data);
       navigate('/dashboard');
     } catch (err) {
-      const message = (err as { response?: { data?: { error?: string } } }).response?.data?.error ?? 'Login failed';
-      setError(message);
+      const { response } = err as { response?: { data?: { error?: string; code?: string } } };
+      setError(response?.data?.error ?? 'Login failed');
+      // An expired challenge means starting over from the password
+      if (response?.data?.code === 'challenge_expired') {
+        setChallengeToken(null);
+        setCode('');
+      }
     } finally {
       setLoading(false);
     }
@@ -39,53 +57,90 @@ const LoginPage = () => {
         <span className="text-white">GIF</span>
         <span className="text-violet">strem</span>
       </Link>
-      <form className="w-full max-w-md space-y-m rounded-modal bg-graphite border border-slate/30 p-l shadow-medium" onSubmit={handleSubmit}>
+      <form
+        className="w-full max-w-md space-y-m rounded-modal bg-graphite border border-slate/30 p-l shadow-medium"
+        onSubmit={handleSubmit}
+      >
         <h1 className="text-2xl font-semibold">Welcome back</h1>
         {error && <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">{error}</p>}
-        <label className="block text-sm font-semibold text-coolGray">
-          Your slug
-          <input
-            type="text"
-            className="mt-1 w-full rounded-btn border border-slate bg-graphite p-2 text-white placeholder-dimGray lowercase focus:border-violet focus:outline-none"
-            placeholder=""
-            value={form.slug}
-            onChange={(event) => {
-              const sanitized = sanitizeSlug(event.target.value.toLowerCase());
-              if (validateInput(sanitized)) {
-                setForm((prev) => ({ ...prev, slug: sanitized }));
-              }
-            }}
-            onBlur={() => {
-              const sanitized = sanitizeSlug(form.slug);
-              if (sanitized !== form.slug) {
-                setForm((prev) => ({ ...prev, slug: sanitized }));
-              }
-            }}
-            required
-          />
-        </label>
-        <label className="block text-sm font-semibold text-coolGray">
-          Password
-          <input
-            type="password"
-            className="mt-1 w-full rounded-btn border border-slate bg-graphite p-2 text-white placeholder-dimGray focus:border-violet focus:outline-none"
-            value={form.password}
-            onChange={(event) => {
-              const sanitized = sanitizeText(event.target.value);
-              if (validateInput(sanitized)) {
-                setForm((prev) => ({ ...prev, password: sanitized }));
-              }
-            }}
-            required
-          />
-        </label>
+        {challengeToken ? (
+          <label className="block text-sm font-semibold text-coolGray">
+            Authentication code
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className="mt-1 w-full rounded-btn border border-slate bg-graphite p-2 text-white placeholder-dimGray tracking-widest focus:border-violet focus:outline-none"
+              placeholder="123456"
+              value={code}
+              onChange={(event) => setCode(event.target.value.trim().slice(0, 32))}
+              required
+            />
+            <span className="mt-1 block text-xs font-normal text-dimGray">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </span>
+          </label>
+        ) : (
+          <>
+            <label className="block text-sm font-semibold text-coolGray">
+              Your slug
+              <input
+                type="text"
+                className="mt-1 w-full rounded-btn border border-slate bg-graphite p-2 text-white placeholder-dimGray lowercase focus:border-violet focus:outline-none"
+                placeholder=""
+                value={form.slug}
+                onChange={(event) => {
+                  const sanitized = sanitizeSlug(event.target.value.toLowerCase());
+                  if (validateInput(sanitized)) {
+                    setForm((prev) => ({ ...prev, slug: sanitized }));
+                  }
+                }}
+                onBlur={() => {
+                  const sanitized = sanitizeSlug(form.slug);
+                  if (sanitized !== form.slug) {
+                    setForm((prev) => ({ ...prev, slug: sanitized }));
+                  }
+                }}
+                required
+              />
+            </label>
+            <label className="block text-sm font-semibold text-coolGray">
+              Password
+              <input
+                type="password"
+                className="mt-1 w-full rounded-btn border border-slate bg-graphite p-2 text-white placeholder-dimGray focus:border-violet focus:outline-none"
+                value={form.password}
+                onChange={(event) => {
+                  const sanitized = sanitizeText(event.target.value);
+                  if (validateInput(sanitized)) {
+                    setForm((prev) => ({ ...prev, password: sanitized }));
+                  }
+                }}
+                required
+              />
+            </label>
+          </>
+        )}
         <button
           type="submit"
           disabled={loading}
           className="w-full rounded-btn bg-violet py-[10px] px-5 font-semibold text-white hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-50"
         >
-          {loading ? 'Signing in...' : 'Sign in'}
+          {loading ? 'Signing in...' : challengeToken ? 'Verify' : 'Sign in'}
         </button>
+        {challengeToken && (
+          <button
+            type="button"
+            className="w-full text-sm text-coolGray hover:text-white"
+            onClick={() => {
+              setChallengeToken(null);
+              setCode('');
+              setError(null);
+            }}
+          >
+            Use a different account
+          </button>
+        )}
         <p className="text-center text-sm text-coolGray">
           Need an account?{' '}
           <Link to="/auth/signup" className="text-violet hover:text-softViolet font-semibold">
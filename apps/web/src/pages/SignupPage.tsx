@@ -1,12 +1,16 @@
-import { FormEvent, MouseEvent, useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useState } from 'react';
+import type { FormEvent, MouseEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { api } from '../lib/api';
-import { getToken, setToken } from '../lib/auth';
+import { getToken, setTokens } from '../lib/auth';
+import type { AuthTokens } from '../lib/auth';
 import { sanitizeDisplayName, sanitizeSlug, sanitizeText, validateInput } from '../lib/sanitize';
 import type { Streamer } from '../types';
 
 const SignupPage = () => {
   const navigate = useNavigate();
+  const [search] = useSearchParams();
+  const inviteCode = search.get('invite') ?? undefined;
   const [form, setForm] = useState({
     displayName: '',
     slug: '',
@@ -27,8 +31,8 @@ const SignupPage = () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await api.post<{ token: string; user: Streamer }>('/auth/signup', form);
-      setToken(response.data.token);
+      const response = await api.post<AuthTokens & { user: Streamer }>('/auth/signup', { ...form, inviteCode });
+      setTokens(response.data);
       navigate('/dashboard');
     } catch (err) {
       const message = (err as { response?: { data?: { error?: string } } }).response?.data?.error ?? 'Signup failed';
@@ -44,8 +48,18 @@ const SignupPage = () => {
         <span className="text-white">GIF</span>
         <span className="text-violet">strem</span>
       </Link>
-      <form className="w-full max-w-md space-y-m rounded-modal bg-graphite border border-slate/30 p-l shadow-medium" onSubmit={handleSubmit}>
-        <h1 className="text-2xl font-semibold">Create streamer account</h1>
+      <form
+        className="w-full max-w-md space-y-m rounded-modal bg-graphite border border-slate/30 p-l shadow-medium"
+        onSubmit={handleSubmit}
+      >
+        <h1 className="text-2xl font-semibold">
+          {inviteCode ? 'Create moderator account' : 'Create streamer account'}
+        </h1>
+        {inviteCode && (
+          <p className="rounded-btn bg-violet/10 border border-violet/30 p-2 text-sm text-coolGray">
+            You were invited to moderate a channel. This account can review submissions but has no overlay of its own.
+          </p>
+        )}
         {error && <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-sm text-white">{error}</p>}
         <label className="block text-sm font-semibold text-coolGray">
           Your name (used cosmetically)
@@ -90,15 +104,13 @@ const SignupPage = () => {
             }}
             required
           />
-          <div className="mt-2 rounded-btn bg-charcoal border border-slate/30 p-2">
-            <p className="text-xs text-dimGray mb-1">Your submission link will be:</p>
-            <p className="text-sm font-mono text-violet">
-              gifstrem.com/{form.slug || 'your-slug'}
-            </p>
-          </div>
-          <span className="text-xs text-dimGray mt-1 block">
-            You'll use this slug to login and share with viewers
-          </span>
+          {!inviteCode && (
+            <div className="mt-2 rounded-btn bg-charcoal border border-slate/30 p-2">
+              <p className="text-xs text-dimGray mb-1">Your submission link will be:</p>
+              <p className="text-sm font-mono text-violet">gifstrem.com/{form.slug || 'your-slug'}</p>
+            </div>
+          )}
+          <span className="text-xs text-dimGray mt-1 block">You'll use this slug to login and share with viewers</span>
         </label>
         <label className="block text-sm font-semibold text-coolGray">
           Password
@@ -124,7 +136,11 @@ const SignupPage = () => {
         </button>
         <p className="text-center text-sm text-coolGray">
           Already have an account?{' '}
-          <Link to="/auth/login" className="text-violet hover:text-softViolet font-semibold" onClick={handleLoginLinkClick}>
+          <Link
+            to="/auth/login"
+            className="text-violet hover:text-softViolet font-semibold"
+            onClick={handleLoginLinkClick}
+          >
             Log in
           </Link>
         </p>
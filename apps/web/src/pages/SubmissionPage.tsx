@@ -1,15 +1,16 @@
-import { ChangeEvent, FormEvent, useState } from 'react';
-import { useParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { useEffect, useState } from 'react';
+import type { ChangeEvent, FormEvent } from 'react';
+import { useParams } from 'react-router-dom';
 import { api } from '../lib/api';
 import { compressGifToLimit } from '../lib/gifCompression';
 import { sanitizeDisplayName, sanitizeMessage, validateInput } from '../lib/sanitize';
 import type { Streamer } from '../types';
-import type { AxiosError } from 'axios';
 
 const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
 const MAX_COMPRESSIBLE_BYTES = 8 * 1024 * 1024;
-const SUPPORTED_FILE_TYPES = new Set(['image/gif', 'image/png', 'image/jpeg', 'image/jpg']);
+const SUPPORTED_FILE_TYPES = new Set(['image/gif', 'image/png', 'image/apng', 'image/webp', 'image/jpeg', 'image/jpg']);
 
 const formatBytes = (bytes: number) => {
   const units = ['bytes', 'KB', 'MB'];
@@ -23,6 +24,12 @@ const formatBytes = (bytes: number) => {
   return `${value.toFixed(decimals)} ${units[unitIndex]}`;
 };
 
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
 const SubmissionPage = () => {
   const { slug } = useParams<{ slug: string }>();
   const [uploaderName, setUploaderName] = useState('');
@@ -31,6 +38,25 @@ const SubmissionPage = () => {
   const [status, setStatus] = useState<'idle' | 'compressing' | 'submitting' | 'success' | 'error'>('idle');
   const [error, setError] = useState<string | null>(null);
   const [compressionNotice, setCompressionNotice] = useState<string | null>(null);
+  const [mergedDuplicate, setMergedDuplicate] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const waitSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        setRetryAt(null);
+        setError(null);
+        setStatus('idle');
+      }
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [retryAt]);
 
   const { data, isLoading } = useQuery({
     queryKey: ['streamer', slug],
@@ -54,7 +80,7 @@ const SubmissionPage = () => {
 
     if (!SUPPORTED_FILE_TYPES.has(selectedFile.type)) {
       setStatus('error');
-      setError('Only GIF, PNG, or JPEG uploads are supported.');
+      setError('Only GIF, PNG, APNG, WebP or JPEG uploads are supported.');
       setFile(null);
       return;
     }
@@ -79,7 +105,9 @@ const SubmissionPage = () => {
           setFile(compressedFile);
           const strategySuffix = compression.lastPresetDescription ? ` using ${compression.lastPresetDescription}` : '';
           setCompressionNotice(
-            `Compressed from ${formatBytes(compression.beforeBytes)} to ${formatBytes(compression.afterBytes)}${strategySuffix}`,
+            `Compressed from ${formatBytes(compression.beforeBytes)} to ${formatBytes(
+              compression.afterBytes,
+            )}${strategySuffix}`,
           );
 
           if (compressedFile.size > MAX_UPLOAD_BYTES) {
@@ -88,7 +116,9 @@ const SubmissionPage = () => {
               : '';
             setStatus('error');
             setError(
-              `We tried ${compression.attempts} compression strategies${lastStrategy}, but the GIF is still ${formatBytes(
+              `We tried ${
+                compression.attempts
+              } compression strategies${lastStrategy}, but the GIF is still ${formatBytes(
                 compressedFile.size,
               )}. Please trim frames or reduce dimensions.`,
             );
@@ -188,10 +218,11 @@ const SubmissionPage = () => {
         url: `${api.defaults.baseURL ?? ''}/submissions/public`,
         headers: { 'Content-Type': 'multipart/form-data' },
       });
-      const response = await api.post('/submissions/public', formData, {
+      const response = await api.post<{ merged?: boolean }>('/submissions/public', formData, {
         headers: { 'Content-Type': 'multipart/form-data' },
       });
       console.info('[submission] Upload success', response.data);
+      setMergedDuplicate(Boolean(response.data.merged));
       setStatus('success');
       setUploaderName('');
       setMessage('');
@@ -207,6 +238,13 @@ const SubmissionPage = () => {
         requestUrl: axiosError.config?.url,
       });
       setStatus('error');
+      if (axiosError.response?.status === 429) {
+        const retryAfter = Number(axiosError.response.headers['retry-after'] ?? 60);
+        setNow(Date.now());
+        setRetryAt(Date.now() + (Number.isFinite(retryAfter) ? retryAfter : 60) * 1000);
+        setError("You're sending media a little too fast. Take a breather and try again soon.");
+        return;
+      }
       setError(messageText ?? 'Unable to submit media right now.');
     }
   };
@@ -226,8 +264,21 @@ const SubmissionPage = () => {
           <p className="text-sm uppercase text-violet font-semibold tracking-wide">Submitting to</p>
           <h1 className="text-3xl font-bold">{data.displayName}</h1>
         </div>
-        {status === 'success' && <p className="rounded-btn bg-emerald/20 border border-emerald/40 p-2 text-white">Thanks! Your submission is pending approval.</p>}
-        {status === 'error' && error && <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-white">{error}</p>}
+        {status === 'success' && (
+          <p className="rounded-btn bg-emerald/20 border border-emerald/40 p-2 text-white">
+            {mergedDuplicate
+              ? 'Someone already sent this one, so we added your vote to it instead.'
+              : 'Thanks! Your submission is pending approval.'}
+          </p>
+        )}
+        {status === 'error' && error && (
+          <p className="rounded-btn bg-coral/20 border border-coral/40 p-2 text-white">
+            {error}
+            {waitSeconds > 0 && (
+              <span className="block text-sm text-coolGray">You can submit again in {formatWait(waitSeconds)}.</span>
+            )}
+          </p>
+        )}
         <form className="space-y-m" onSubmit={handleSubmit}>
           <label className="block text-sm font-semibold text-coolGray">
             Your name
@@ -275,22 +326,29 @@ const SubmissionPage = () => {
             Upload file
             <input
               type="file"
-              accept="image/gif,image/png,image/jpeg,image/jpg"
+              accept="image/gif,image/png,image/apng,image/webp,image/jpeg,image/jpg"
               className="mt-1 w-full rounded-btn border border-dashed border-slate bg-charcoal p-4 file:mr-4 file:rounded-btn file:border-0 file:bg-violet file:px-4 file:py-2 file:text-sm file:font-semibold file:text-white hover:file:bg-softViolet"
               onChange={handleFileChange}
               required
             />
             <span className="text-xs text-dimGray">
-              Animated GIFs or PNG/JPEG stills up to 4MB. GIFs bigger than 4MB may be compressed locally down to the limit.
+              Animated GIFs, WebPs or APNGs, or PNG/JPEG stills, up to 4MB. GIFs bigger than 4MB may be compressed
+              locally down to the limit.
             </span>
             {compressionNotice && <span className="mt-1 block text-xs text-emerald/80">{compressionNotice}</span>}
           </label>
           <button
             type="submit"
-            disabled={status === 'submitting' || status === 'compressing'}
+            disabled={status === 'submitting' || status === 'compressing' || waitSeconds > 0}
             className="w-full rounded-btn bg-violet py-[10px] px-5 font-semibold text-white hover:bg-softViolet hover:-translate-y-[1px] active:bg-deepViolet active:translate-y-0 disabled:opacity-50"
           >
-            {status === 'compressing' ? 'Compressing GIF...' : status === 'submitting' ? 'Uploading...' : 'Submit media'}
+            {status === 'compressing'
+              ? 'Compressing GIF...'
+              : status === 'submitting'
+                ? 'Uploading...'
+                : waitSeconds > 0
+                  ? `Try again in ${formatWait(waitSeconds)}`
+                  : 'Submit media'}
           </button>
         </form>
       </div>
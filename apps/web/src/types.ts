@@ -13,11 +13,112 @@ export type ResolutionSafeZone = {
 
 export type StreamerSettings = {
   safeZones: Record<string, ResolutionSafeZone>;
-  animation: { type: string; durationMs: number };
+  animation: AnimationSettings;
+  displayMode: DisplayModeSettings;
+  captions: CaptionSettings;
   showSafeZoneOverlay?: boolean;
   rotationEnabled?: boolean;
   preferredResolution?: '720p' | '1080p' | '2160p' | 'custom';
   customResolution?: { width: number; height: number };
+  trashRetentionMinutes?: number;
+  submissionLimits?: SubmissionLimits;
+  rateLimits?: RateLimits;
+  duplicateHandling?: DuplicateHandling;
+  blocklistMode?: BlocklistMode;
+  mediaPolicy?: MediaPolicy;
+};
+
+export type DisplayMode = 'collage' | 'spotlight' | 'ticker';
+
+export type TickerEdge = 'top' | 'bottom';
+
+export type DisplayModeSettings = {
+  mode: DisplayMode;
+  spotlight: {
+    secondsPerItem: number;
+    showCaptions: boolean;
+  };
+  ticker: {
+    edge: TickerEdge;
+    itemSize: number;
+    /** Canvas pixels per second. */
+    speed: number;
+  };
+};
+
+export type CaptionFont = 'sans' | 'rounded' | 'serif' | 'mono' | 'display';
+
+export type CaptionPosition = 'above' | 'below' | 'overlay';
+
+export type CaptionSettings = {
+  enabled: boolean;
+  font: CaptionFont;
+  fontSize: number;
+  /** `#rrggbb` */
+  color: string;
+  position: CaptionPosition;
+  maxLength: number;
+};
+
+export type AnimationVariant = 'pop' | 'fade' | 'slide' | 'drop' | 'spin' | 'confetti';
+
+export type AnimationEasing = 'ease-out' | 'ease-in-out' | 'linear' | 'spring';
+
+export type AnimationSettings = {
+  enter: AnimationVariant;
+  exit: AnimationVariant;
+  easing: AnimationEasing;
+  durationMs: number;
+};
+
+export type MediaPolicy = {
+  maxFrames: number;
+  maxDurationSeconds: number;
+  maxWidth: number;
+  maxHeight: number;
+  allowStillImages: boolean;
+  limitStillSize: boolean;
+};
+
+export type BlocklistMode = 'silent' | 'reject';
+
+export type BlocklistKind = 'name' | 'name_pattern' | 'word' | 'file_hash';
+
+export type BlocklistEntry = {
+  id: string;
+  kind: BlocklistKind;
+  value: string;
+  createdAt: string;
+};
+
+export type DuplicateHandling = 'merge' | 'reject' | 'allow';
+
+export type RateLimits = {
+  windowMinutes: number;
+  perIp: number;
+  perUploader: number;
+};
+
+export type SubmissionLimits = {
+  pendingExpiryHours: number;
+  approvedExpiryHours: number;
+  maxSubmissions: number;
+};
+
+export type AccountSession = {
+  id: string;
+  userAgent: string | null;
+  locationHint: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  /** The session making the request. */
+  current: boolean;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
 };
 
 export type Streamer = {
@@ -26,11 +127,29 @@ export type Streamer = {
   displayName: string;
   slug: string;
   overlayToken: string;
+  role?: 'streamer' | 'moderator';
   settings: StreamerSettings | null;
   createdAt: string;
   updatedAt: string;
 };
 
+/** A moderator-arranged position, in pixels of the canvas it was arranged on. */
+export type SubmissionLayout = {
+  x: number;
+  y: number;
+  size: number;
+  rotation: number;
+  /** Pinned items keep this position; unpinned ones are placed automatically. */
+  pinned: boolean;
+  canvas: { width: number; height: number };
+};
+
+/** The part of a channel's settings the overlay canvas is drawn from; moderators get only this. */
+export type OverlayStageSettings = Pick<
+  StreamerSettings,
+  'preferredResolution' | 'customResolution' | 'safeZones' | 'rotationEnabled'
+>;
+
 export type Submission = {
   id: string;
   uploaderName: string;
@@ -44,5 +163,68 @@ export type Submission = {
   createdAt: string;
   approvedAt?: string | null;
   deniedAt?: string | null;
-  layout?: Record<string, unknown> | null;
+  layout?: SubmissionLayout | null;
+  trashedAt?: string | null;
+  purgeAt?: string | null;
+  duplicateCount?: number;
+  /** Still first frame; null until generated, and for non-GIF uploads. */
+  thumbnailUrl?: string | null;
+  /** Small looping preview; null until generated, and for non-GIF uploads. */
+  previewUrl?: string | null;
+};
+
+export type MemberPermission = 'view' | 'review' | 'delete';
+
+export type StreamerMember = {
+  id: string;
+  userId: string | null;
+  displayName: string | null;
+  slug: string | null;
+  inviteCode: string | null;
+  permissions: MemberPermission[];
+  createdAt: string;
+  acceptedAt: string | null;
+};
+
+export type Membership = {
+  id: string;
+  streamer: { id: string; displayName: string | null; slug: string | null };
+  permissions: MemberPermission[];
+  acceptedAt: string | null;
+};
+
+export type AuditAction =
+  | 'submission.created'
+  | 'submission.approved'
+  | 'submission.denied'
+  | 'submission.deleted'
+  | 'submission.restored'
+  | 'submission.merged'
+  | 'submission.arranged'
+  | 'submission.blocked'
+  | 'blocklist.added'
+  | 'blocklist.removed'
+  | 'settings.updated'
+  | 'profile.updated'
+  | 'password.changed'
+  | 'sessions.revoked'
+  | 'two_factor.enabled'
+  | 'two_factor.disabled'
+  | 'two_factor.recovery_codes_regenerated'
+  | 'overlay_token.rotated'
+  | 'member.invited'
+  | 'member.updated'
+  | 'member.removed'
+  | 'member.joined'
+  | 'member.left';
+
+export type AuditEvent = {
+  id: string;
+  actor: { id: string | null; name: string };
+  action: AuditAction;
+  targetType: string;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
 };
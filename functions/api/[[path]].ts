@@ -2,35 +2,169 @@ import type { PagesFunction } from '@cloudflare/workers-types';
 import { Hono } from 'hono';
 import type { Context, Next } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
-import { createRepositories, Repositories } from './_lib/repositories';
-import { serializeSubmission, serializeUser } from './_lib/serializers';
-import { createOverlayToken, generateAccessToken, hashPassword, verifyAccessToken, verifyPassword } from './_lib/security';
-import type { GifstremBindings, UserRow } from './_lib/types';
-import { saveSubmissionFileToR2, deleteSubmissionFileFromR2 } from './_lib/storage';
-import { sanitizeDisplayName, sanitizeSlug, sanitizeMessage, sanitizeText, validateNoSqlInjection } from './_lib/sanitize';
-import { ensureSettings } from './_lib/settings';
+import {
+  MAX_BLOCKLIST_PATTERN_LENGTH,
+  findBlocklistMatch,
+  isValidBlocklistPattern,
+  normalizeBlocklistValue,
+} from './_lib/blocklist';
+import { runCleanup } from './_lib/cleanup';
+import { hammingDistance } from './_lib/fingerprint';
+import type { MediaFingerprint } from './_lib/fingerprint';
+import { MediaPolicyError } from './_lib/mediaPolicy';
+import { MEMBER_PERMISSIONS, memberHasPermission, normalizePermissions, parsePermissions } from './_lib/permissions';
+import type { MemberPermission } from './_lib/permissions';
+import { generateSubmissionPreviews } from './_lib/previews';
+import { clientIp, consumeRateLimits } from './_lib/rateLimit';
+import { createRepositories } from './_lib/repositories';
+import type { AuditCursor, CreateAuditEventInput, Repositories } from './_lib/repositories';
+import {
+  sanitizeDisplayName,
+  sanitizeMessage,
+  sanitizeSlug,
+  sanitizeText,
+  validateNoSqlInjection,
+} from './_lib/sanitize';
+import { MediaSanitizeError } from './_lib/sanitizeError';
+import {
+  createInviteCode,
+  createOverlayToken,
+  createRefreshSecret,
+  generateAccessToken,
+  generateLoginChallenge,
+  hashPassword,
+  hashRefreshSecret,
+  secretsMatch,
+  sessionExpiresAt,
+  verifyAccessToken,
+  verifyLoginChallenge,
+  verifyPassword,
+} from './_lib/security';
+import {
+  serializeAuditEvent,
+  serializeBlocklistEntry,
+  serializeMember,
+  serializeMembership,
+  serializeSession,
+  serializeSubmission,
+  serializeUser,
+} from './_lib/serializers';
+import {
+  ANIMATION_DURATION_BOUNDS,
+  ANIMATION_EASINGS,
+  ANIMATION_VARIANTS,
+  CAPTION_BOUNDS,
+  CAPTION_COLOR_PATTERN,
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+  DISPLAY_MODES,
+  DISPLAY_MODE_BOUNDS,
+  MAX_RATE_LIMIT_REQUESTS,
+  MAX_RATE_LIMIT_WINDOW_MINUTES,
+  MAX_SUBMISSIONS_CAP,
+  MAX_SUBMISSION_EXPIRY_HOURS,
+  MAX_TRASH_RETENTION_MINUTES,
+  MEDIA_POLICY_BOUNDS,
+  TICKER_EDGES,
+  ensureSettings,
+} from './_lib/settings';
+import { MediaTypeError } from './_lib/sniff';
+import { deleteSubmissionFileFromR2, saveSubmissionFileToR2, submissionObjectKeys } from './_lib/storage';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpProvisioningUri,
+  verifyTotp,
+} from './_lib/totp';
+import type {
+  AuditAction,
+  AuditEventRow,
+  BlocklistEntryRow,
+  GifstremBindings,
+  OverlayEventType,
+  SessionRow,
+  SettingsShape,
+  SubmissionRow,
+  UserRow,
+} from './_lib/types';
 
 type AppBindings = GifstremBindings;
 type AppVariables = {
   repos: Repositories;
   user?: UserRow;
+  session?: SessionRow;
 };
 
-const MAX_SUBMISSIONS_PER_STREAMER = 64;
+// Handlers behind requireAuth always have a user and session; Hono merges this into their context.
+type AuthedEnv = { Bindings: AppBindings; Variables: AppVariables & { user: UserRow; session: SessionRow } };
+
+const OVERLAY_STREAM_POLL_MS = 1500;
+// Quiet streams check less and less often, up to this; any change drops back to OVERLAY_STREAM_POLL_MS.
+const OVERLAY_STREAM_IDLE_POLL_MS = 10 * 1000;
+const OVERLAY_STREAM_KEEPALIVE_MS = 15 * 1000;
+const OVERLAY_STREAM_MAX_MS = 5 * 60 * 1000;
+const OVERLAY_STREAM_EXPIRY_SWEEP_MS = 60 * 1000;
+const OVERLAY_EVENT_RETENTION_MS = 60 * 60 * 1000;
+const AUDIT_PAGE_SIZE = 25;
+const AUDIT_MAX_PAGE_SIZE = 100;
+// A second tab refreshing with the same token just after the first is not treated as theft.
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+// last_seen_at is only written this often so authenticated requests stay read-only.
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_SESSION_USER_AGENT_LENGTH = 256;
+// Wrong second-step codes per account before it locks; six digits leave little room for guessing at this rate.
+const TWO_FACTOR_ATTEMPT_LIMIT = 5;
+const TWO_FACTOR_LOCKOUT_MS = 15 * 60 * 1000;
+// Out of 64 bits; re-encodes and resizes of the same GIF usually land within a few bits.
+const PERCEPTUAL_DUPLICATE_DISTANCE = 6;
 
 const app = new Hono<{ Bindings: AppBindings; Variables: AppVariables }>();
 
-app.use('*', cors({ origin: '*', allowHeaders: ['Authorization', 'Content-Type'] }));
+app.use(
+  '*',
+  cors({
+    origin: '*',
+    allowHeaders: ['Authorization', 'Content-Type', 'If-None-Match'],
+    exposeHeaders: ['ETag', 'Retry-After'],
+  }),
+);
 app.use('*', async (c, next) => {
   c.set('repos', createRepositories(c.env));
   await next();
 });
 
+const inviteCodeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-f0-9]{20}$/, 'Invalid invite code');
+
+const memberPermissionsSchema = z.array(z.enum(MEMBER_PERMISSIONS)).min(1);
+
 const signupSchema = z.object({
-  displayName: z.string().min(2).max(64).transform(sanitizeDisplayName).refine(val => val.length >= 2, 'Display name too short after sanitization'),
-  slug: z.string().min(3).max(40).regex(/^[a-z0-9-]+$/, 'Lowercase letters, numbers, hyphen').transform(sanitizeSlug).refine(val => val.length >= 3, 'Slug too short after sanitization'),
-  password: z.string().min(8).max(128).transform(sanitizeText).refine(val => validateNoSqlInjection(val), 'Invalid password format'),
+  displayName: z
+    .string()
+    .min(2)
+    .max(64)
+    .transform(sanitizeDisplayName)
+    .refine((val) => val.length >= 2, 'Display name too short after sanitization'),
+  slug: z
+    .string()
+    .min(3)
+    .max(40)
+    .regex(/^[a-z0-9-]+$/, 'Lowercase letters, numbers, hyphen')
+    .transform(sanitizeSlug)
+    .refine((val) => val.length >= 3, 'Slug too short after sanitization'),
+  password: z
+    .string()
+    .min(8)
+    .max(128)
+    .transform(sanitizeText)
+    .refine((val) => validateNoSqlInjection(val), 'Invalid password format'),
+  inviteCode: inviteCodeSchema.optional(),
 });
 
 const loginSchema = z.object({
@@ -38,6 +172,18 @@ const loginSchema = z.object({
   password: z.string().transform(sanitizeText),
 });
 
+// Either a six digit TOTP code or a recovery code such as "abcde-23fgh"
+const twoFactorCodeSchema = z.string().trim().min(6).max(32);
+
+const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1).max(1024),
+  code: twoFactorCodeSchema,
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().regex(/^[0-9a-f-]{36}\.[0-9a-f]{64}$/),
+});
+
 const safeZoneBoundsSchema = z.object({
   x: z.number().min(0),
   y: z.number().min(0),
@@ -56,17 +202,54 @@ const safeZoneSchema = z
     zone: safeZoneBoundsSchema.optional(),
     enabled: z.boolean().optional(),
   })
-  .refine(
-    (payload) => Boolean(payload.zone || (payload.zones && payload.zones.length > 0)),
-    { message: 'At least one safe zone is required', path: ['zones'] },
-  );
+  .refine((payload) => Boolean(payload.zone || (payload.zones && payload.zones.length > 0)), {
+    message: 'At least one safe zone is required',
+    path: ['zones'],
+  });
+
+// Positions are in pixels of the canvas they were arranged on; the overlay rescales them to its own.
+const submissionLayoutSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  size: z.number().min(24).max(4096),
+  rotation: z.number().min(-180).max(180),
+  pinned: z.boolean(),
+  canvas: z.object({
+    width: z.number().int().min(100).max(7680),
+    height: z.number().int().min(100).max(7680),
+  }),
+});
 
 const submissionSchema = z.object({
   slug: z.string().min(3).transform(sanitizeSlug),
-  uploaderName: z.string().min(1).max(64).transform(sanitizeDisplayName).refine(val => val.length >= 1, 'Uploader name required after sanitization'),
-  message: z.string().max(240).optional().transform(val => val ? sanitizeMessage(val) : undefined),
+  uploaderName: z
+    .string()
+    .min(1)
+    .max(64)
+    .transform(sanitizeDisplayName)
+    .refine((val) => val.length >= 1, 'Uploader name required after sanitization'),
+  message: z
+    .string()
+    .max(240)
+    .optional()
+    .transform((val) => (val ? sanitizeMessage(val) : undefined)),
 });
 
+const blocklistEntrySchema = z
+  .object({
+    kind: z.enum(['name', 'name_pattern', 'word', 'file_hash']),
+    value: z.string().trim().min(1).max(MAX_BLOCKLIST_PATTERN_LENGTH),
+  })
+  .refine((entry) => entry.kind !== 'name_pattern' || isValidBlocklistPattern(entry.value), {
+    message:
+      'Invalid pattern; repeated groups that repeat inside, backreferences and more than two variable-length quantifiers are not allowed',
+    path: ['value'],
+  })
+  .refine((entry) => entry.kind !== 'file_hash' || /^[a-f0-9]{64}$/i.test(entry.value), {
+    message: 'File hashes are 64 hex characters',
+    path: ['value'],
+  });
+
 app.get('/api/healthz', (c) => {
   return c.json({ status: 'ok', time: new Date().toISOString() });
 });
@@ -77,19 +260,36 @@ app.post('/api/auth/signup', async (c) => {
     return c.json({ error: 'Invalid payload', details: parsed.error.format() }, 400);
   }
   const repos = c.get('repos');
-  const { displayName, slug, password } = parsed.data;
+  const { displayName, slug, password, inviteCode } = parsed.data;
   if (await repos.users.findBySlug(slug)) {
     return c.json({ error: 'Slug already in use' }, 409);
   }
+  const invite = inviteCode ? await repos.members.findByInviteCode(inviteCode) : undefined;
+  if (inviteCode && !(invite && (await repos.members.claim(invite.id)))) {
+    return c.json({ error: 'Invite not found or already used' }, 404);
+  }
   const user = await repos.users.create({
     username: slug, // Use slug as username for backward compatibility
     passwordHash: await hashPassword(password),
     displayName,
     slug,
     overlayToken: createOverlayToken(),
+    // Accounts created from an invite only moderate other channels
+    role: invite ? 'moderator' : 'streamer',
   });
-  const token = await generateAccessToken(c.env, user);
-  return c.json({ token, user: serializeUser(user) }, 201);
+  if (invite) {
+    await repos.members.assignUser(invite.id, user.id);
+    await recordAudit(repos, {
+      streamerId: invite.streamer_id,
+      ...auditActor(user),
+      action: 'member.joined',
+      targetType: 'member',
+      targetId: invite.id,
+      after: { userId: user.id, permissions: parsePermissions(invite.permissions) },
+    });
+  }
+  const tokens = await startSession(c, user);
+  return c.json({ ...tokens, user: serializeUser(user) }, 201);
 });
 
 app.post('/api/auth/login', async (c) => {
@@ -106,19 +306,113 @@ app.post('/api/auth/login', async (c) => {
   if (!valid) {
     return c.json({ error: 'Invalid credentials' }, 401);
   }
-  const token = await generateAccessToken(c.env, existing);
-  return c.json({ token, user: serializeUser(existing) });
+  if (existing.totp_secret) {
+    return c.json({ twoFactorRequired: true, challengeToken: await generateLoginChallenge(c.env, existing) });
+  }
+  const tokens = await startSession(c, existing);
+  return c.json({ ...tokens, user: serializeUser(existing) });
+});
+
+app.post('/api/auth/login/totp', async (c) => {
+  const parsed = loginTwoFactorSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const userId = await verifyLoginChallenge(c.env, parsed.data.challengeToken);
+  if (!userId) {
+    return c.json({ error: 'Sign-in expired, please enter your password again', code: 'challenge_expired' }, 401);
+  }
+  const repos = c.get('repos');
+  const user = await repos.users.findById(userId);
+  if (!user?.totp_secret) {
+    return c.json({ error: 'Sign-in expired, please enter your password again', code: 'challenge_expired' }, 401);
+  }
+  const attempt = await repos.users.claimTwoFactorAttempt(user.id, TWO_FACTOR_ATTEMPT_LIMIT);
+  if (attempt === null) {
+    // A concurrent attempt may have used the last slot without having written the lock yet
+    const lockedUntil = user.totp_locked_until
+      ? Date.parse(user.totp_locked_until)
+      : Date.now() + TWO_FACTOR_LOCKOUT_MS;
+    return twoFactorLockedResponse(c, lockedUntil);
+  }
+  if (!(await verifySecondFactor(repos, user, parsed.data.code))) {
+    if (attempt < TWO_FACTOR_ATTEMPT_LIMIT) {
+      return c.json({ error: 'Invalid code', attemptsRemaining: TWO_FACTOR_ATTEMPT_LIMIT - attempt }, 401);
+    }
+    const lockedUntil = Date.now() + TWO_FACTOR_LOCKOUT_MS;
+    await repos.users.lockTwoFactor(user.id, new Date(lockedUntil).toISOString());
+    return twoFactorLockedResponse(c, lockedUntil);
+  }
+  await repos.users.resetTwoFactorAttempts(user.id);
+  const tokens = await startSession(c, user);
+  return c.json({ ...tokens, user: serializeUser(user) });
+});
+
+app.post('/api/auth/refresh', async (c) => {
+  const parsed = refreshSchema.safeParse(await c.req.json().catch(() => null));
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const repos = c.get('repos');
+  const [sessionId, secret] = parsed.data.refreshToken.split('.');
+  const session = await repos.sessions.findById(sessionId);
+  if (!session || session.revoked_at || session.expires_at <= new Date().toISOString()) {
+    return c.json({ error: 'Session expired' }, 401);
+  }
+  const presentedHash = await hashRefreshSecret(secret);
+  if (presentedHash !== session.refresh_hash) {
+    const reused = presentedHash === session.previous_refresh_hash;
+    const withinGrace = Date.now() - Date.parse(session.refreshed_at) < REFRESH_REUSE_GRACE_MS;
+    if (reused && !withinGrace) {
+      // An old refresh token came back after it was rotated: assume it leaked and end the session
+      await repos.sessions.revoke(session.id);
+    }
+    return c.json({ error: 'Session expired' }, 401);
+  }
+  const nextSecret = createRefreshSecret();
+  if (!(await repos.sessions.rotate(session.id, presentedHash, await hashRefreshSecret(nextSecret)))) {
+    return c.json({ error: 'Session expired' }, 401);
+  }
+  const user = await repos.users.findById(session.user_id);
+  if (!user) {
+    return c.json({ error: 'Unknown user' }, 401);
+  }
+  const client = sessionClientInfo(c);
+  await repos.sessions.touch(session.id, client.userAgent, client.locationHint);
+  return c.json({
+    token: await generateAccessToken(c.env, user, session.id),
+    refreshToken: `${session.id}.${nextSecret}`,
+  });
+});
+
+app.post('/api/auth/logout', requireAuth, async (c) => {
+  await c.get('repos').sessions.revoke(c.get('session').id);
+  return c.json({ success: true });
+});
+
+app.post('/api/auth/logout-all', requireAuth, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const revoked = await repos.sessions.revokeAllForUser(user.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'sessions.revoked',
+    targetType: 'account',
+    after: { revoked },
+  });
+  return c.json({ success: true, revoked });
 });
 
 app.get('/api/auth/me', requireAuth, async (c) => {
-  return c.json({ user: serializeUser(c.get('user')!) });
+  return c.json({ user: serializeUser(c.get('user')) });
 });
 
 app.get('/api/public/streamers/:slug', async (c) => {
   const slug = c.req.param('slug');
   const repos = c.get('repos');
   const streamer = await repos.users.findBySlug(slug);
-  if (!streamer) {
+  if (!streamer || streamer.role === 'moderator') {
     return c.json({ error: 'Streamer not found' }, 404);
   }
   return c.json({ streamer: serializeUser(streamer) });
@@ -134,12 +428,83 @@ app.get('/api/overlay/feed', async (c) => {
   if (!streamer) {
     return c.json({ error: 'Unknown overlay token' }, 404);
   }
-  await removeExpiredForStreamer(c.env, repos, streamer.id);
+  const removed = await removeExpiredForStreamer(c.env, repos, streamer.id);
+  const version = removed > 0 ? await repos.users.getFeedVersion(streamer.id) : streamer.feed_version;
+  const etag = `W/"feed-${version}"`;
+  c.header('ETag', etag);
+  c.header('Cache-Control', 'no-cache');
+  if (c.req.header('if-none-match') === etag) {
+    return c.body(null, 304);
+  }
+  if (c.req.query('since') === String(version)) {
+    return c.json({ version, unchanged: true });
+  }
   const submissions = (await repos.submissions.listActiveForOverlay(streamer.id)).map(serializeSubmission);
-  return c.json({ streamer: serializeUser(streamer), submissions });
+  return c.json({ version, streamer: serializeUser(streamer), submissions });
 });
 
-const SUPPORTED_FILE_TYPES = new Set(['image/gif', 'image/png', 'image/jpeg', 'image/jpg']);
+app.get('/api/overlay/stream', async (c) => {
+  const token = c.req.query('token');
+  if (!token) {
+    return c.json({ error: 'Missing token' }, 400);
+  }
+  const repos = c.get('repos');
+  const streamer = await repos.users.findByOverlayToken(token);
+  if (!streamer) {
+    return c.json({ error: 'Unknown overlay token' }, 404);
+  }
+  await repos.overlayEvents.pruneBefore(streamer.id, new Date(Date.now() - OVERLAY_EVENT_RETENTION_MS).toISOString());
+  // EventSource sends Last-Event-ID when it reconnects, so resume from there instead of skipping events.
+  const resumeFrom = Number(c.req.header('last-event-id'));
+  const resumed = Number.isInteger(resumeFrom) && resumeFrom > 0;
+  let cursor = resumed ? resumeFrom : await repos.overlayEvents.latestId(streamer.id);
+
+  return streamSSE(c, async (stream) => {
+    let seenVersion = streamer.feed_version;
+    await stream.writeSSE({
+      event: 'ready',
+      data: JSON.stringify({ cursor, version: seenVersion }),
+      id: String(cursor),
+      retry: 3000,
+    });
+    const startedAt = Date.now();
+    let lastSweep = startedAt;
+    let lastWrite = startedAt;
+    let pollMs = OVERLAY_STREAM_POLL_MS;
+    // A resumed stream may have missed events, so read them once before trusting the version.
+    let recheck = resumed;
+    // Workers cannot hold a connection forever; the client reconnects with Last-Event-ID once we close.
+    while (!stream.aborted && Date.now() - startedAt < OVERLAY_STREAM_MAX_MS) {
+      if (Date.now() - lastSweep >= OVERLAY_STREAM_EXPIRY_SWEEP_MS) {
+        await removeExpiredForStreamer(c.env, repos, streamer.id);
+        lastSweep = Date.now();
+      }
+      // Every change an overlay hears about bumps feed_version, so one indexed read answers "anything new?"
+      const version = await repos.users.getFeedVersion(streamer.id);
+      if (version !== seenVersion || recheck) {
+        const events = await repos.overlayEvents.listAfter(streamer.id, cursor);
+        for (const event of events) {
+          await stream.writeSSE({ event: event.type, data: event.payload ?? 'null', id: String(event.id) });
+          cursor = event.id;
+          lastWrite = Date.now();
+        }
+        // The event row is written just after the version bump; look once more so a change is never skipped.
+        recheck = version !== seenVersion || events.length > 0;
+        seenVersion = version;
+        pollMs = OVERLAY_STREAM_POLL_MS;
+      } else {
+        pollMs = Math.min(pollMs * 2, OVERLAY_STREAM_IDLE_POLL_MS);
+      }
+      if (Date.now() - lastWrite >= OVERLAY_STREAM_KEEPALIVE_MS) {
+        await stream.write(': keepalive\n\n');
+        lastWrite = Date.now();
+      }
+      await stream.sleep(pollMs);
+    }
+  });
+});
+
+const SUPPORTED_FILE_TYPES = new Set(['image/gif', 'image/png', 'image/apng', 'image/webp', 'image/jpeg', 'image/jpg']);
 const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
 
 app.post('/api/submissions/public', async (c) => {
@@ -157,23 +522,52 @@ app.post('/api/submissions/public', async (c) => {
     return c.json({ error: 'Media file is required.' }, 400);
   }
   if (!SUPPORTED_FILE_TYPES.has(file.type)) {
-    return c.json({ error: 'Only GIF, PNG, or JPEG uploads are supported right now.' }, 400);
+    return c.json({ error: 'Only GIF, PNG, APNG, WebP or JPEG uploads are supported right now.' }, 400);
   }
   if (file.size > MAX_UPLOAD_BYTES) {
     return c.json({ error: 'File exceeds the 4MB limit.' }, 400);
   }
   const repos = c.get('repos');
   const streamer = await repos.users.findBySlug(payload.data.slug);
-  if (!streamer) {
+  if (!streamer || streamer.role === 'moderator') {
     return c.json({ error: 'Streamer not found' }, 404);
   }
 
+  const rateLimits = ensureSettings(streamer.settings).rateLimits;
+  const windowMs = rateLimits.windowMinutes * 60 * 1000;
+  const throttle = await consumeRateLimits(c.env, [
+    { key: `submit:${streamer.id}:ip:${clientIp(c.req.raw.headers)}`, limit: rateLimits.perIp, windowMs },
+    {
+      key: `submit:${streamer.id}:name:${payload.data.uploaderName.trim().toLowerCase()}`,
+      limit: rateLimits.perUploader,
+      windowMs,
+    },
+  ]);
+  if (!throttle.allowed) {
+    c.header('Retry-After', String(throttle.retryAfterSeconds));
+    return c.json(
+      { error: 'Too many submissions. Please wait before sending another.', retryAfter: throttle.retryAfterSeconds },
+      429,
+    );
+  }
+
+  const blocklist = await repos.blocklist.listForStreamer(streamer.id);
+  const blockedBy = findBlocklistMatch(blocklist, payload.data);
+  if (blockedBy) {
+    return blockedSubmissionResponse(c, repos, streamer, payload.data.uploaderName, blockedBy);
+  }
+
   try {
     console.info('[submission] uploading to R2', {
       slug: streamer.slug,
       file: { name: file.name, size: file.size, type: file.type },
     });
-    const stored = await saveSubmissionFileToR2(c.env, file, streamer.slug);
+    const stored = await saveSubmissionFileToR2(
+      c.env,
+      file,
+      streamer.slug,
+      ensureSettings(streamer.settings).mediaPolicy,
+    );
 
     if (stored.sanitizationWarnings && stored.sanitizationWarnings.length > 0) {
       console.info('[submission] Sanitization warnings', {
@@ -182,7 +576,42 @@ app.post('/api/submissions/public', async (c) => {
         warnings: stored.sanitizationWarnings,
       });
     }
-    
+
+    const blockedFile = findBlocklistMatch(blocklist, { ...payload.data, contentHash: stored.fingerprint.contentHash });
+    if (blockedFile) {
+      try {
+        await deleteSubmissionFileFromR2(c.env, stored.key);
+      } catch (error) {
+        console.warn('Failed to delete R2 file for blocked submission', error);
+      }
+      return blockedSubmissionResponse(c, repos, streamer, payload.data.uploaderName, blockedFile);
+    }
+
+    const duplicateHandling = ensureSettings(streamer.settings).duplicateHandling;
+    const original =
+      duplicateHandling === 'allow' ? undefined : await findDuplicateSubmission(repos, streamer.id, stored.fingerprint);
+    if (original) {
+      try {
+        await deleteSubmissionFileFromR2(c.env, stored.key);
+      } catch (error) {
+        console.warn('Failed to delete R2 file for duplicate submission', error);
+      }
+      if (duplicateHandling === 'reject') {
+        return c.json({ error: 'This one has already been sent to the streamer.' }, 409);
+      }
+      await repos.submissions.incrementDuplicateCount(original.id);
+      await recordAudit(repos, {
+        streamerId: streamer.id,
+        actorId: null,
+        actorName: payload.data.uploaderName,
+        action: 'submission.merged',
+        targetType: 'submission',
+        targetId: original.id,
+        after: { duplicateCount: original.duplicate_count + 1 },
+      });
+      return c.json({ merged: true, duplicateOf: original.id });
+    }
+
     const submission = await repos.submissions.create({
       streamerId: streamer.id,
       uploaderName: payload.data.uploaderName,
@@ -191,39 +620,67 @@ app.post('/api/submissions/public', async (c) => {
       fileUrl: stored.url,
       fileName: file.name,
       fileSize: file.size,
-      expiresInHours: 12,
+      contentHash: stored.fingerprint.contentHash,
+      perceptualHash: stored.fingerprint.perceptualHash,
+      expiresInHours: ensureSettings(streamer.settings).submissionLimits.pendingExpiryHours,
+    });
+
+    await recordAudit(repos, {
+      streamerId: streamer.id,
+      actorId: null,
+      actorName: payload.data.uploaderName,
+      action: 'submission.created',
+      targetType: 'submission',
+      targetId: submission.id,
+      after: serializeSubmission(submission),
     });
 
     await enforceSubmissionCap(c.env, repos, streamer.id);
+    runAfterResponse(c, storeSubmissionPreviews(c.env, repos, submission));
 
     return c.json({ submission: serializeSubmission(submission) }, 201);
   } catch (error) {
+    if (error instanceof MediaPolicyError || error instanceof MediaTypeError || error instanceof MediaSanitizeError) {
+      return c.json({ error: error.message, code: error.code }, 400);
+    }
     console.error('[submission] Unexpected failure while uploading', error);
-    return c.json({ error: 'Unable to save submission', details: (error as Error).message }, 500);
+    return c.json({ error: 'Unable to save submission' }, 500);
   }
 });
 
 app.get('/api/submissions/pending', requireAuth, async (c) => {
-  const user = c.get('user')!;
+  const user = c.get('user');
   const repos = c.get('repos');
-  const submissions = (await repos.submissions.listByStatus(user.id, 'pending')).map(serializeSubmission);
+  const streamerId = c.req.query('streamerId') ?? user.id;
+  if (!(await canModerate(repos, user, streamerId, 'view'))) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+  const submissions = (await repos.submissions.listByStatus(streamerId, 'pending')).map(serializeSubmission);
   return c.json({ submissions });
 });
 
 app.get('/api/submissions/approved', requireAuth, async (c) => {
-  const user = c.get('user')!;
+  const user = c.get('user');
   const repos = c.get('repos');
-  const submissions = (await repos.submissions.listByStatus(user.id, 'approved')).map(serializeSubmission);
-  return c.json({ submissions });
+  const streamerId = c.req.query('streamerId') ?? user.id;
+  if (!(await canModerate(repos, user, streamerId, 'view'))) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+  const submissions = (await repos.submissions.listByStatus(streamerId, 'approved')).map(serializeSubmission);
+  const streamer = streamerId === user.id ? user : await repos.users.findById(streamerId);
+  return c.json({ submissions, stage: overlayStageSettings(streamer) });
 });
 
-const deleteSubmissionFiles = async (env: AppBindings, keys: string | string[]) => {
-  try {
-    await deleteSubmissionFileFromR2(env, keys);
-  } catch (error) {
-    console.warn('Failed to delete R2 file', error);
+app.get('/api/submissions/trash', requireAuth, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const streamerId = c.req.query('streamerId') ?? user.id;
+  if (!(await canModerate(repos, user, streamerId, 'view'))) {
+    return c.json({ error: 'Forbidden' }, 403);
   }
-};
+  const submissions = (await repos.submissions.listTrashed(streamerId)).map(serializeSubmission);
+  return c.json({ submissions });
+});
 
 app.post('/api/submissions/:id/review', requireAuth, async (c) => {
   const payload = z.object({ action: z.enum(['approve', 'deny']) }).safeParse(await c.req.json());
@@ -232,36 +689,280 @@ app.post('/api/submissions/:id/review', requireAuth, async (c) => {
   }
   const repos = c.get('repos');
   const submission = await repos.submissions.findById(c.req.param('id'));
-  const user = c.get('user')!;
-  if (!submission || submission.streamer_id !== user.id) {
+  const user = c.get('user');
+  if (!submission || submission.trashed_at || !(await canModerate(repos, user, submission.streamer_id, 'review'))) {
     return c.json({ error: 'Submission not found' }, 404);
   }
-  await repos.submissions.updateStatus(submission.id, payload.data.action === 'approve' ? 'approved' : 'denied');
-  if (payload.data.action === 'deny') {
-    await deleteSubmissionFiles(c.env, submission.file_key);
+  if (payload.data.action === 'approve') {
+    // Approved items get their own lifetime, counted from the moment they go live.
+    const streamer = await repos.users.findById(submission.streamer_id);
+    const hours = ensureSettings(streamer?.settings).submissionLimits.approvedExpiryHours;
+    await repos.submissions.updateStatus(
+      submission.id,
+      'approved',
+      new Date(Date.now() + hours * 60 * 60 * 1000).toISOString(),
+    );
+  } else {
+    await repos.submissions.updateStatus(submission.id, 'denied');
+    // Keep the file around so the denial can be undone; the purge pass removes it later.
+    await repos.submissions.trash(submission.id, await trashPurgeAt(repos, submission.streamer_id));
+  }
+  const updated = await repos.submissions.findById(submission.id);
+  if (!updated) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: submission.streamer_id,
+    ...auditActor(user),
+    action: payload.data.action === 'approve' ? 'submission.approved' : 'submission.denied',
+    targetType: 'submission',
+    targetId: submission.id,
+    before: serializeSubmission(submission),
+    after: serializeSubmission(updated),
+  });
+  if (payload.data.action === 'approve') {
+    await publishOverlayEvent(repos, submission.streamer_id, 'submission.approved', serializeSubmission(updated));
+  } else {
+    await publishOverlayEvent(repos, submission.streamer_id, 'submission.removed', { ids: [submission.id] });
+  }
+  return c.json({ submission: serializeSubmission(updated) });
+});
+
+app.put('/api/submissions/:id/layout', requireAuth, async (c) => {
+  const payload = z
+    .object({ layout: submissionLayoutSchema.nullable() })
+    .safeParse(await c.req.json().catch(() => null));
+  if (!payload.success) {
+    return c.json({ error: 'Invalid payload', details: payload.error.format() }, 400);
+  }
+  const repos = c.get('repos');
+  const submission = await repos.submissions.findById(c.req.param('id'));
+  const user = c.get('user');
+  if (
+    !submission ||
+    submission.trashed_at ||
+    submission.status !== 'approved' ||
+    !(await canModerate(repos, user, submission.streamer_id, 'review'))
+  ) {
+    return c.json({ error: 'Submission not found' }, 404);
   }
+  await repos.submissions.updateLayout({ id: submission.id, layout: payload.data.layout });
   const updated = await repos.submissions.findById(submission.id);
-  return c.json({ submission: serializeSubmission(updated!) });
+  if (!updated) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: submission.streamer_id,
+    ...auditActor(user),
+    action: 'submission.arranged',
+    targetType: 'submission',
+    targetId: submission.id,
+    before: { layout: serializeSubmission(submission).layout },
+    after: { layout: serializeSubmission(updated).layout },
+  });
+  await publishOverlayEvent(repos, submission.streamer_id, 'submission.updated', serializeSubmission(updated));
+  return c.json({ submission: serializeSubmission(updated) });
 });
 
 app.delete('/api/submissions/:id', requireAuth, async (c) => {
   const repos = c.get('repos');
   const submission = await repos.submissions.findById(c.req.param('id'));
-  const user = c.get('user')!;
-  if (!submission || submission.streamer_id !== user.id) {
+  const user = c.get('user');
+  if (!submission || submission.trashed_at || !(await canModerate(repos, user, submission.streamer_id, 'delete'))) {
     return c.json({ error: 'Submission not found' }, 404);
   }
-  try {
-    await deleteSubmissionFileFromR2(c.env, submission.file_key);
-  } catch (error) {
-    // ignore best-effort cleanup
+  await repos.submissions.trash(submission.id, await trashPurgeAt(repos, submission.streamer_id));
+  await recordAudit(repos, {
+    streamerId: submission.streamer_id,
+    ...auditActor(user),
+    action: 'submission.deleted',
+    targetType: 'submission',
+    targetId: submission.id,
+    before: serializeSubmission(submission),
+  });
+  await publishOverlayEvent(repos, submission.streamer_id, 'submission.removed', { ids: [submission.id] });
+  return c.body(null, 204);
+});
+
+app.post('/api/submissions/:id/restore', requireAuth, async (c) => {
+  const repos = c.get('repos');
+  const submission = await repos.submissions.findById(c.req.param('id'));
+  const user = c.get('user');
+  // Undoing a denial needs the same permission as denying; undoing a delete the same as deleting.
+  const permission = submission?.status === 'denied' ? 'review' : 'delete';
+  if (!submission || !(await canModerate(repos, user, submission.streamer_id, permission))) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  if (!submission.trashed_at) {
+    return c.json({ error: 'Submission is not in the trash' }, 409);
   }
-  await repos.submissions.delete(submission.id);
+  await repos.submissions.restore(submission.id);
+  if (submission.status === 'denied') {
+    await repos.submissions.updateStatus(submission.id, 'pending');
+  }
+  const updated = await repos.submissions.findById(submission.id);
+  if (!updated) {
+    return c.json({ error: 'Submission not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: submission.streamer_id,
+    ...auditActor(user),
+    action: 'submission.restored',
+    targetType: 'submission',
+    targetId: submission.id,
+    before: serializeSubmission(submission),
+    after: serializeSubmission(updated),
+  });
+  if (updated.status === 'approved') {
+    await publishOverlayEvent(repos, submission.streamer_id, 'submission.approved', serializeSubmission(updated));
+  }
+  // Trashed rows sit outside the cap, so bringing one back can take the queue over it.
+  await enforceSubmissionCap(c.env, repos, submission.streamer_id);
+  return c.json({ submission: serializeSubmission(updated) });
+});
+
+app.get('/api/members', requireAuth, requireStreamerAccount, async (c) => {
+  const user = c.get('user');
+  const members = (await c.get('repos').members.listForStreamer(user.id)).map(serializeMember);
+  return c.json({ members });
+});
+
+app.post('/api/members/invites', requireAuth, requireStreamerAccount, async (c) => {
+  const result = z.object({ permissions: memberPermissionsSchema }).safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const invite = await repos.members.createInvite({
+    streamerId: user.id,
+    inviteCode: createInviteCode(),
+    permissions: normalizePermissions(result.data.permissions),
+  });
+  const member = (await repos.members.listForStreamer(user.id)).find((entry) => entry.id === invite.id);
+  if (!member) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'member.invited',
+    targetType: 'member',
+    targetId: invite.id,
+    after: { permissions: serializeMember(member).permissions },
+  });
+  return c.json({ member: serializeMember(member) }, 201);
+});
+
+app.put('/api/members/:id', requireAuth, requireStreamerAccount, async (c) => {
+  const result = z.object({ permissions: memberPermissionsSchema }).safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const member = await repos.members.findById(c.req.param('id'));
+  if (!member || member.streamer_id !== user.id) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+  await repos.members.updatePermissions(member.id, normalizePermissions(result.data.permissions));
+  const updated = (await repos.members.listForStreamer(user.id)).find((entry) => entry.id === member.id);
+  if (!updated) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'member.updated',
+    targetType: 'member',
+    targetId: member.id,
+    before: { permissions: parsePermissions(member.permissions) },
+    after: { permissions: serializeMember(updated).permissions },
+  });
+  return c.json({ member: serializeMember(updated) });
+});
+
+app.delete('/api/members/:id', requireAuth, requireStreamerAccount, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const member = await repos.members.findById(c.req.param('id'));
+  if (!member || member.streamer_id !== user.id) {
+    return c.json({ error: 'Member not found' }, 404);
+  }
+  await repos.members.delete(member.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'member.removed',
+    targetType: 'member',
+    targetId: member.id,
+    before: { userId: member.user_id, permissions: parsePermissions(member.permissions) },
+  });
+  return c.body(null, 204);
+});
+
+app.get('/api/memberships', requireAuth, async (c) => {
+  const user = c.get('user');
+  const memberships = (await c.get('repos').members.listForUser(user.id)).map(serializeMembership);
+  return c.json({ memberships });
+});
+
+app.post('/api/memberships/accept', requireAuth, async (c) => {
+  const result = z.object({ inviteCode: inviteCodeSchema }).safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const invite = await repos.members.findByInviteCode(result.data.inviteCode);
+  if (!invite) {
+    return c.json({ error: 'Invite not found or already used' }, 404);
+  }
+  if (invite.streamer_id === user.id) {
+    return c.json({ error: 'You cannot moderate your own channel' }, 400);
+  }
+  if (await repos.members.findMembership(invite.streamer_id, user.id)) {
+    return c.json({ error: 'You already moderate this channel' }, 409);
+  }
+  if (!(await repos.members.accept(invite.id, user.id))) {
+    return c.json({ error: 'Invite not found or already used' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: invite.streamer_id,
+    ...auditActor(user),
+    action: 'member.joined',
+    targetType: 'member',
+    targetId: invite.id,
+    after: { userId: user.id, permissions: parsePermissions(invite.permissions) },
+  });
+  const membership = (await repos.members.listForUser(user.id)).find((entry) => entry.id === invite.id);
+  if (!membership) {
+    return c.json({ error: 'Membership not found' }, 404);
+  }
+  return c.json({ membership: serializeMembership(membership) });
+});
+
+app.delete('/api/memberships/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const membership = await repos.members.findById(c.req.param('id'));
+  if (!membership || membership.user_id !== user.id) {
+    return c.json({ error: 'Membership not found' }, 404);
+  }
+  await repos.members.delete(membership.id);
+  await recordAudit(repos, {
+    streamerId: membership.streamer_id,
+    ...auditActor(user),
+    action: 'member.left',
+    targetType: 'member',
+    targetId: membership.id,
+    before: { userId: user.id, permissions: parsePermissions(membership.permissions) },
+  });
   return c.body(null, 204);
 });
 
 app.get('/api/settings', requireAuth, async (c) => {
-  return c.json({ user: serializeUser(c.get('user')!) });
+  return c.json({ user: serializeUser(c.get('user')) });
 });
 
 app.put('/api/settings/safe-zone', requireAuth, async (c) => {
@@ -269,23 +970,27 @@ app.put('/api/settings/safe-zone', requireAuth, async (c) => {
   if (!result.success) {
     return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
   }
-  const user = c.get('user')!;
-  const settings = ensureSettings(user.settings);
+  const user = c.get('user');
   const zones = result.data.zones ?? (result.data.zone ? [result.data.zone] : []);
-  settings.safeZones[result.data.resolution] = {
-    zones,
-    size: result.data.size,
-    enabled: result.data.enabled ?? true,
+  const safeZones = {
+    ...ensureSettings(user.settings).safeZones,
+    [result.data.resolution]: { zones, size: result.data.size, enabled: result.data.enabled ?? true },
   };
-  await c.get('repos').users.updateSettings(user.id, settings);
-  const updated = await c.get('repos').users.findById(user.id);
-  return c.json({ user: serializeUser(updated!) });
+  return applySettingsChange(c, user, { safeZones });
 });
 
 app.post('/api/settings/overlay-token/rotate', requireAuth, async (c) => {
-  const user = c.get('user')!;
+  const user = c.get('user');
   const newToken = createOverlayToken();
   await c.get('repos').users.updateOverlayToken(user.id, newToken);
+  // Never store the token itself; knowing it was rotated is enough.
+  await recordAudit(c.get('repos'), {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'overlay_token.rotated',
+    targetType: 'overlay_token',
+  });
+  await publishOverlayEvent(c.get('repos'), user.id, 'overlay.revoked');
   return c.json({ token: newToken });
 });
 
@@ -294,12 +999,7 @@ app.put('/api/settings/show-safe-zone', requireAuth, async (c) => {
   if (!result.success) {
     return c.json({ error: 'Invalid payload' }, 400);
   }
-  const user = c.get('user')!;
-  const settings = ensureSettings(user.settings);
-  settings.showSafeZoneOverlay = result.data.show;
-  await c.get('repos').users.updateSettings(user.id, settings);
-  const updated = await c.get('repos').users.findById(user.id);
-  return c.json({ user: serializeUser(updated!) });
+  return applySettingsChange(c, c.get('user'), { showSafeZoneOverlay: result.data.show });
 });
 
 app.put('/api/settings/rotation', requireAuth, async (c) => {
@@ -307,12 +1007,186 @@ app.put('/api/settings/rotation', requireAuth, async (c) => {
   if (!result.success) {
     return c.json({ error: 'Invalid payload' }, 400);
   }
-  const user = c.get('user')!;
-  const settings = ensureSettings(user.settings);
-  settings.rotationEnabled = result.data.enabled;
-  await c.get('repos').users.updateSettings(user.id, settings);
-  const updated = await c.get('repos').users.findById(user.id);
-  return c.json({ user: serializeUser(updated!) });
+  return applySettingsChange(c, c.get('user'), { rotationEnabled: result.data.enabled });
+});
+
+app.put('/api/settings/animation', requireAuth, async (c) => {
+  const result = z
+    .object({
+      enter: z.enum(ANIMATION_VARIANTS),
+      exit: z.enum(ANIMATION_VARIANTS),
+      easing: z.enum(ANIMATION_EASINGS),
+      durationMs: z.number().int().min(ANIMATION_DURATION_BOUNDS.min).max(ANIMATION_DURATION_BOUNDS.max),
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { animation: result.data });
+});
+
+app.put('/api/settings/display-mode', requireAuth, async (c) => {
+  const bounded = (key: keyof typeof DISPLAY_MODE_BOUNDS) =>
+    z.number().int().min(DISPLAY_MODE_BOUNDS[key].min).max(DISPLAY_MODE_BOUNDS[key].max);
+  const result = z
+    .object({
+      mode: z.enum(DISPLAY_MODES),
+      spotlight: z.object({
+        secondsPerItem: bounded('secondsPerItem'),
+        showCaptions: z.boolean(),
+      }),
+      ticker: z.object({
+        edge: z.enum(TICKER_EDGES),
+        itemSize: bounded('itemSize'),
+        speed: bounded('speed'),
+      }),
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { displayMode: result.data });
+});
+
+app.put('/api/settings/captions', requireAuth, async (c) => {
+  const result = z
+    .object({
+      enabled: z.boolean(),
+      font: z.enum(CAPTION_FONTS),
+      fontSize: z.number().int().min(CAPTION_BOUNDS.fontSize.min).max(CAPTION_BOUNDS.fontSize.max),
+      color: z.string().regex(CAPTION_COLOR_PATTERN, 'Colour must be a #rrggbb hex value'),
+      position: z.enum(CAPTION_POSITIONS),
+      maxLength: z.number().int().min(CAPTION_BOUNDS.maxLength.min).max(CAPTION_BOUNDS.maxLength.max),
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  const captions = { ...result.data, color: result.data.color.toLowerCase() };
+  return applySettingsChange(c, c.get('user'), { captions });
+});
+
+app.put('/api/settings/trash-retention', requireAuth, async (c) => {
+  const result = z
+    .object({ minutes: z.number().int().min(1).max(MAX_TRASH_RETENTION_MINUTES) })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { trashRetentionMinutes: result.data.minutes });
+});
+
+app.put('/api/settings/submission-limits', requireAuth, async (c) => {
+  const hoursSchema = z.number().int().min(1).max(MAX_SUBMISSION_EXPIRY_HOURS);
+  const result = z
+    .object({
+      pendingExpiryHours: hoursSchema,
+      approvedExpiryHours: hoursSchema,
+      maxSubmissions: z.number().int().min(1).max(MAX_SUBMISSIONS_CAP),
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { submissionLimits: result.data });
+});
+
+app.put('/api/settings/rate-limits', requireAuth, async (c) => {
+  const requestsSchema = z.number().int().min(1).max(MAX_RATE_LIMIT_REQUESTS);
+  const result = z
+    .object({
+      windowMinutes: z.number().int().min(1).max(MAX_RATE_LIMIT_WINDOW_MINUTES),
+      perIp: requestsSchema,
+      perUploader: requestsSchema,
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { rateLimits: result.data });
+});
+
+app.put('/api/settings/duplicates', requireAuth, async (c) => {
+  const result = z.object({ mode: z.enum(['merge', 'reject', 'allow']) }).safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { duplicateHandling: result.data.mode });
+});
+
+app.get('/api/settings/blocklist', requireAuth, async (c) => {
+  const user = c.get('user');
+  const entries = (await c.get('repos').blocklist.listForStreamer(user.id)).map(serializeBlocklistEntry);
+  return c.json({ entries, mode: ensureSettings(user.settings).blocklistMode });
+});
+
+app.post('/api/settings/blocklist', requireAuth, async (c) => {
+  const result = blocklistEntrySchema.safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const entry = await repos.blocklist.create({
+    streamerId: user.id,
+    kind: result.data.kind,
+    value: normalizeBlocklistValue(result.data.kind, result.data.value),
+  });
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'blocklist.added',
+    targetType: 'blocklist_entry',
+    targetId: entry.id,
+    after: serializeBlocklistEntry(entry),
+  });
+  return c.json({ entry: serializeBlocklistEntry(entry) }, 201);
+});
+
+app.put('/api/settings/blocklist/mode', requireAuth, async (c) => {
+  const result = z.object({ mode: z.enum(['silent', 'reject']) }).safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { blocklistMode: result.data.mode });
+});
+
+app.delete('/api/settings/blocklist/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const entry = await repos.blocklist.findById(c.req.param('id'));
+  if (!entry || entry.streamer_id !== user.id) {
+    return c.json({ error: 'Blocklist entry not found' }, 404);
+  }
+  await repos.blocklist.delete(entry.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'blocklist.removed',
+    targetType: 'blocklist_entry',
+    targetId: entry.id,
+    before: serializeBlocklistEntry(entry),
+  });
+  return c.body(null, 204);
+});
+
+app.put('/api/settings/media-policy', requireAuth, async (c) => {
+  const bounded = (key: keyof typeof MEDIA_POLICY_BOUNDS) =>
+    z.number().int().min(MEDIA_POLICY_BOUNDS[key].min).max(MEDIA_POLICY_BOUNDS[key].max);
+  const result = z
+    .object({
+      maxFrames: bounded('maxFrames'),
+      maxDurationSeconds: bounded('maxDurationSeconds'),
+      maxWidth: bounded('maxWidth'),
+      maxHeight: bounded('maxHeight'),
+      allowStillImages: z.boolean(),
+      limitStillSize: z.boolean().default(false),
+    })
+    .safeParse(await c.req.json());
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
+  }
+  return applySettingsChange(c, c.get('user'), { mediaPolicy: result.data });
 });
 
 app.put('/api/settings/resolution', requireAuth, async (c) => {
@@ -333,32 +1207,36 @@ app.put('/api/settings/resolution', requireAuth, async (c) => {
   if (result.data.resolution === 'custom' && !result.data.customSize) {
     return c.json({ error: 'Custom size required for custom resolution' }, 400);
   }
-  const user = c.get('user')!;
-  const settings = ensureSettings(user.settings);
-  settings.preferredResolution = result.data.resolution;
-  if (result.data.resolution === 'custom') {
-    settings.customResolution = result.data.customSize!;
-  } else {
-    delete settings.customResolution;
-  }
-  await c.get('repos').users.updateSettings(user.id, settings);
-  const updated = await c.get('repos').users.findById(user.id);
-  return c.json({ user: serializeUser(updated!) });
+  return applySettingsChange(c, c.get('user'), {
+    preferredResolution: result.data.resolution,
+    customResolution: result.data.resolution === 'custom' ? result.data.customSize : undefined,
+  });
 });
 
 app.put('/api/settings/profile', requireAuth, async (c) => {
   const result = z
     .object({
-      displayName: z.string().min(2).max(64).transform(sanitizeDisplayName).refine(val => val.length >= 2, 'Display name too short after sanitization'),
-      slug: z.string().min(3).max(40).regex(/^[a-z0-9-]+$/, 'Lowercase letters, numbers, hyphen').transform(sanitizeSlug).refine(val => val.length >= 3, 'Slug too short after sanitization'),
+      displayName: z
+        .string()
+        .min(2)
+        .max(64)
+        .transform(sanitizeDisplayName)
+        .refine((val) => val.length >= 2, 'Display name too short after sanitization'),
+      slug: z
+        .string()
+        .min(3)
+        .max(40)
+        .regex(/^[a-z0-9-]+$/, 'Lowercase letters, numbers, hyphen')
+        .transform(sanitizeSlug)
+        .refine((val) => val.length >= 3, 'Slug too short after sanitization'),
     })
     .safeParse(await c.req.json());
   if (!result.success) {
     return c.json({ error: 'Invalid payload', details: result.error.format() }, 400);
   }
-  const user = c.get('user')!;
+  const user = c.get('user');
   const repos = c.get('repos');
-  
+
   // Check if slug is being changed and if new slug is available
   if (result.data.slug !== user.slug) {
     const existing = await repos.users.findBySlug(result.data.slug);
@@ -366,46 +1244,223 @@ app.put('/api/settings/profile', requireAuth, async (c) => {
       return c.json({ error: 'Slug already in use' }, 409);
     }
   }
-  
+
   await repos.users.updateProfile(user.id, result.data.displayName, result.data.slug);
   const updated = await repos.users.findById(user.id);
-  return c.json({ user: serializeUser(updated!) });
+  if (!updated) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'profile.updated',
+    targetType: 'profile',
+    before: { displayName: user.display_name, slug: user.slug },
+    after: { displayName: updated.display_name, slug: updated.slug },
+  });
+  await publishOverlayEvent(repos, user.id, 'streamer.updated', serializeUser(updated));
+  return c.json({ user: serializeUser(updated) });
 });
 
 app.put('/api/settings/password', requireAuth, async (c) => {
   const result = z
     .object({
       currentPassword: z.string().transform(sanitizeText),
-      newPassword: z.string().min(8).max(128).transform(sanitizeText).refine(val => validateNoSqlInjection(val), 'Invalid password format'),
+      newPassword: z
+        .string()
+        .min(8)
+        .max(128)
+        .transform(sanitizeText)
+        .refine((val) => validateNoSqlInjection(val), 'Invalid password format'),
     })
     .safeParse(await c.req.json());
   if (!result.success) {
     return c.json({ error: 'Invalid payload' }, 400);
   }
-  const user = c.get('user')!;
-  
+  const user = c.get('user');
+
   // Verify current password
   const valid = await verifyPassword(user.password_hash, result.data.currentPassword);
   if (!valid) {
     return c.json({ error: 'Current password is incorrect' }, 401);
   }
-  
+
   // Update password
   const newHash = await hashPassword(result.data.newPassword);
-  await c.get('repos').users.updatePassword(user.id, newHash);
-  
+  const repos = c.get('repos');
+  await repos.users.updatePassword(user.id, newHash);
+  // Everyone else holding this account is signed out; the browser that changed it stays in
+  const revokedSessions = await repos.sessions.revokeAllForUser(user.id, c.get('session').id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'password.changed',
+    targetType: 'account',
+    after: { revokedSessions },
+  });
+
+  return c.json({ success: true, revokedSessions });
+});
+
+app.get('/api/settings/sessions', requireAuth, async (c) => {
+  const user = c.get('user');
+  const currentId = c.get('session').id;
+  const sessions = await c.get('repos').sessions.listActiveForUser(user.id);
+  return c.json({ sessions: sessions.map((session) => serializeSession(session, currentId)) });
+});
+
+app.delete('/api/settings/sessions/:id', requireAuth, async (c) => {
+  const user = c.get('user');
+  const repos = c.get('repos');
+  const session = await repos.sessions.findById(c.req.param('id'));
+  if (!session || session.user_id !== user.id) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+  await repos.sessions.revoke(session.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'sessions.revoked',
+    targetType: 'session',
+    targetId: session.id,
+    before: serializeSession(session),
+  });
   return c.json({ success: true });
 });
 
+app.get('/api/settings/two-factor', requireAuth, async (c) => {
+  return c.json({ twoFactor: await twoFactorStatus(c.get('repos'), c.get('user')) });
+});
+
+app.post('/api/settings/two-factor/setup', requireAuth, async (c) => {
+  const user = c.get('user');
+  if (user.totp_secret) {
+    return c.json({ error: 'Two-factor authentication is already enabled' }, 409);
+  }
+  // Starting again replaces any unconfirmed secret from an earlier attempt
+  const secret = generateTotpSecret();
+  await c.get('repos').users.setPendingTotpSecret(user.id, secret);
+  return c.json({ secret, otpauthUrl: totpProvisioningUri(secret, user.slug) });
+});
+
+app.post('/api/settings/two-factor/confirm', requireAuth, async (c) => {
+  const result = z.object({ code: twoFactorCodeSchema }).safeParse(await c.req.json().catch(() => null));
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const user = c.get('user');
+  if (user.totp_secret) {
+    return c.json({ error: 'Two-factor authentication is already enabled' }, 409);
+  }
+  if (!user.totp_pending_secret) {
+    return c.json({ error: 'Start two-factor setup first' }, 400);
+  }
+  const step = await verifyTotp(user.totp_pending_secret, result.data.code, null);
+  if (step === null) {
+    return c.json({ error: 'That code does not match. Check the time on your device and try again.' }, 400);
+  }
+  const repos = c.get('repos');
+  await repos.users.enableTotp(user.id, step);
+  const recoveryCodes = await issueRecoveryCodes(repos, user.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'two_factor.enabled',
+    targetType: 'account',
+  });
+  const updated = await repos.users.findById(user.id);
+  if (!updated) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+  return c.json({ recoveryCodes, twoFactor: await twoFactorStatus(repos, updated) });
+});
+
+app.post('/api/settings/two-factor/recovery-codes', requireAuth, async (c) => {
+  const result = z
+    .object({ currentPassword: z.string().transform(sanitizeText) })
+    .safeParse(await c.req.json().catch(() => null));
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const user = c.get('user');
+  if (!user.totp_secret) {
+    return c.json({ error: 'Two-factor authentication is not enabled' }, 400);
+  }
+  if (!(await verifyPassword(user.password_hash, result.data.currentPassword))) {
+    return c.json({ error: 'Current password is incorrect' }, 401);
+  }
+  const repos = c.get('repos');
+  const recoveryCodes = await issueRecoveryCodes(repos, user.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'two_factor.recovery_codes_regenerated',
+    targetType: 'account',
+  });
+  return c.json({ recoveryCodes, twoFactor: await twoFactorStatus(repos, user) });
+});
+
+app.post('/api/settings/two-factor/disable', requireAuth, async (c) => {
+  const result = z
+    .object({ currentPassword: z.string().transform(sanitizeText) })
+    .safeParse(await c.req.json().catch(() => null));
+  if (!result.success) {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+  const user = c.get('user');
+  if (!user.totp_secret) {
+    return c.json({ error: 'Two-factor authentication is not enabled' }, 400);
+  }
+  if (!(await verifyPassword(user.password_hash, result.data.currentPassword))) {
+    return c.json({ error: 'Current password is incorrect' }, 401);
+  }
+  const repos = c.get('repos');
+  await repos.users.disableTotp(user.id);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: 'two_factor.disabled',
+    targetType: 'account',
+  });
+  return c.json({ twoFactor: { enabled: false, enabledAt: null, recoveryCodesRemaining: 0 } });
+});
+
+app.get('/api/audit', requireAuth, requireStreamerAccount, async (c) => {
+  const user = c.get('user');
+  const requestedLimit = Number(c.req.query('limit') ?? AUDIT_PAGE_SIZE);
+  const limit = Number.isInteger(requestedLimit)
+    ? Math.min(Math.max(requestedLimit, 1), AUDIT_MAX_PAGE_SIZE)
+    : AUDIT_PAGE_SIZE;
+  const rawCursor = c.req.query('cursor');
+  const cursor = rawCursor ? decodeAuditCursor(rawCursor) : undefined;
+  if (rawCursor && !cursor) {
+    return c.json({ error: 'Invalid cursor' }, 400);
+  }
+  // Fetch one extra row to know whether another page exists.
+  const rows = await c.get('repos').audit.listForStreamer(user.id, limit + 1, cursor);
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeAuditCursor(page[page.length - 1]) : null;
+  return c.json({ events: page.map(serializeAuditEvent), nextCursor });
+});
+
+// Manual trigger for the scheduled cleanup, e.g. against wrangler's local D1/R2.
+// Disabled unless CLEANUP_SECRET is configured.
+app.post('/api/admin/cleanup', async (c) => {
+  const secret = c.env.CLEANUP_SECRET;
+  if (!secret || !secretsMatch(secret, c.req.header('x-cleanup-secret') ?? '')) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+  const report = await runCleanup(c.env);
+  console.info('[cleanup] Manual sweep finished', report);
+  return c.json({ report });
+});
+
 app.onError((err, c) => {
   console.error(err);
   return c.json({ error: 'Unexpected server error' }, 500);
 });
 
-async function requireAuth(
-  c: Context<{ Bindings: AppBindings; Variables: AppVariables }>,
-  next: Next,
-) {
+async function requireAuth(c: Context<AuthedEnv>, next: Next) {
   const header = c.req.header('authorization');
   if (!header) {
     return c.json({ error: 'Missing Authorization header' }, 401);
@@ -413,43 +1468,323 @@ async function requireAuth(
   const token = header.replace(/Bearer\s+/i, '').trim();
   try {
     const payload = await verifyAccessToken(c.env, token);
-    const user = await c.get('repos').users.findById(payload.userId);
+    const repos = c.get('repos');
+    const session = await repos.sessions.findById(payload.sid);
+    if (!session || session.revoked_at || session.user_id !== payload.userId) {
+      return c.json({ error: 'Session revoked' }, 401);
+    }
+    const user = await repos.users.findById(payload.userId);
     if (!user) {
       return c.json({ error: 'Unknown user' }, 401);
     }
+    if (Date.now() - Date.parse(session.last_seen_at ?? session.created_at) > SESSION_TOUCH_INTERVAL_MS) {
+      await touchSession(c, session);
+    }
     c.set('user', user);
+    c.set('session', session);
     await next();
   } catch (error) {
     return c.json({ error: 'Invalid token' }, 401);
   }
 }
 
+async function startSession(c: Context<{ Bindings: AppBindings; Variables: AppVariables }>, user: UserRow) {
+  const secret = createRefreshSecret();
+  const session = await c.get('repos').sessions.create({
+    userId: user.id,
+    refreshHash: await hashRefreshSecret(secret),
+    expiresAt: sessionExpiresAt(c.env),
+    ...sessionClientInfo(c),
+  });
+  return {
+    token: await generateAccessToken(c.env, user, session.id),
+    refreshToken: `${session.id}.${secret}`,
+  };
+}
+
+function twoFactorLockedResponse(c: Context<{ Bindings: AppBindings; Variables: AppVariables }>, lockedUntil: number) {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000));
+  c.header('Retry-After', String(retryAfter));
+  return c.json({ error: 'Too many incorrect codes. Please wait before trying again.', retryAfter }, 429);
+}
+
+/** Accepts a current TOTP code or an unused recovery code; either is spent on success. */
+async function verifySecondFactor(repos: Repositories, user: UserRow, code: string) {
+  if (!user.totp_secret) {
+    return false;
+  }
+  if (/^\d{6}$/.test(code.replace(/\s+/g, ''))) {
+    const step = await verifyTotp(user.totp_secret, code, user.totp_last_step);
+    return step !== null && (await repos.users.claimTotpStep(user.id, step));
+  }
+  return repos.recoveryCodes.consume(user.id, await hashRecoveryCode(code));
+}
+
+async function issueRecoveryCodes(repos: Repositories, userId: string) {
+  const codes = generateRecoveryCodes();
+  await repos.recoveryCodes.replaceForUser(userId, await Promise.all(codes.map(hashRecoveryCode)));
+  return codes;
+}
+
+async function twoFactorStatus(repos: Repositories, user: UserRow) {
+  return {
+    enabled: Boolean(user.totp_secret),
+    enabledAt: user.totp_enabled_at,
+    recoveryCodesRemaining: user.totp_secret ? await repos.recoveryCodes.countUnused(user.id) : 0,
+  };
+}
+
+async function touchSession(c: Context<AuthedEnv>, session: SessionRow) {
+  try {
+    const client = sessionClientInfo(c);
+    await c.get('repos').sessions.touch(session.id, client.userAgent, client.locationHint);
+  } catch (error) {
+    console.warn('Failed to update session last seen time', { sessionId: session.id, error });
+  }
+}
+
+/** What the sessions list shows to help a streamer recognise a browser; never the full IP. */
+function sessionClientInfo(c: Context) {
+  const userAgent = c.req.header('user-agent')?.slice(0, MAX_SESSION_USER_AGENT_LENGTH) ?? null;
+  const cf = (c.req.raw as { cf?: { city?: string; country?: string } }).cf;
+  const place = [cf?.city, cf?.country].filter(Boolean).join(', ');
+  return { userAgent, locationHint: place || maskIp(clientIp(c.req.raw.headers)) };
+}
+
+function maskIp(ip: string) {
+  if (ip.includes(':')) {
+    return `${ip.split(':').slice(0, 3).join(':')}::/48`;
+  }
+  const octets = ip.split('.');
+  return octets.length === 4 ? `${octets.slice(0, 3).join('.')}.x` : null;
+}
+
+async function requireStreamerAccount(c: Context<{ Bindings: AppBindings; Variables: AppVariables }>, next: Next) {
+  if (c.get('user')?.role === 'moderator') {
+    return c.json({ error: 'Only streamer accounts can manage moderators' }, 403);
+  }
+  await next();
+}
+
+/**
+ * Streamers can do anything with their own queue; everyone else needs an
+ * accepted membership carrying the permission.
+ */
+async function canModerate(repos: Repositories, user: UserRow, streamerId: string, permission: MemberPermission) {
+  if (streamerId === user.id) {
+    return true;
+  }
+  return memberHasPermission(await repos.members.findMembership(streamerId, user.id), permission);
+}
+
+/**
+ * Silent mode answers exactly like an accepted upload so repeat trolls cannot
+ * tell they are blocked; reject mode says so.
+ */
+async function blockedSubmissionResponse(
+  c: Context<{ Bindings: AppBindings; Variables: AppVariables }>,
+  repos: Repositories,
+  streamer: UserRow,
+  uploaderName: string,
+  entry: BlocklistEntryRow,
+) {
+  await recordAudit(repos, {
+    streamerId: streamer.id,
+    actorId: null,
+    actorName: uploaderName,
+    action: 'submission.blocked',
+    targetType: 'blocklist_entry',
+    targetId: entry.id,
+    after: { kind: entry.kind },
+  });
+  if (ensureSettings(streamer.settings).blocklistMode === 'reject') {
+    return c.json({ error: 'You are not allowed to submit to this streamer.' }, 403);
+  }
+  return c.json({ submission: null }, 201);
+}
+
+/** Exact byte matches win; otherwise the closest perceptual match within the threshold. */
+async function findDuplicateSubmission(repos: Repositories, streamerId: string, fingerprint: MediaFingerprint) {
+  const candidates = await repos.submissions.listFingerprinted(streamerId);
+  const exact = candidates.find((candidate) => candidate.content_hash === fingerprint.contentHash);
+  if (exact || !fingerprint.perceptualHash) {
+    return exact;
+  }
+  let closest: { submission: SubmissionRow; distance: number } | undefined;
+  for (const candidate of candidates) {
+    if (!candidate.perceptual_hash) continue;
+    const distance = hammingDistance(candidate.perceptual_hash, fingerprint.perceptualHash);
+    if (distance <= PERCEPTUAL_DUPLICATE_DISTANCE && (!closest || distance < closest.distance)) {
+      closest = { submission: candidate, distance };
+    }
+  }
+  return closest?.submission;
+}
+
+/**
+ * Keeps background work alive past the response. Outside the Workers runtime,
+ * e.g. when the app is driven in-process through app.fetch(request, env),
+ * there is no execution context and the already-running task is left to settle.
+ */
+function runAfterResponse(c: Context<{ Bindings: AppBindings; Variables: AppVariables }>, task: Promise<unknown>) {
+  try {
+    c.executionCtx.waitUntil(task);
+  } catch {
+    void task;
+  }
+}
+
+/** Runs after the response; the dashboard falls back to the original until previews exist. */
+async function storeSubmissionPreviews(env: AppBindings, repos: Repositories, submission: SubmissionRow) {
+  try {
+    const keys = await generateSubmissionPreviews(env, submission);
+    if (keys) {
+      await repos.submissions.setPreviewKeys(submission.id, keys);
+    }
+  } catch (error) {
+    console.warn('Failed to generate submission previews', { submissionId: submission.id, error });
+  }
+}
+
+async function trashPurgeAt(repos: Repositories, streamerId: string) {
+  const streamer = await repos.users.findById(streamerId);
+  const minutes = ensureSettings(streamer?.settings).trashRetentionMinutes;
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
 async function removeExpiredForStreamer(env: AppBindings, repos: Repositories, streamerId: string) {
   const expired = await repos.submissions.listExpired(streamerId);
   if (expired.length === 0) {
-    return;
+    return 0;
   }
   try {
-    await deleteSubmissionFileFromR2(env, expired.map((submission) => submission.file_key));
+    await deleteSubmissionFileFromR2(env, submissionObjectKeys(expired));
   } catch (error) {
     console.warn('Failed to delete expired R2 files', error);
   }
   await repos.submissions.deleteMany(expired.map((submission) => submission.id));
+  await publishOverlayEvent(repos, streamerId, 'submission.removed', {
+    ids: expired.map((submission) => submission.id),
+  });
+  return expired.length;
 }
 
 async function enforceSubmissionCap(env: AppBindings, repos: Repositories, streamerId: string) {
-  const excess = await repos.submissions.oldestBeyondLimit(streamerId, MAX_SUBMISSIONS_PER_STREAMER);
+  const streamer = await repos.users.findById(streamerId);
+  const limit = ensureSettings(streamer?.settings).submissionLimits.maxSubmissions;
+  const excess = await repos.submissions.oldestBeyondLimit(streamerId, limit);
   if (excess.length === 0) {
     return;
   }
   try {
-    await deleteSubmissionFileFromR2(env, excess.map((submission) => submission.file_key));
+    await deleteSubmissionFileFromR2(env, submissionObjectKeys(excess));
   } catch (error) {
     console.warn('Failed to delete R2 files while enforcing submission cap', error);
   }
   await repos.submissions.deleteMany(excess.map((submission) => submission.id));
+  await publishOverlayEvent(repos, streamerId, 'submission.removed', {
+    ids: excess.map((submission) => submission.id),
+  });
+}
+
+async function recordAudit(repos: Repositories, input: CreateAuditEventInput) {
+  try {
+    await repos.audit.create(input);
+  } catch (error) {
+    console.warn('Failed to record audit event', { action: input.action, error });
+  }
+}
+
+function auditActor(user: UserRow) {
+  return { actorId: user.id, actorName: user.display_name };
+}
+
+// Settings only moderation reads; changing them leaves the overlay alone.
+const MODERATION_ONLY_SETTINGS: ReadonlySet<keyof SettingsShape> = new Set([
+  'trashRetentionMinutes',
+  'submissionLimits',
+  'rateLimits',
+  'duplicateHandling',
+  'blocklistMode',
+  'mediaPolicy',
+]);
+
+/**
+ * Saves a settings change for the signed-in streamer, audits it and, when the
+ * overlay shows any of it, tells open overlays. Answers with the updated user.
+ */
+async function applySettingsChange(
+  c: Context<AuthedEnv>,
+  user: UserRow,
+  patch: Partial<SettingsShape>,
+  auditAction: AuditAction = 'settings.updated',
+) {
+  const repos = c.get('repos');
+  const before = ensureSettings(user.settings);
+  const after = { ...before, ...patch };
+  await repos.users.updateSettings(user.id, after);
+  await recordAudit(repos, {
+    streamerId: user.id,
+    ...auditActor(user),
+    action: auditAction,
+    targetType: 'settings',
+    before,
+    after,
+  });
+  if (patch.submissionLimits) {
+    // A lower cap applies right away rather than on the next submission.
+    await enforceSubmissionCap(c.env, repos, user.id);
+  }
+  const updated = await repos.users.findById(user.id);
+  if (!updated) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+  const patchedKeys = Object.keys(patch) as (keyof SettingsShape)[];
+  if (patchedKeys.some((key) => !MODERATION_ONLY_SETTINGS.has(key))) {
+    await publishOverlayEvent(repos, user.id, 'streamer.updated', serializeUser(updated));
+  }
+  return c.json({ user: serializeUser(updated) });
+}
+
+function encodeAuditCursor(event: AuditEventRow) {
+  return btoa(`${event.created_at}|${event.id}`);
+}
+
+function decodeAuditCursor(cursor: string): AuditCursor | undefined {
+  try {
+    const [createdAt, id] = atob(cursor).split('|');
+    return createdAt && id ? { createdAt, id } : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * What the layout editor needs to draw the overlay canvas. Moderators see
+ * this subset only; the rest of the channel settings stay with the owner.
+ */
+function overlayStageSettings(streamer: UserRow | undefined) {
+  const settings = ensureSettings(streamer?.settings);
+  return {
+    preferredResolution: settings.preferredResolution,
+    customResolution: settings.customResolution,
+    safeZones: settings.safeZones,
+    rotationEnabled: settings.rotationEnabled,
+  };
+}
+
+async function publishOverlayEvent(repos: Repositories, streamerId: string, type: OverlayEventType, payload?: unknown) {
+  try {
+    await repos.overlayEvents.create({ streamerId, type, payload });
+  } catch (error) {
+    // Overlays fall back to polling the feed, so a missed event only delays the update.
+    console.warn('Failed to publish overlay event', { type, error });
+  }
 }
 
 export const onRequest: PagesFunction<AppBindings> = (context) => {
   return app.fetch(context.request, context.env, context);
 };
+
+/** The Hono app itself, so it can be booted in-process with stand-in D1 and R2 bindings. */
+export { app };
@@ -0,0 +1,144 @@
+import type { BlocklistEntryRow, BlocklistKind } from './types';
+
+export const BLOCKLIST_KINDS: BlocklistKind[] = ['name', 'name_pattern', 'word', 'file_hash'];
+export const MAX_BLOCKLIST_PATTERN_LENGTH = 100;
+// Each variable-length quantifier multiplies the ways a name can be split up, so
+// `a*a*a*a*a*a*a*a*b` already takes seconds on a 40 character name
+const MAX_VARIABLE_QUANTIFIERS = 2;
+
+export type BlocklistSubject = {
+  uploaderName: string;
+  message?: string;
+  contentHash?: string;
+};
+
+/**
+ * Rejects patterns that do not compile or that can backtrack exponentially.
+ * Length alone does not make a pattern safe (`(a+)+$` is six characters), so
+ * repeated groups that themselves repeat or alternate, and backreferences, are
+ * refused outright, and so is a chain of more than two variable-length
+ * quantifiers. What is left runs in at most cubic time over uploader names,
+ * which the submission schema caps at 64 characters.
+ */
+export function isValidBlocklistPattern(pattern: string) {
+  if (pattern.length > MAX_BLOCKLIST_PATTERN_LENGTH || !isLinearPattern(pattern)) {
+    return false;
+  }
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Walks the pattern tracking, per open group, whether anything inside it
+ * repeats or alternates; such a group may not be repeated itself. It also
+ * counts the quantifiers that match a variable length (`*`, `+`, `?`, `{n,m}`).
+ */
+function isLinearPattern(pattern: string) {
+  const groups: boolean[] = [];
+  let inClass = false;
+  let variableQuantifiers = 0;
+  let quantifierEnd = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (!inClass && (/[1-9]/.test(next) || next === 'k')) {
+        return false;
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the (?:, (?=, (?<name> prefixes so their ? is not read as a quantifier
+      if (pattern[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const inner = groups.pop() ?? false;
+      const repeated = /[*+{]/.test(pattern[i + 1] ?? '');
+      if (inner && repeated) {
+        return false;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] ||= inner || repeated;
+      }
+    } else if (char === '|') {
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ('*+?{'.includes(char)) {
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      // A ? straight after another quantifier only makes that one lazy
+      if (char === '?' && quantifierEnd === i - 1) {
+        continue;
+      }
+      const range = char === '{' ? /^\{\d+(,\d*)?\}/.exec(pattern.slice(i)) : null;
+      if (char === '{' && !range) {
+        continue;
+      }
+      quantifierEnd = range ? i + range[0].length - 1 : i;
+      const variable = !range || range[1] !== undefined;
+      if (variable && ++variableQuantifiers > MAX_VARIABLE_QUANTIFIERS) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/** Normalizes a value the same way it will be compared, so duplicates collapse on insert. */
+export function normalizeBlocklistValue(kind: BlocklistKind, value: string) {
+  const trimmed = value.trim();
+  return kind === 'name_pattern' ? trimmed : trimmed.toLowerCase();
+}
+
+/**
+ * Returns the first entry matching the submission. File hashes are only
+ * checked once the upload has been fingerprinted, so callers run this twice.
+ */
+export function findBlocklistMatch(entries: BlocklistEntryRow[], subject: BlocklistSubject) {
+  const name = subject.uploaderName.trim().toLowerCase();
+  const message = subject.message?.toLowerCase() ?? '';
+  return entries.find((entry) => {
+    switch (entry.kind) {
+      case 'name':
+        return entry.value === name;
+      case 'name_pattern':
+        return isValidBlocklistPattern(entry.value) && new RegExp(entry.value, 'i').test(subject.uploaderName);
+      case 'word':
+        return message.length > 0 && containsWord(message, entry.value);
+      case 'file_hash':
+        return subject.contentHash !== undefined && entry.value === subject.contentHash.toLowerCase();
+      default:
+        return false;
+    }
+  });
+}
+
+function containsWord(text: string, word: string) {
+  let index = text.indexOf(word);
+  while (index !== -1) {
+    const before = index === 0 ? '' : text[index - 1];
+    const after = text[index + word.length] ?? '';
+    if (!isWordCharacter(before) && !isWordCharacter(after)) {
+      return true;
+    }
+    index = text.indexOf(word, index + 1);
+  }
+  return false;
+}
+
+function isWordCharacter(char: string) {
+  return char !== '' && /[\p{L}\p{N}_]/u.test(char);
+}
@@ -0,0 +1,79 @@
+import { pruneRateLimits } from './rateLimit';
+import { createRepositories } from './repositories';
+import { deleteSubmissionFileFromR2, submissionObjectKeys } from './storage';
+import type { GifstremBindings } from './types';
+
+const CLEANUP_BATCH_SIZE = 100;
+// Keeps a single run well inside the Workers CPU budget; the next run picks up the rest.
+const CLEANUP_MAX_BATCHES = 20;
+
+export type CleanupReport = {
+  batches: number;
+  deleted: number;
+  streamers: number;
+  failed: boolean;
+  hasMore: boolean;
+};
+
+/**
+ * Removes expired submissions and trash past its purge time for every
+ * streamer, deleting the R2 objects before the rows. Overlays are told about
+ * the removals through the usual overlay events. Closed rate limit windows
+ * are dropped on the way out.
+ */
+export async function runCleanup(
+  env: GifstremBindings,
+  options: { batchSize?: number; maxBatches?: number } = {},
+): Promise<CleanupReport> {
+  const repos = createRepositories(env);
+  const batchSize = options.batchSize ?? CLEANUP_BATCH_SIZE;
+  const maxBatches = options.maxBatches ?? CLEANUP_MAX_BATCHES;
+  const streamers = new Set<string>();
+  const report: CleanupReport = { batches: 0, deleted: 0, streamers: 0, failed: false, hasMore: false };
+
+  while (report.batches < maxBatches) {
+    const batch = await repos.submissions.listExpiredBatch(batchSize);
+    if (batch.length === 0) {
+      break;
+    }
+    try {
+      await deleteSubmissionFileFromR2(env, submissionObjectKeys(batch));
+    } catch (error) {
+      // Leave the rows in place so the files are retried on the next run instead of leaking.
+      console.error('[cleanup] Failed to delete R2 files', error);
+      report.failed = true;
+      break;
+    }
+    await repos.submissions.deleteMany(batch.map((submission) => submission.id));
+    report.batches += 1;
+    report.deleted += batch.length;
+
+    const removedByStreamer = new Map<string, string[]>();
+    for (const submission of batch) {
+      const ids = removedByStreamer.get(submission.streamer_id) ?? [];
+      ids.push(submission.id);
+      removedByStreamer.set(submission.streamer_id, ids);
+    }
+    for (const [streamerId, ids] of removedByStreamer) {
+      streamers.add(streamerId);
+      try {
+        await repos.overlayEvents.create({ streamerId, type: 'submission.removed', payload: { ids } });
+      } catch (error) {
+        console.warn('[cleanup] Failed to publish overlay event', { streamerId, error });
+      }
+    }
+
+    if (batch.length < batchSize) {
+      break;
+    }
+    report.hasMore = report.batches >= maxBatches;
+  }
+
+  report.streamers = streamers.size;
+  try {
+    await pruneRateLimits(env);
+  } catch (error) {
+    console.warn('[cleanup] Failed to prune rate limit counters', error);
+  }
+  return report;
+}
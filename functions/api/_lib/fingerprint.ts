@@ -0,0 +1,154 @@
+import { decompressFrame, parseGIF } from 'gifuct-js';
+import { openPng } from './pngDecode';
+
+export type MediaFingerprint = {
+  /** SHA-256 of the stored bytes, hex encoded. */
+  contentHash: string;
+  /** 64-bit difference hash of the first frame, hex encoded; null when the format cannot be decoded here. */
+  perceptualHash: string | null;
+};
+
+/** Box sums over the dHash grid, fed one row of luma at a time so no full-size image is ever held. */
+type HashGrid = {
+  addRow(y: number, luma: Float32Array): void;
+  hash(): string;
+};
+
+// dHash compares each cell with its right neighbour, so it samples one extra column.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// PNGs are decoded a row at a time, so only the inflate stream and two rows are in memory.
+const MAX_PNG_DECODE_PIXELS = 16 * 1024 * 1024;
+// gifuct-js hands back the whole first frame as an index array; keep that to a few megabytes.
+const MAX_GIF_DECODE_PIXELS = 4 * 1024 * 1024;
+
+export async function fingerprintMedia(data: Uint8Array, contentType: string): Promise<MediaFingerprint> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  let perceptualHash: string | null = null;
+  try {
+    perceptualHash =
+      contentType === 'image/gif' ? hashGifFirstFrame(data) : contentType === 'image/png' ? await hashPng(data) : null;
+  } catch (error) {
+    console.warn('[fingerprint] Unable to decode first frame', { contentType, error });
+  }
+  return { contentHash: toHex(new Uint8Array(digest)), perceptualHash };
+}
+
+/** Number of differing bits between two hex-encoded hashes of equal length. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Number.POSITIVE_INFINITY;
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = Number.parseInt(a[i], 16) ^ Number.parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+function createHashGrid(width: number, height: number): HashGrid {
+  // Box-average each cell so scaled or re-encoded copies land on the same values.
+  const span = (index: number, cells: number, size: number) => {
+    const from = Math.floor((index * size) / cells);
+    return [from, Math.max(from + 1, Math.floor(((index + 1) * size) / cells))];
+  };
+  const columns = Array.from({ length: HASH_WIDTH }, (_, cx) => span(cx, HASH_WIDTH, width));
+  const rows = Array.from({ length: HASH_HEIGHT }, (_, cy) => span(cy, HASH_HEIGHT, height));
+  const sums = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  return {
+    addRow(y, luma) {
+      for (let cy = 0; cy < HASH_HEIGHT; cy++) {
+        const [y0, y1] = rows[cy];
+        if (y < y0 || y >= y1) continue;
+        for (let cx = 0; cx < HASH_WIDTH; cx++) {
+          const [x0, x1] = columns[cx];
+          let sum = 0;
+          for (let x = x0; x < x1; x++) {
+            sum += luma[x];
+          }
+          sums[cy * HASH_WIDTH + cx] += sum;
+        }
+      }
+    },
+    hash() {
+      const cells = new Float32Array(HASH_WIDTH * HASH_HEIGHT);
+      for (let cy = 0; cy < HASH_HEIGHT; cy++) {
+        for (let cx = 0; cx < HASH_WIDTH; cx++) {
+          const [y0, y1] = rows[cy];
+          const [x0, x1] = columns[cx];
+          cells[cy * HASH_WIDTH + cx] = sums[cy * HASH_WIDTH + cx] / ((y1 - y0) * (x1 - x0));
+        }
+      }
+      let hex = '';
+      for (let cy = 0; cy < HASH_HEIGHT; cy++) {
+        let byte = 0;
+        for (let cx = 0; cx < HASH_WIDTH - 1; cx++) {
+          byte = (byte << 1) | (cells[cy * HASH_WIDTH + cx] < cells[cy * HASH_WIDTH + cx + 1] ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+      }
+      return hex;
+    },
+  };
+}
+
+function hashGifFirstFrame(data: Uint8Array): string | null {
+  const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const gif = parseGIF(buffer);
+  const frame = gif.frames.find((entry) => 'image' in entry);
+  const { width, height } = gif.lsd;
+  if (!frame || !('image' in frame) || width * height === 0 || width * height > MAX_GIF_DECODE_PIXELS) {
+    return null;
+  }
+  // Colour indices only; the RGBA patch would be four times the size.
+  const { dims, pixels, colorTable, transparentIndex } = decompressFrame(frame, gif.gct, false);
+  const grid = createHashGrid(width, height);
+  // The first frame may only cover part of the canvas; the rest stays black.
+  const luma = new Float32Array(width);
+  for (let canvasY = 0; canvasY < height; canvasY++) {
+    luma.fill(0);
+    const y = canvasY - dims.top;
+    if (y >= 0 && y < dims.height) {
+      for (let x = 0; x < dims.width; x++) {
+        const canvasX = dims.left + x;
+        if (canvasX < 0 || canvasX >= width) continue;
+        const index = pixels[y * dims.width + x];
+        const color = colorTable[index];
+        if (index === transparentIndex || !color) continue;
+        luma[canvasX] = toLuma(color[0], color[1], color[2]);
+      }
+    }
+    grid.addRow(canvasY, luma);
+  }
+  return grid.hash();
+}
+
+async function hashPng(data: Uint8Array): Promise<string | null> {
+  const png = openPng(data, MAX_PNG_DECODE_PIXELS);
+  if (!png) {
+    return null;
+  }
+  const grid = createHashGrid(png.width, png.height);
+  const luma = new Float32Array(png.width);
+  let y = 0;
+  for await (const row of png.rows()) {
+    for (let x = 0; x < png.width; x++) {
+      const p = x * 4;
+      luma[x] = toLuma(row[p], row[p + 1], row[p + 2]) * (row[p + 3] / 255);
+    }
+    grid.addRow(y++, luma);
+  }
+  return y === png.height ? grid.hash() : null;
+}
+
+function toLuma(r: number, g: number, b: number) {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,30 @@
+declare module 'gif-encoder-2' {
+  type Algorithm = 'neuquant' | 'octree';
+
+  type ImageDataSource = {
+    getImageData(x: number, y: number, width: number, height: number): { data: Uint8ClampedArray };
+  };
+
+  type ByteArray = {
+    getData(): Uint8Array;
+  };
+
+  class GIFEncoder {
+    constructor(width: number, height: number, algorithm?: Algorithm, useOptimizer?: boolean, totalFrames?: number);
+    readonly out: ByteArray;
+    start(): void;
+    /** RGBA pixels covering the whole canvas, or a 2D context to read them from. */
+    addFrame(input: Uint8ClampedArray | Uint8Array | ImageDataSource): void;
+    finish(): void;
+    setDelay(ms: number): void;
+    setFrameRate(fps: number): void;
+    setDispose(code: number): void;
+    setRepeat(repeat: number): void;
+    setTransparent(color: number): void;
+    setQuality(quality: number): void;
+    setThreshold(threshold: number): void;
+    setPaletteSize(size: number): void;
+  }
+
+  export default GIFEncoder;
+}
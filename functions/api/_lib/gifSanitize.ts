@@ -8,12 +8,12 @@
  */
 const GIF_HEADER_87A = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x37, 0x61]); // "GIF87a"
 const GIF_HEADER_89A = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // "GIF89a"
-const GIF_TRAILER = 0x3B; // Trailer byte that marks end of GIF
+const GIF_TRAILER = 0x3b; // Trailer byte that marks end of GIF
 const EXTENSION_INTRODUCER = 0x21;
-const IMAGE_SEPARATOR = 0x2C;
-const GRAPHIC_CONTROL_LABEL = 0xF9;
-const COMMENT_LABEL = 0xFE;
-const APPLICATION_LABEL = 0xFF;
+const IMAGE_SEPARATOR = 0x2c;
+const GRAPHIC_CONTROL_LABEL = 0xf9;
+const COMMENT_LABEL = 0xfe;
+const APPLICATION_LABEL = 0xff;
 const PLAIN_TEXT_LABEL = 0x01;
 
 export type GifSanitizationResult = {
@@ -64,7 +64,7 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
   if (position + 7 > data.length) {
     throw new Error('Invalid GIF: Incomplete Logical Screen Descriptor');
   }
-  
+
   for (let i = 0; i < 7; i++) {
     result.push(data[position++]);
   }
@@ -72,7 +72,7 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
   // Check for Global Color Table
   const packed = data[10];
   const hasGlobalColorTable = (packed & 0x80) !== 0;
-  const globalColorTableSize = hasGlobalColorTable ? 3 * Math.pow(2, (packed & 0x07) + 1) : 0;
+  const globalColorTableSize = hasGlobalColorTable ? 3 * 2 ** ((packed & 0x07) + 1) : 0;
 
   // Copy Global Color Table if present
   if (globalColorTableSize > 0) {
@@ -95,7 +95,7 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
       // Found trailer - end of GIF
       result.push(data[position++]);
       hasTrailer = true;
-      
+
       // Check for data after trailer (potential steganography)
       if (position < data.length) {
         const extraBytes = data.length - position;
@@ -111,34 +111,37 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
       }
 
       const label = data[position++];
-      
+
       if (label === GRAPHIC_CONTROL_LABEL) {
         // Graphic Control Extension - keep it (needed for animations)
         result.push(EXTENSION_INTRODUCER);
         result.push(label);
+        if (position >= data.length) throw new Error('Invalid GIF: Incomplete graphic control block');
         const blockSize = data[position++];
         result.push(blockSize);
-        
+
         for (let i = 0; i < blockSize; i++) {
           if (position >= data.length) throw new Error('Invalid GIF: Incomplete graphic control block');
           result.push(data[position++]);
         }
-        
+
         // Block terminator
         if (position >= data.length) throw new Error('Invalid GIF: Missing block terminator');
         result.push(data[position++]);
-        
       } else if (label === APPLICATION_LABEL) {
         // Application Extension - only keep NETSCAPE2.0 (for looping)
         const startPos = position - 2;
+        if (position >= data.length) throw new Error('Invalid GIF: Incomplete application extension');
         const blockSize = data[position++];
+        if (position + blockSize > data.length) throw new Error('Invalid GIF: Incomplete application extension');
         const appData = data.slice(position, position + blockSize);
-        
+
         // Check if it's NETSCAPE2.0
         const netscapeId = 'NETSCAPE2.0';
-        const isNetscape = appData.length >= netscapeId.length && 
+        const isNetscape =
+          appData.length >= netscapeId.length &&
           String.fromCharCode(...appData.slice(0, netscapeId.length)) === netscapeId;
-        
+
         if (isNetscape) {
           // Keep Netscape extension for animation looping
           result.push(EXTENSION_INTRODUCER);
@@ -158,7 +161,6 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
           removedBytes += removed;
           warnings.push(`Removed ${removed} bytes of application extension data`);
         }
-        
       } else if (label === COMMENT_LABEL) {
         // Comment Extension - remove it (can contain metadata or malicious content)
         const startPos = position - 2;
@@ -166,17 +168,17 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
         const removed = position - startPos;
         removedBytes += removed;
         warnings.push(`Removed ${removed} bytes of comment data`);
-        
       } else if (label === PLAIN_TEXT_LABEL) {
         // Plain Text Extension - remove it (rarely used, potential attack vector)
         const startPos = position - 2;
+        if (position >= data.length) throw new Error('Invalid GIF: Incomplete plain text extension');
         const blockSize = data[position++];
         position += blockSize;
+        if (position > data.length) throw new Error('Invalid GIF: Incomplete plain text extension');
         position = skipDataSubBlocks(data, position);
         const removed = position - startPos;
         removedBytes += removed;
         warnings.push(`Removed ${removed} bytes of plain text extension`);
-        
       } else {
         // Unknown extension - remove it to be safe
         const startPos = position - 2;
@@ -185,26 +187,25 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
         removedBytes += removed;
         warnings.push(`Removed ${removed} bytes of unknown extension (label: 0x${label.toString(16)})`);
       }
-      
     } else if (byte === IMAGE_SEPARATOR) {
       // Image Descriptor
       frameCount++;
       result.push(data[position++]);
-      
+
       // Copy Image Descriptor (9 bytes)
       if (position + 9 > data.length) {
         throw new Error('Invalid GIF: Incomplete image descriptor');
       }
-      
+
       for (let i = 0; i < 9; i++) {
         result.push(data[position++]);
       }
-      
+
       // Check for Local Color Table
       const localPacked = data[position - 1];
       const hasLocalColorTable = (localPacked & 0x80) !== 0;
-      const localColorTableSize = hasLocalColorTable ? 3 * Math.pow(2, (localPacked & 0x07) + 1) : 0;
-      
+      const localColorTableSize = hasLocalColorTable ? 3 * 2 ** ((localPacked & 0x07) + 1) : 0;
+
       // Copy Local Color Table if present
       if (localColorTableSize > 0) {
         if (position + localColorTableSize > data.length) {
@@ -214,16 +215,15 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
           result.push(data[position++]);
         }
       }
-      
+
       // Copy LZW minimum code size
       if (position >= data.length) {
         throw new Error('Invalid GIF: Missing LZW minimum code size');
       }
       result.push(data[position++]);
-      
+
       // Copy image data sub-blocks
       position = copyDataSubBlocks(data, position, result);
-      
     } else {
       // Unexpected byte - could be corrupted or malicious
       throw new Error(`Invalid GIF structure: Unexpected byte 0x${byte.toString(16)} at position ${position}`);
@@ -257,7 +257,7 @@ export async function sanitizeGif(file: File): Promise<GifSanitizationResult> {
  */
 function isValidGifHeader(data: Uint8Array): boolean {
   if (data.length < 6) return false;
-  
+
   const header = data.slice(0, 6);
   return arraysEqual(header, GIF_HEADER_87A) || arraysEqual(header, GIF_HEADER_89A);
 }
@@ -274,40 +274,43 @@ function arraysEqual(a: Uint8Array, b: Uint8Array): boolean {
 }
 
 /**
- * Skip data sub-blocks (used for removing extensions)
+ * Skip data sub-blocks (used for removing extensions).
+ * Throws when the file ends before the block terminator.
  */
 function skipDataSubBlocks(data: Uint8Array, position: number): number {
   while (position < data.length) {
     const blockSize = data[position++];
-    if (blockSize === 0) break; // Block terminator
+    if (blockSize === 0) return position; // Block terminator
     position += blockSize;
     if (position > data.length) {
       throw new Error('Invalid GIF: Data sub-blocks extend beyond file');
     }
   }
-  return position;
+  throw new Error('Invalid GIF: Missing block terminator');
 }
 
 /**
- * Copy data sub-blocks to result array
+ * Copy data sub-blocks to result array.
+ * Throws when the file ends before the block terminator, so a truncated
+ * frame never becomes an unterminated block in the sanitized output.
  */
 function copyDataSubBlocks(data: Uint8Array, position: number, result: number[]): number {
   while (position < data.length) {
     const blockSize = data[position];
     result.push(blockSize);
     position++;
-    
-    if (blockSize === 0) break; // Block terminator
-    
+
+    if (blockSize === 0) return position; // Block terminator
+
     if (position + blockSize > data.length) {
       throw new Error('Invalid GIF: Data sub-blocks extend beyond file');
     }
-    
+
     for (let i = 0; i < blockSize; i++) {
       result.push(data[position++]);
     }
   }
-  return position;
+  throw new Error('Invalid GIF: Missing block terminator');
 }
 
 /**
@@ -318,11 +321,11 @@ export function validateGifStructure(data: Uint8Array): { valid: boolean; error?
     if (!isValidGifHeader(data)) {
       return { valid: false, error: 'Invalid GIF header' };
     }
-    
+
     if (data.length < 13) {
       return { valid: false, error: 'File too small' };
     }
-    
+
     // Check for trailer
     let hasTrailer = false;
     for (let i = data.length - 1; i >= Math.max(0, data.length - 100); i--) {
@@ -331,51 +334,152 @@ export function validateGifStructure(data: Uint8Array): { valid: boolean; error?
         break;
       }
     }
-    
+
     if (!hasTrailer) {
       return { valid: false, error: 'Missing GIF trailer' };
     }
-    
+
     return { valid: true };
   } catch (error) {
     return { valid: false, error: (error as Error).message };
   }
 }
 
-/**
- * Get basic GIF information without sanitizing
- */
-export function getGifInfo(data: Uint8Array): {
+export type GifInspection = {
   width: number;
   height: number;
   hasGlobalColorTable: boolean;
-  isAnimated: boolean;
-} {
-  if (data.length < 13) {
-    throw new Error('Invalid GIF: File too small');
+  frameCount: number;
+  /** Sum of frame delays, with the 0-1 hundredths delays browsers bump to 100ms. */
+  durationMs: number;
+  /** NETSCAPE2.0 loop count: 0 loops forever, null means the GIF plays once. */
+  loopCount: number | null;
+  maxFrameWidth: number;
+  maxFrameHeight: number;
+};
+
+// Browsers play delays of 0 or 1 hundredths at 100ms, so count them the same way.
+const MIN_EFFECTIVE_DELAY_CS = 2;
+const DEFAULT_DELAY_CS = 10;
+
+/**
+ * Walk every block of a GIF and collect frame count, total duration, loop
+ * count and the largest frame. Throws on truncated or malformed structure.
+ */
+export function inspectGif(data: Uint8Array): GifInspection {
+  if (!isValidGifHeader(data) || data.length < 13) {
+    throw new Error('Invalid GIF: Missing or corrupted GIF header');
   }
-  
-  // Width and height are at bytes 6-9 (little-endian)
+
   const width = data[6] | (data[7] << 8);
   const height = data[8] | (data[9] << 8);
-  
-  // Global Color Table flag in packed field at byte 10
   const packed = data[10];
   const hasGlobalColorTable = (packed & 0x80) !== 0;
-  
-  // Check for multiple frames (simple heuristic: look for multiple image separators)
-  let imageCount = 0;
-  for (let i = 13; i < data.length; i++) {
-    if (data[i] === IMAGE_SEPARATOR) {
-      imageCount++;
-      if (imageCount > 1) break;
+  let position = 13 + (hasGlobalColorTable ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+
+  let frameCount = 0;
+  let durationCs = 0;
+  let pendingDelayCs: number | null = null;
+  let loopCount: number | null = null;
+  let maxFrameWidth = 0;
+  let maxFrameHeight = 0;
+
+  while (position < data.length) {
+    const byte = data[position];
+    if (byte === GIF_TRAILER) {
+      break;
+    }
+    if (byte === EXTENSION_INTRODUCER) {
+      if (position + 2 > data.length) {
+        throw new Error('Invalid GIF: Incomplete extension block');
+      }
+      const label = data[position + 1];
+      if (label === GRAPHIC_CONTROL_LABEL) {
+        if (position + 8 > data.length) {
+          throw new Error('Invalid GIF: Incomplete Graphic Control Extension');
+        }
+        pendingDelayCs = data[position + 4] | (data[position + 5] << 8);
+        position = skipDataSubBlocks(data, position + 2);
+      } else if (label === APPLICATION_LABEL) {
+        loopCount = readNetscapeLoopCount(data, position + 2) ?? loopCount;
+        position = skipDataSubBlocks(data, position + 2);
+      } else {
+        position = skipDataSubBlocks(data, position + 2);
+      }
+    } else if (byte === IMAGE_SEPARATOR) {
+      if (position + 10 > data.length) {
+        throw new Error('Invalid GIF: Incomplete image descriptor');
+      }
+      const frameWidth = data[position + 5] | (data[position + 6] << 8);
+      const frameHeight = data[position + 7] | (data[position + 8] << 8);
+      const framePacked = data[position + 9];
+      position += 10;
+      if ((framePacked & 0x80) !== 0) {
+        position += 3 * 2 ** ((framePacked & 0x07) + 1);
+      }
+      // LZW minimum code size, then the image data sub-blocks
+      position = skipDataSubBlocks(data, position + 1);
+
+      frameCount++;
+      maxFrameWidth = Math.max(maxFrameWidth, frameWidth);
+      maxFrameHeight = Math.max(maxFrameHeight, frameHeight);
+      const delay = pendingDelayCs ?? DEFAULT_DELAY_CS;
+      durationCs += delay < MIN_EFFECTIVE_DELAY_CS ? DEFAULT_DELAY_CS : delay;
+      pendingDelayCs = null;
+    } else {
+      throw new Error(`Invalid GIF: Unknown block type 0x${byte.toString(16)}`);
     }
   }
-  
+
+  if (frameCount === 0) {
+    throw new Error('Invalid GIF: No image frames found');
+  }
+
   return {
     width,
     height,
     hasGlobalColorTable,
-    isAnimated: imageCount > 1,
+    frameCount,
+    durationMs: frameCount > 1 ? durationCs * 10 : 0,
+    loopCount,
+    maxFrameWidth,
+    maxFrameHeight,
+  };
+}
+
+/**
+ * Read the loop count from a NETSCAPE2.0 / ANIMEXTS1.0 application extension
+ * starting at its block size byte, or null for any other application block.
+ */
+function readNetscapeLoopCount(data: Uint8Array, position: number): number | null {
+  if (data[position] !== 11 || position + 16 > data.length) {
+    return null;
+  }
+  const identifier = String.fromCharCode(...data.subarray(position + 1, position + 12));
+  if (identifier !== 'NETSCAPE2.0' && identifier !== 'ANIMEXTS1.0') {
+    return null;
+  }
+  const subBlock = position + 12;
+  if (data[subBlock] !== 3 || data[subBlock + 1] !== 1) {
+    return null;
+  }
+  return data[subBlock + 2] | (data[subBlock + 3] << 8);
+}
+
+/**
+ * Get basic GIF information without sanitizing
+ */
+export function getGifInfo(data: Uint8Array): {
+  width: number;
+  height: number;
+  hasGlobalColorTable: boolean;
+  isAnimated: boolean;
+} {
+  const info = inspectGif(data);
+  return {
+    width: info.width,
+    height: info.height,
+    hasGlobalColorTable: info.hasGlobalColorTable,
+    isAnimated: info.frameCount > 1,
   };
 }
@@ -0,0 +1,63 @@
+/**
+ * Dimension readers for still images. Only headers are parsed; nothing is decoded.
+ */
+
+export type ImageSize = { width: number; height: number };
+
+export function getStillImageSize(data: Uint8Array, contentType: string): ImageSize | null {
+  if (contentType === 'image/png') {
+    return getPngSize(data);
+  }
+  if (contentType === 'image/jpeg' || contentType === 'image/jpg') {
+    return getJpegSize(data);
+  }
+  return null;
+}
+
+function getPngSize(data: Uint8Array): ImageSize | null {
+  // 8-byte signature, then the IHDR chunk: length, "IHDR", width, height
+  if (data.length < 24 || data[12] !== 0x49 || data[13] !== 0x48 || data[14] !== 0x44 || data[15] !== 0x52) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function getJpegSize(data: Uint8Array): ImageSize | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  let position = 2;
+  while (position + 4 <= data.length) {
+    if (data[position] !== 0xff) {
+      return null;
+    }
+    const marker = data[position + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      position += 2;
+      continue;
+    }
+    const length = (data[position + 2] << 8) | data[position + 3];
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      if (position + 9 > data.length) {
+        return null;
+      }
+      return {
+        height: (data[position + 5] << 8) | data[position + 6],
+        width: (data[position + 7] << 8) | data[position + 8],
+      };
+    }
+    if (marker === 0xda || length < 2) {
+      return null;
+    }
+    position += 2 + length;
+  }
+  return null;
+}
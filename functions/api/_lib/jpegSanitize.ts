@@ -0,0 +1,246 @@
+/**
+ * JPEG metadata stripping. Walks the marker segments through to the primary
+ * image's EOI and drops EXIF/XMP (APP1), Photoshop/IPTC (APP13) and comment
+ * segments, plus any images appended after it, so phone photos do not carry
+ * GPS positions or device serials onto a public URL.
+ */
+
+import { MediaSanitizeError } from './sanitizeError';
+
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP13 = 0xed;
+const COM = 0xfe;
+
+const STRIPPED_SEGMENTS = new Map([
+  [APP1, 'APP1 (EXIF/XMP)'],
+  [APP13, 'APP13 (IPTC)'],
+  [COM, 'COM'],
+]);
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const MPF_HEADER = [0x4d, 0x50, 0x46, 0x00]; // "MPF\0"; APP2 also carries ICC profiles, which stay
+const ORIENTATION_TAG = 0x0112;
+
+export type JpegSanitizationResult = {
+  sanitized: Uint8Array;
+  removedBytes: number;
+  warnings: string[];
+};
+
+/**
+ * Validate and sanitize a JPEG.
+ * - Validates the SOI marker and every segment length through the last scan
+ * - Removes APP1, APP13 and COM segments
+ * - Removes the APP2 MPF index along with the secondary images it points at
+ * - Keeps the EXIF orientation as a minimal APP1 so photos are not shown sideways
+ * - Walks the scans to the primary image's EOI and drops everything after it;
+ *   phones append MPF previews there, each a whole JPEG with its own EXIF/GPS
+ */
+export function sanitizeJpeg(data: Uint8Array): JpegSanitizationResult {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== SOI) {
+    throw new MediaSanitizeError('Invalid JPEG: Missing SOI marker');
+  }
+
+  const kept: Uint8Array[] = [data.subarray(0, 2)];
+  const warnings: string[] = [];
+  let removedBytes = 0;
+  let orientation: number | null = null;
+  // The rebuilt orientation segment goes after SOI, or after APP0 so JFIF readers still find it first
+  let orientationIndex = 1;
+  let position = 2;
+
+  while (true) {
+    if (position + 4 > data.length) {
+      throw new MediaSanitizeError('Invalid JPEG: Missing image data');
+    }
+    if (data[position] !== 0xff) {
+      throw new MediaSanitizeError('Invalid JPEG: Expected a marker');
+    }
+    const marker = data[position + 1];
+    // Fill bytes may pad between segments
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === SOS) {
+      break;
+    }
+    const length = (data[position + 2] << 8) | data[position + 3];
+    const end = position + 2 + length;
+    if (length < 2 || end > data.length) {
+      throw new MediaSanitizeError('Invalid JPEG: Segment extends beyond file');
+    }
+
+    const label = strippedSegmentLabel(data, position, end);
+    if (label) {
+      if (marker === APP1 && orientation === null) {
+        orientation = readExifOrientation(data.subarray(position + 4, end));
+      }
+      removedBytes += end - position;
+      warnings.push(`Removed ${label} segment (${length - 2} bytes)`);
+    } else {
+      if (marker === APP0 && kept.length === 1) {
+        orientationIndex = 2;
+      }
+      kept.push(data.subarray(position, end));
+    }
+    position = end;
+  }
+
+  // From the first scan on, walk entropy-coded data and the segments between
+  // progressive scans until the primary image's EOI.
+  let imageEnd: number;
+  let keptFrom = position;
+  while (true) {
+    while (data[position] === 0xff && data[position + 1] === 0xff) {
+      position++;
+    }
+    if (position + 2 > data.length || data[position] !== 0xff) {
+      throw new MediaSanitizeError('Invalid JPEG: Missing EOI marker');
+    }
+    const marker = data[position + 1];
+    if (marker === EOI) {
+      imageEnd = position + 2;
+      break;
+    }
+    if (position + 4 > data.length) {
+      throw new MediaSanitizeError('Invalid JPEG: Missing EOI marker');
+    }
+    const length = (data[position + 2] << 8) | data[position + 3];
+    const end = position + 2 + length;
+    if (length < 2 || end > data.length) {
+      throw new MediaSanitizeError('Invalid JPEG: Segment extends beyond file');
+    }
+    const label = strippedSegmentLabel(data, position, end);
+    if (label) {
+      kept.push(data.subarray(keptFrom, position));
+      keptFrom = end;
+      removedBytes += end - position;
+      warnings.push(`Removed ${label} segment (${length - 2} bytes)`);
+    }
+    position = marker === SOS ? skipEntropyCodedData(data, end) : end;
+  }
+  kept.push(data.subarray(keptFrom, imageEnd));
+  if (imageEnd < data.length) {
+    const extraBytes = data.length - imageEnd;
+    removedBytes += extraBytes;
+    warnings.push(`Removed ${extraBytes} bytes of data after JPEG EOI marker (embedded images or steganography)`);
+  }
+
+  if (orientation !== null && orientation !== 1) {
+    kept.splice(orientationIndex, 0, orientationSegment(orientation));
+  }
+
+  return { sanitized: removedBytes > 0 ? concatBytes(kept) : data, removedBytes, warnings };
+}
+
+function strippedSegmentLabel(data: Uint8Array, start: number, end: number) {
+  const marker = data[start + 1];
+  if (marker === APP2) {
+    const payload = data.subarray(start + 4, end);
+    return MPF_HEADER.every((byte, index) => payload[index] === byte) ? 'APP2 (MPF)' : undefined;
+  }
+  return STRIPPED_SEGMENTS.get(marker);
+}
+
+/**
+ * Returns the offset of the next marker after a scan's entropy-coded data.
+ * Stuffed zero bytes (FF 00) and restart markers (FF D0-D7) belong to the
+ * scan; anything else after FF ends it.
+ */
+function skipEntropyCodedData(data: Uint8Array, start: number) {
+  let position = start;
+  while (position + 1 < data.length) {
+    if (data[position] !== 0xff) {
+      position++;
+      continue;
+    }
+    const next = data[position + 1];
+    if (next === 0x00 || (next >= 0xd0 && next <= 0xd7)) {
+      position += 2;
+    } else if (next === 0xff) {
+      position++;
+    } else {
+      return position;
+    }
+  }
+  return data.length;
+}
+
+/** Reads the IFD0 orientation tag from an APP1 payload, or null when it is not EXIF. */
+function readExifOrientation(payload: Uint8Array): number | null {
+  if (payload.length < 14 || EXIF_HEADER.some((byte, index) => payload[index] !== byte)) {
+    return null;
+  }
+  const tiff = payload.subarray(EXIF_HEADER.length);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+  if (!littleEndian && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) {
+    return null;
+  }
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > tiff.length) {
+    return null;
+  }
+  const entries = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > tiff.length) {
+      return null;
+    }
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+  return null;
+}
+
+/** A big-endian EXIF APP1 segment holding only the orientation tag. */
+function orientationSegment(orientation: number): Uint8Array {
+  const tiff = [
+    0x4d,
+    0x4d,
+    0x00,
+    0x2a,
+    0x00,
+    0x00,
+    0x00,
+    0x08, // header, IFD0 at offset 8
+    0x00,
+    0x01, // one entry
+    0x01,
+    0x12,
+    0x00,
+    0x03,
+    0x00,
+    0x00,
+    0x00,
+    0x01,
+    0x00,
+    orientation,
+    0x00,
+    0x00, // SHORT orientation
+    0x00,
+    0x00,
+    0x00,
+    0x00, // no next IFD
+  ];
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  return new Uint8Array([0xff, APP1, length >> 8, length & 0xff, ...EXIF_HEADER, ...tiff]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,69 @@
+import type { ImageSize } from './imageInfo';
+import type { MediaPolicy } from './types';
+
+/** What the policy needs to know about an animated upload; GifInspection satisfies it. */
+export type AnimationInfo = {
+  width: number;
+  height: number;
+  /** 1 for stills, which are checked against the still-image rules instead. */
+  frameCount: number;
+  durationMs: number;
+  maxFrameWidth: number;
+  maxFrameHeight: number;
+};
+
+export type MediaPolicyViolation = 'still_not_allowed' | 'too_many_frames' | 'too_long' | 'too_large';
+
+/** Thrown while storing an upload that breaks the streamer's media policy; maps to a 400. */
+export class MediaPolicyError extends Error {
+  readonly code: MediaPolicyViolation;
+
+  constructor(code: MediaPolicyViolation, message: string) {
+    super(message);
+    this.name = 'MediaPolicyError';
+    this.code = code;
+  }
+}
+
+export function enforceAnimationPolicy(policy: MediaPolicy, info: AnimationInfo) {
+  if (info.frameCount === 1) {
+    enforceStillPolicy(policy, { width: info.width, height: info.height });
+    return;
+  }
+  if (info.frameCount > policy.maxFrames) {
+    throw new MediaPolicyError(
+      'too_many_frames',
+      `This animation has ${info.frameCount} frames; the limit is ${policy.maxFrames}.`,
+    );
+  }
+  if (info.durationMs > policy.maxDurationSeconds * 1000) {
+    throw new MediaPolicyError(
+      'too_long',
+      `This animation runs for ${(info.durationMs / 1000).toFixed(1)} seconds; the limit is ${
+        policy.maxDurationSeconds
+      }.`,
+    );
+  }
+  enforceDimensions(policy, {
+    width: Math.max(info.width, info.maxFrameWidth),
+    height: Math.max(info.height, info.maxFrameHeight),
+  });
+}
+
+export function enforceStillPolicy(policy: MediaPolicy, size: ImageSize | null) {
+  if (!policy.allowStillImages) {
+    throw new MediaPolicyError('still_not_allowed', 'This streamer only accepts animated images.');
+  }
+  if (size && policy.limitStillSize) {
+    enforceDimensions(policy, size);
+  }
+}
+
+function enforceDimensions(policy: MediaPolicy, size: ImageSize) {
+  if (size.width > policy.maxWidth || size.height > policy.maxHeight) {
+    throw new MediaPolicyError(
+      'too_large',
+      `Images can be at most ${policy.maxWidth}×${policy.maxHeight}px; this one is ${size.width}×${size.height}px.`,
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import type { StreamerMemberRow } from './types';
+
+export const MEMBER_PERMISSIONS = ['view', 'review', 'delete'] as const;
+
+export type MemberPermission = (typeof MEMBER_PERMISSIONS)[number];
+
+/**
+ * Parse the JSON permission list stored on a membership, dropping anything unknown.
+ * Moderators can never be granted settings or overlay token access.
+ */
+export function parsePermissions(payload: string | null | undefined): MemberPermission[] {
+  let parsed: unknown;
+  try {
+    parsed = payload ? JSON.parse(payload) : [];
+  } catch (error) {
+    parsed = [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return MEMBER_PERMISSIONS.filter((permission) => parsed.includes(permission));
+}
+
+/**
+ * Reviewing or deleting submissions implies being able to see the queue.
+ */
+export function normalizePermissions(permissions: MemberPermission[]): MemberPermission[] {
+  const granted = new Set<MemberPermission>(permissions);
+  if (granted.size > 0) {
+    granted.add('view');
+  }
+  return MEMBER_PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+export function memberHasPermission(member: StreamerMemberRow | undefined, permission: MemberPermission): boolean {
+  if (!member || !member.user_id || !member.accepted_at) {
+    return false;
+  }
+  return parsePermissions(member.permissions).includes(permission);
+}
@@ -0,0 +1,164 @@
+/**
+ * Minimal streaming decoder for non-interlaced 8-bit PNGs, which covers nearly
+ * every upload. Only the default image is read, so an APNG yields its first
+ * frame (or the fallback still it carries instead).
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export type DecodedPng = {
+  width: number;
+  height: number;
+  /**
+   * Yields each row as RGBA, reusing one buffer, so only the inflate stream and
+   * two rows are ever in memory. Stops early when the image data runs out.
+   */
+  rows(): AsyncGenerator<Uint8Array>;
+};
+
+/** Reads the header chunks; null for anything this decoder cannot handle or larger than `maxPixels`. */
+export function openPng(data: Uint8Array, maxPixels: number): DecodedPng | null {
+  if (data.length < 33 || PNG_SIGNATURE.some((byte, index) => data[index] !== byte)) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, Math.min(offset + 8 + length, data.length));
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = data[offset + 16];
+      colorType = data[offset + 17];
+      const interlace = data[offset + 20];
+      if (bitDepth !== 8 || interlace !== 0) {
+        return null;
+      }
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  const channels = CHANNELS[colorType];
+  if (!channels || width * height === 0 || width * height > maxPixels || idat.length === 0) {
+    return null;
+  }
+  if (colorType === 3 && !palette) {
+    return null;
+  }
+  return { width, height, rows: () => readRows(idat, width, height, colorType, channels, palette) };
+}
+
+async function* readRows(
+  idat: Uint8Array[],
+  width: number,
+  height: number,
+  colorType: number,
+  channels: number,
+  palette: Uint8Array | null,
+): AsyncGenerator<Uint8Array> {
+  const stride = width * channels;
+  const line = new Uint8Array(stride + 1);
+  const rgba = new Uint8Array(width * 4);
+  let current = new Uint8Array(stride);
+  let previous = new Uint8Array(stride);
+  let filled = 0;
+  let y = 0;
+  const reader = new Blob(idat).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  try {
+    while (y < height) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      for (let position = 0; position < value.length && y < height; ) {
+        const take = Math.min(line.length - filled, value.length - position);
+        line.set(value.subarray(position, position + take), filled);
+        filled += take;
+        position += take;
+        if (filled < line.length) continue;
+        unfilterLine(line[0], line.subarray(1), current, y > 0 ? previous : null, channels);
+        toRgba(current, colorType, palette, rgba);
+        yield rgba;
+        [previous, current] = [current, previous];
+        filled = 0;
+        y++;
+      }
+    }
+  } finally {
+    // Trailing data after the last row is never read.
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+function toRgba(pixels: Uint8Array, colorType: number, palette: Uint8Array | null, out: Uint8Array) {
+  const width = out.length / 4;
+  const channels = pixels.length / width;
+  for (let i = 0; i < width; i++) {
+    const p = i * channels;
+    const o = i * 4;
+    switch (colorType) {
+      case 0:
+        out.fill(pixels[p], o, o + 3);
+        out[o + 3] = 255;
+        break;
+      case 2:
+        out.set(pixels.subarray(p, p + 3), o);
+        out[o + 3] = 255;
+        break;
+      case 3: {
+        const entry = pixels[p] * 3;
+        out[o] = palette?.[entry] ?? 0;
+        out[o + 1] = palette?.[entry + 1] ?? 0;
+        out[o + 2] = palette?.[entry + 2] ?? 0;
+        out[o + 3] = 255;
+        break;
+      }
+      case 4:
+        out.fill(pixels[p], o, o + 3);
+        out[o + 3] = pixels[p + 1];
+        break;
+      default:
+        out.set(pixels.subarray(p, p + 4), o);
+    }
+  }
+}
+
+function unfilterLine(
+  filter: number,
+  line: Uint8Array,
+  out: Uint8Array,
+  previous: Uint8Array | null,
+  bytesPerPixel: number,
+) {
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bytesPerPixel ? out[i - bytesPerPixel] : 0;
+    const up = previous ? previous[i] : 0;
+    const upLeft = previous && i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    let predictor = 0;
+    if (filter === 1) predictor = left;
+    else if (filter === 2) predictor = up;
+    else if (filter === 3) predictor = (left + up) >> 1;
+    else if (filter === 4) predictor = paeth(left, up, upLeft);
+    out[i] = (line[i] + predictor) & 0xff;
+  }
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
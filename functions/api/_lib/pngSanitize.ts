@@ -0,0 +1,193 @@
+/**
+ * PNG and APNG sanitization. Walks the chunk list, validates lengths and
+ * CRCs, and drops metadata chunks the same way sanitizeGif drops comments.
+ */
+
+import type { AnimationInfo } from './mediaPolicy';
+import { MediaSanitizeError } from './sanitizeError';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_PNG_BYTES = 10 * 1024 * 1024;
+
+// Ancillary chunks needed to render the image or its animation. Any other
+// ancillary chunk (text, EXIF, timestamps, private data) is removed.
+const KEPT_ANCILLARY_CHUNKS = new Set([
+  'tRNS',
+  'gAMA',
+  'cHRM',
+  'sRGB',
+  'iCCP',
+  'cICP',
+  'sBIT',
+  'bKGD',
+  'pHYs',
+  'acTL',
+  'fcTL',
+  'fdAT',
+]);
+const CRITICAL_CHUNKS = new Set(['IHDR', 'PLTE', 'IDAT', 'IEND']);
+
+export type PngSanitizationResult = {
+  sanitized: Uint8Array;
+  removedBytes: number;
+  warnings: string[];
+  /** frameCount is 1 for still PNGs and APNGs without an acTL chunk. */
+  info: AnimationInfo;
+};
+
+export function isPng(data: Uint8Array): boolean {
+  return data.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * Validate and sanitize a PNG or APNG.
+ * - Validates the signature, chunk lengths and CRCs
+ * - Requires IHDR first and IEND last
+ * - Removes text, EXIF and other non-rendering ancillary chunks
+ * - Drops anything after IEND
+ * - Collects frame count and duration for APNGs
+ */
+export function sanitizePng(data: Uint8Array): PngSanitizationResult {
+  if (!isPng(data)) {
+    throw new MediaSanitizeError('Invalid PNG: Missing or corrupted signature');
+  }
+  if (data.length > MAX_PNG_BYTES) {
+    throw new MediaSanitizeError('PNG file too large for sanitization (max 10MB)');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const kept: Uint8Array[] = [data.subarray(0, PNG_SIGNATURE.length)];
+  const warnings: string[] = [];
+  let removedBytes = 0;
+  let position = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let declaredFrames: number | null = null;
+  let frameCount = 0;
+  let durationMs = 0;
+  let maxFrameWidth = 0;
+  let maxFrameHeight = 0;
+  let hasEnd = false;
+
+  while (position < data.length) {
+    if (position + 12 > data.length) {
+      throw new MediaSanitizeError('Invalid PNG: Incomplete chunk header');
+    }
+    const length = view.getUint32(position);
+    const end = position + 12 + length;
+    if (end > data.length) {
+      throw new MediaSanitizeError('Invalid PNG: Chunk extends beyond file');
+    }
+    const type = String.fromCharCode(...data.subarray(position + 4, position + 8));
+    if (!/^[A-Za-z]{4}$/.test(type)) {
+      throw new MediaSanitizeError('Invalid PNG: Malformed chunk type');
+    }
+    const body = data.subarray(position + 8, position + 8 + length);
+    if (crc32(data.subarray(position + 4, position + 8 + length)) !== view.getUint32(position + 8 + length)) {
+      throw new MediaSanitizeError(`Invalid PNG: CRC mismatch in ${type} chunk`);
+    }
+    const isFirst = position === PNG_SIGNATURE.length;
+    if (isFirst !== (type === 'IHDR')) {
+      throw new MediaSanitizeError('Invalid PNG: IHDR must be the first chunk');
+    }
+
+    const chunkView = new DataView(body.buffer, body.byteOffset, body.byteLength);
+    if (type === 'IHDR') {
+      if (length !== 13) {
+        throw new MediaSanitizeError('Invalid PNG: Malformed IHDR chunk');
+      }
+      width = chunkView.getUint32(0);
+      height = chunkView.getUint32(4);
+    } else if (type === 'acTL' && length === 8) {
+      declaredFrames = chunkView.getUint32(0);
+    } else if (type === 'fcTL' && length === 26) {
+      frameCount++;
+      maxFrameWidth = Math.max(maxFrameWidth, chunkView.getUint32(4));
+      maxFrameHeight = Math.max(maxFrameHeight, chunkView.getUint32(8));
+      const delayNum = chunkView.getUint16(20);
+      // A zero denominator means hundredths of a second
+      const delayDen = chunkView.getUint16(22) || 100;
+      durationMs += (delayNum * 1000) / delayDen;
+    }
+
+    const isCritical = (data[position + 4] & 0x20) === 0;
+    if (isCritical && !CRITICAL_CHUNKS.has(type)) {
+      throw new MediaSanitizeError(`Invalid PNG: Unsupported critical chunk ${type}`);
+    }
+    if (isCritical || KEPT_ANCILLARY_CHUNKS.has(type)) {
+      kept.push(data.subarray(position, end));
+    } else {
+      removedBytes += end - position;
+      warnings.push(`Removed ${type} chunk (${length} bytes)`);
+    }
+
+    position = end;
+    if (type === 'IEND') {
+      hasEnd = true;
+      break;
+    }
+  }
+
+  if (!hasEnd) {
+    throw new MediaSanitizeError('Invalid PNG: Missing IEND chunk');
+  }
+  if (width === 0 || height === 0) {
+    throw new MediaSanitizeError('Invalid PNG: Zero image dimensions');
+  }
+  if (position < data.length) {
+    const extraBytes = data.length - position;
+    removedBytes += extraBytes;
+    warnings.push(`Removed ${extraBytes} bytes of data after PNG IEND chunk (potential steganography)`);
+  }
+
+  // Without acTL the fcTL chunks are ignored by every decoder, so treat the file as a still
+  const animated = declaredFrames !== null && frameCount > 0;
+  if (animated && declaredFrames !== frameCount) {
+    throw new MediaSanitizeError(`Invalid APNG: acTL declares ${declaredFrames} frames but ${frameCount} were found`);
+  }
+
+  return {
+    sanitized: removedBytes > 0 ? concatBytes(kept) : data,
+    removedBytes,
+    warnings,
+    info: {
+      width,
+      height,
+      frameCount: animated ? frameCount : 1,
+      durationMs: animated ? Math.round(durationMs) : 0,
+      maxFrameWidth: animated ? maxFrameWidth : width,
+      maxFrameHeight: animated ? maxFrameHeight : height,
+    },
+  };
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 as used by PNG chunks (ISO 3309 polynomial). */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,332 @@
+import type { R2HTTPMetadata } from '@cloudflare/workers-types';
+import GIFEncoder from 'gif-encoder-2';
+import { decompressFrame, parseGIF } from 'gifuct-js';
+import type { ParsedGif } from 'gifuct-js';
+import { openPng } from './pngDecode';
+import { crc32 } from './pngSanitize';
+import type { GifstremBindings, SubmissionRow } from './types';
+
+/** Poster frame bounding box; big enough for a dashboard card on a retina screen. */
+const THUMBNAIL_MAX_SIZE = 480;
+/** Animated preview bounding box and frame budget. */
+const PREVIEW_MAX_SIZE = 240;
+const PREVIEW_MAX_FRAMES = 40;
+// Later frames are never decoded, so a long GIF previews its opening seconds.
+const MAX_DECODED_FRAMES = 120;
+// Skip decoding anything whose canvas would blow the Worker's memory.
+const MAX_DECODE_PIXELS = 4096 * 4096;
+// Transparent pixels are flattened onto the dashboard card colour.
+const BACKGROUND = [0x1a, 0x1b, 0x22] as const;
+
+export type PreviewKeys = {
+  thumbnailKey: string;
+  /** Null for formats that only get a poster. */
+  previewKey: string | null;
+};
+
+/** Derived objects sit next to the original: `<name>.thumb.png` and `<name>.preview.gif`. */
+export function previewKeysFor(fileKey: string): { thumbnailKey: string; previewKey: string } {
+  const base = fileKey.replace(/\.[^./]+$/, '');
+  return { thumbnailKey: `${base}.thumb.png`, previewKey: `${base}.preview.gif` };
+}
+
+/**
+ * Writes a PNG poster frame next to a stored submission, plus a small animated
+ * preview for GIFs. PNGs and APNGs get the poster only, drawn from the default
+ * image. JPEG and WebP get neither: decoding them takes a codec the Worker does
+ * not carry, so the dashboard keeps showing the original. Returns null when
+ * nothing was generated.
+ */
+export async function generateSubmissionPreviews(
+  env: GifstremBindings,
+  submission: SubmissionRow,
+): Promise<PreviewKeys | null> {
+  const isGif = submission.file_key.endsWith('.gif');
+  if (!isGif && !submission.file_key.endsWith('.png')) {
+    return null;
+  }
+  const object = await env.GIF_BUCKET.get(submission.file_key);
+  if (!object) {
+    return null;
+  }
+  const data = new Uint8Array(await object.arrayBuffer());
+  const rendered = isGif ? renderGif(data) : await renderPngPoster(data);
+  if (!rendered) {
+    return null;
+  }
+
+  const keys = previewKeysFor(submission.file_key);
+  const metadata = (contentType: string): R2HTTPMetadata => ({ contentType, cacheControl: 'public, max-age=86400' });
+  const poster = await encodePng(rendered.poster, rendered.posterSize);
+  await env.GIF_BUCKET.put(keys.thumbnailKey, poster, { httpMetadata: metadata('image/png') });
+  if (!rendered.preview) {
+    return { thumbnailKey: keys.thumbnailKey, previewKey: null };
+  }
+
+  const { frames, size } = rendered.preview;
+  const encoder = new GIFEncoder(size.width, size.height, 'octree', false, frames.length);
+  encoder.setRepeat(0);
+  encoder.start();
+  for (const frame of frames) {
+    encoder.setDelay(frame.delayMs);
+    encoder.addFrame(frame.rgba);
+  }
+  encoder.finish();
+  const preview = new Uint8Array(encoder.out.getData());
+  await env.GIF_BUCKET.put(keys.previewKey, preview, { httpMetadata: metadata('image/gif') });
+  return keys;
+}
+
+type PreviewFrame = { rgba: Uint8ClampedArray; delayMs: number };
+type Size = { width: number; height: number };
+type Rendered = {
+  poster: Uint8ClampedArray;
+  posterSize: Size;
+  preview?: { frames: PreviewFrame[]; size: Size };
+};
+
+function renderGif(data: Uint8Array): Rendered | null {
+  const gif = parseGIF(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  const { width, height } = gif.lsd;
+  if (width * height === 0 || width * height > MAX_DECODE_PIXELS) {
+    return null;
+  }
+  const posterSize = fitWithin(width, height, THUMBNAIL_MAX_SIZE);
+  const previewSize = fitWithin(width, height, PREVIEW_MAX_SIZE);
+  const rendered = renderFrames(gif, PREVIEW_MAX_FRAMES, posterSize, previewSize);
+  if (!rendered) {
+    return null;
+  }
+  return { poster: rendered.poster, posterSize, preview: { frames: rendered.frames, size: previewSize } };
+}
+
+/** Downscales the PNG a row at a time, so a large still never sits in memory at full size. */
+async function renderPngPoster(data: Uint8Array): Promise<Rendered | null> {
+  const png = openPng(data, MAX_DECODE_PIXELS);
+  if (!png) {
+    return null;
+  }
+  const posterSize = fitWithin(png.width, png.height, THUMBNAIL_MAX_SIZE);
+  const poster = createRowResizer(png.width, png.height, posterSize);
+  let y = 0;
+  for await (const row of png.rows()) {
+    poster.addRow(y++, row);
+  }
+  return y === png.height ? { poster: poster.result(), posterSize } : null;
+}
+
+/**
+ * Decodes one frame at a time onto a single full-size canvas, honouring
+ * disposal methods, and keeps at most `limit` frames. Kept frames are shrunk
+ * straight away, so only preview-sized copies outlive the loop. Skipped frames
+ * fold their delay into the kept one so the preview runs at the original speed.
+ */
+function renderFrames(
+  gif: ParsedGif,
+  limit: number,
+  posterSize: Size,
+  previewSize: Size,
+): { poster: Uint8ClampedArray; frames: PreviewFrame[] } | null {
+  const { width, height } = gif.lsd;
+  const images = gif.frames.filter((entry) => 'image' in entry).slice(0, MAX_DECODED_FRAMES);
+  if (images.length === 0) {
+    return null;
+  }
+  const step = Math.max(1, Math.ceil(images.length / limit));
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  fillBackground(canvas, 0, 0, width, height, width);
+  let poster: Uint8ClampedArray | null = null;
+  const frames: PreviewFrame[] = [];
+
+  images.forEach((image, index) => {
+    const { dims, patch, disposalType, delay } = decompressFrame(image, gif.gct, true);
+    const previous = disposalType === 3 ? canvas.slice() : null;
+    for (let y = 0; y < dims.height; y++) {
+      const canvasY = dims.top + y;
+      if (canvasY < 0 || canvasY >= height) continue;
+      for (let x = 0; x < dims.width; x++) {
+        const canvasX = dims.left + x;
+        if (canvasX < 0 || canvasX >= width) continue;
+        const source = (y * dims.width + x) * 4;
+        if (patch[source + 3] === 0) continue;
+        const target = (canvasY * width + canvasX) * 4;
+        canvas[target] = patch[source];
+        canvas[target + 1] = patch[source + 1];
+        canvas[target + 2] = patch[source + 2];
+        canvas[target + 3] = 255;
+      }
+    }
+
+    const delayMs = Math.max(delay || 100, 20);
+    if (index % step === 0) {
+      poster ??= resize(canvas, width, height, posterSize, true);
+      frames.push({ rgba: resize(canvas, width, height, previewSize, true), delayMs });
+    } else {
+      frames[frames.length - 1].delayMs += delayMs;
+    }
+
+    if (disposalType === 2) {
+      fillBackground(canvas, dims.left, dims.top, dims.width, dims.height, width);
+    } else if (previous) {
+      canvas.set(previous);
+    }
+  });
+  return poster ? { poster, frames } : null;
+}
+
+function fillBackground(
+  canvas: Uint8ClampedArray,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  stride: number,
+) {
+  const rows = canvas.length / 4 / stride;
+  for (let y = Math.max(0, top); y < Math.min(rows, top + height); y++) {
+    for (let x = Math.max(0, left); x < Math.min(stride, left + width); x++) {
+      const offset = (y * stride + x) * 4;
+      canvas[offset] = BACKGROUND[0];
+      canvas[offset + 1] = BACKGROUND[1];
+      canvas[offset + 2] = BACKGROUND[2];
+      canvas[offset + 3] = 255;
+    }
+  }
+}
+
+/**
+ * The same box filter as resize, fed one RGBA row at a time. Transparency is
+ * flattened onto the card colour as rows arrive.
+ */
+function createRowResizer(width: number, height: number, size: Size) {
+  const spans = (cells: number, length: number) =>
+    Array.from({ length: cells }, (_, index) => {
+      const from = Math.floor((index * length) / cells);
+      return [from, Math.max(from + 1, Math.floor(((index + 1) * length) / cells))];
+    });
+  const columns = spans(size.width, width);
+  const rows = spans(size.height, height);
+  const sums = new Float64Array(size.width * size.height * 3);
+  let ty = 0;
+  return {
+    addRow(y: number, rgba: Uint8Array) {
+      while (ty < rows.length - 1 && y >= rows[ty][1]) ty++;
+      columns.forEach(([x0, x1], tx) => {
+        const target = (ty * size.width + tx) * 3;
+        for (let x = x0; x < x1; x++) {
+          const offset = x * 4;
+          const alpha = rgba[offset + 3] / 255;
+          for (let channel = 0; channel < 3; channel++) {
+            sums[target + channel] += rgba[offset + channel] * alpha + BACKGROUND[channel] * (1 - alpha);
+          }
+        }
+      });
+    },
+    result() {
+      const out = new Uint8ClampedArray(size.width * size.height * 4);
+      rows.forEach(([y0, y1], cy) => {
+        columns.forEach(([x0, x1], cx) => {
+          const cell = cy * size.width + cx;
+          const count = (y1 - y0) * (x1 - x0);
+          out[cell * 4] = sums[cell * 3] / count;
+          out[cell * 4 + 1] = sums[cell * 3 + 1] / count;
+          out[cell * 4 + 2] = sums[cell * 3 + 2] / count;
+          out[cell * 4 + 3] = 255;
+        });
+      });
+      return out;
+    },
+  };
+}
+
+function fitWithin(width: number, height: number, maxSize: number) {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Box-filter downscale; averaging keeps dithered GIFs from turning into noise.
+ * `copy` forces a new buffer when the size already matches, for callers that
+ * keep drawing on the source.
+ */
+function resize(rgba: Uint8ClampedArray, width: number, height: number, size: Size, copy = false): Uint8ClampedArray {
+  if (size.width === width && size.height === height) {
+    return copy ? rgba.slice() : rgba;
+  }
+  const out = new Uint8ClampedArray(size.width * size.height * 4);
+  for (let ty = 0; ty < size.height; ty++) {
+    const y0 = Math.floor((ty * height) / size.height);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / size.height));
+    for (let tx = 0; tx < size.width; tx++) {
+      const x0 = Math.floor((tx * width) / size.width);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / size.width));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const offset = (y * width + x) * 4;
+          r += rgba[offset];
+          g += rgba[offset + 1];
+          b += rgba[offset + 2];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const target = (ty * size.width + tx) * 4;
+      out[target] = r / count;
+      out[target + 1] = g / count;
+      out[target + 2] = b / count;
+      out[target + 3] = 255;
+    }
+  }
+  return out;
+}
+
+async function encodePng(rgba: Uint8ClampedArray, size: Size): Promise<Uint8Array> {
+  // Filter type 0 on every row, RGB only since the poster is already flattened.
+  const raw = new Uint8Array((size.width * 3 + 1) * size.height);
+  for (let y = 0; y < size.height; y++) {
+    const row = y * (size.width * 3 + 1);
+    for (let x = 0; x < size.width; x++) {
+      const source = (y * size.width + x) * 4;
+      raw.set(rgba.subarray(source, source + 3), row + 1 + x * 3);
+    }
+  }
+  const compressed = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer(),
+  );
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, size.width);
+  view.setUint32(4, size.height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+  return concat([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function pngChunk(type: string, body: Uint8Array) {
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(body, 8);
+  view.setUint32(8 + body.length, crc32(chunk.subarray(4, 8 + body.length)));
+  return chunk;
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
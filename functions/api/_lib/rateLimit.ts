@@ -0,0 +1,104 @@
+import type { GifstremBindings } from './types';
+
+export type RateLimitRule = {
+  key: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+// Per-isolate sliding windows, only for local dev runs that set RATE_LIMIT_STORE = "memory".
+const memoryHits = new Map<string, { hits: number[]; expiresAt: number }>();
+
+/**
+ * Checks every rule at once. A request is only counted when all rules allow
+ * it, so one exhausted bucket does not drain the others.
+ */
+export async function consumeRateLimits(env: GifstremBindings, rules: RateLimitRule[]): Promise<RateLimitResult> {
+  if (rules.length === 0) {
+    return { allowed: true };
+  }
+  return env.RATE_LIMIT_STORE === 'memory' ? consumeInMemory(rules) : consumeInD1(env.DB, rules);
+}
+
+/**
+ * Sliding windows logged in D1, one row per counted request, so they behave
+ * like the in-memory store and a burst straddling a window boundary still
+ * meets the limit. The conditional insert counts and records in one statement,
+ * so concurrent isolates cannot both take the last slot. A full window inserts
+ * no row; hits already recorded for the same request are then removed.
+ */
+async function consumeInD1(db: D1Database, rules: RateLimitRule[]): Promise<RateLimitResult> {
+  const now = Date.now();
+  const hits = rules.map((rule) => ({ rule, id: crypto.randomUUID() }));
+  const results = await db.batch<{ id: string }>(
+    hits.map(({ rule, id }) =>
+      db
+        .prepare(
+          `INSERT INTO rate_limit_hits (id, key, hit_at, expires_at)
+           SELECT ?1, ?2, ?3, ?4
+           WHERE (SELECT COUNT(*) FROM rate_limit_hits WHERE key = ?2 AND hit_at > ?5) < ?6
+           RETURNING id`,
+        )
+        .bind(id, rule.key, now, now + rule.windowMs, now - rule.windowMs, rule.limit),
+    ),
+  );
+
+  const blocked = hits.filter((_, index) => (results[index].results ?? []).length === 0);
+  if (blocked.length === 0) {
+    return { allowed: true };
+  }
+  const counted = hits.filter((_, index) => (results[index].results ?? []).length > 0);
+  if (counted.length > 0) {
+    await db.batch(counted.map(({ id }) => db.prepare('DELETE FROM rate_limit_hits WHERE id = ?').bind(id)));
+  }
+  // A window frees up when the oldest of the hits that fill it slides out
+  const retryAfterMs = await Promise.all(
+    blocked.map(async ({ rule }) => {
+      const oldest = await db
+        .prepare(
+          'SELECT hit_at FROM rate_limit_hits WHERE key = ? AND hit_at > ? ORDER BY hit_at DESC LIMIT 1 OFFSET ?',
+        )
+        .bind(rule.key, now - rule.windowMs, rule.limit - 1)
+        .first<{ hit_at: number }>();
+      return oldest ? oldest.hit_at + rule.windowMs - now : 0;
+    }),
+  );
+  return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(Math.max(...retryAfterMs) / 1000)) };
+}
+
+function consumeInMemory(rules: RateLimitRule[]): RateLimitResult {
+  const now = Date.now();
+  const windows = rules.map((rule) => {
+    const entry = memoryHits.get(rule.key);
+    const hits = entry && entry.expiresAt > now ? entry.hits : [];
+    return { rule, hits: hits.filter((hit) => hit > now - rule.windowMs) };
+  });
+
+  let retryAfterMs = 0;
+  for (const { rule, hits } of windows) {
+    if (hits.length >= rule.limit) {
+      const oldest = hits[hits.length - rule.limit];
+      retryAfterMs = Math.max(retryAfterMs, oldest + rule.windowMs - now);
+    }
+  }
+  if (retryAfterMs > 0) {
+    return { allowed: false, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+  }
+
+  for (const { rule, hits } of windows) {
+    memoryHits.set(rule.key, { hits: [...hits, now], expiresAt: now + rule.windowMs });
+  }
+  return { allowed: true };
+}
+
+/** Drops hits that have slid out of their window. */
+export async function pruneRateLimits(env: GifstremBindings) {
+  const result = await env.DB.prepare('DELETE FROM rate_limit_hits WHERE expires_at <= ?').bind(Date.now()).run();
+  return result.meta.changes ?? 0;
+}
+
+export function clientIp(headers: { get(name: string): string | null | undefined }) {
+  return headers.get('cf-connecting-ip') ?? headers.get('x-forwarded-for')?.split(',')[0]?.trim() ?? 'unknown';
+}
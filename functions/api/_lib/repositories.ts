@@ -1,4 +1,18 @@
-import { GifstremBindings, SubmissionRow, UserRow } from './types';
+import type {
+  AuditAction,
+  AuditEventRow,
+  BlocklistEntryRow,
+  BlocklistKind,
+  GifstremBindings,
+  OverlayEventRow,
+  OverlayEventType,
+  SessionRow,
+  StreamerMemberRow,
+  StreamerMemberWithUserRow,
+  SubmissionRow,
+  UserRole,
+  UserRow,
+} from './types';
 
 export type CreateUserInput = {
   username: string;
@@ -6,6 +20,7 @@ export type CreateUserInput = {
   displayName: string;
   slug: string;
   overlayToken: string;
+  role?: UserRole;
 };
 
 export type CreateSubmissionInput = {
@@ -16,19 +31,68 @@ export type CreateSubmissionInput = {
   fileUrl: string;
   fileName: string;
   fileSize: number;
+  contentHash: string;
+  perceptualHash: string | null;
   expiresInHours: number;
 };
 
 export type UpdateSubmissionLayoutInput = {
   id: string;
-  layout: Record<string, unknown>;
+  /** null hands the item back to automatic placement. */
+  layout: Record<string, unknown> | null;
 };
 
-const SUBMISSION_LIMIT = 64;
+export type CreateMemberInviteInput = {
+  streamerId: string;
+  inviteCode: string;
+  permissions: string[];
+};
+
+export type CreateAuditEventInput = {
+  streamerId: string;
+  actorId: string | null;
+  actorName: string;
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export type CreateBlocklistEntryInput = {
+  streamerId: string;
+  kind: BlocklistKind;
+  value: string;
+};
+
+export type CreateSessionInput = {
+  userId: string;
+  refreshHash: string;
+  expiresAt: string;
+  userAgent: string | null;
+  locationHint: string | null;
+};
+
+export type CreateOverlayEventInput = {
+  streamerId: string;
+  type: OverlayEventType;
+  payload?: unknown;
+};
 
 const INITIAL_SETTINGS = JSON.stringify({
   safeZones: {},
-  animation: { type: 'pop', durationMs: 600 },
+  animation: { enter: 'pop', exit: 'fade', easing: 'spring', durationMs: 600 },
+  displayMode: {
+    mode: 'collage',
+    spotlight: { secondsPerItem: 8, showCaptions: true },
+    ticker: { edge: 'bottom', itemSize: 160, speed: 120 },
+  },
+  captions: { enabled: false, font: 'rounded', fontSize: 24, color: '#ffffff', position: 'below', maxLength: 80 },
 });
 
 export function createRepositories(env: GifstremBindings) {
@@ -37,8 +101,8 @@ export function createRepositories(env: GifstremBindings) {
       async create(input: CreateUserInput): Promise<UserRow> {
         const now = new Date().toISOString();
         const result = await env.DB.prepare(
-          `INSERT INTO users (id, username, password_hash, display_name, slug, overlay_token, settings, created_at, updated_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `INSERT INTO users (id, username, password_hash, display_name, slug, overlay_token, settings, role, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
            RETURNING *`,
         )
           .bind(
@@ -49,6 +113,7 @@ export function createRepositories(env: GifstremBindings) {
             input.slug,
             input.overlayToken,
             INITIAL_SETTINGS,
+            input.role ?? 'streamer',
             now,
             now,
           )
@@ -67,23 +132,33 @@ export function createRepositories(env: GifstremBindings) {
         return record ?? undefined;
       },
       async findByOverlayToken(token: string): Promise<UserRow | undefined> {
-        const record = await env.DB.prepare('SELECT * FROM users WHERE overlay_token = ?')
-          .bind(token)
-          .first<UserRow>();
+        const record = await env.DB.prepare('SELECT * FROM users WHERE overlay_token = ?').bind(token).first<UserRow>();
         return record ?? undefined;
       },
       async updateOverlayToken(userId: string, overlayToken: string): Promise<void> {
-        await env.DB.prepare('UPDATE users SET overlay_token = ?, updated_at = ? WHERE id = ?')
+        await env.DB.prepare(
+          'UPDATE users SET overlay_token = ?, feed_version = feed_version + 1, updated_at = ? WHERE id = ?',
+        )
           .bind(overlayToken, new Date().toISOString(), userId)
           .run();
       },
       async updateSettings(userId: string, settings: unknown): Promise<void> {
-        await env.DB.prepare('UPDATE users SET settings = ?, updated_at = ? WHERE id = ?')
+        await env.DB.prepare(
+          'UPDATE users SET settings = ?, feed_version = feed_version + 1, updated_at = ? WHERE id = ?',
+        )
           .bind(JSON.stringify(settings), new Date().toISOString(), userId)
           .run();
       },
+      async getFeedVersion(userId: string): Promise<number> {
+        const record = await env.DB.prepare('SELECT feed_version FROM users WHERE id = ?')
+          .bind(userId)
+          .first<{ feed_version: number }>();
+        return Number(record?.feed_version ?? 0);
+      },
       async updateProfile(userId: string, displayName: string, slug: string): Promise<void> {
-        await env.DB.prepare('UPDATE users SET display_name = ?, slug = ?, updated_at = ? WHERE id = ?')
+        await env.DB.prepare(
+          'UPDATE users SET display_name = ?, slug = ?, feed_version = feed_version + 1, updated_at = ? WHERE id = ?',
+        )
           .bind(displayName, slug, new Date().toISOString(), userId)
           .run();
       },
@@ -96,10 +171,111 @@ export function createRepositories(env: GifstremBindings) {
         const record = await env.DB.prepare('SELECT * FROM users WHERE id = ?').bind(id).first<UserRow>();
         return record ?? undefined;
       },
+      async setPendingTotpSecret(userId: string, secret: string): Promise<void> {
+        await env.DB.prepare('UPDATE users SET totp_pending_secret = ?, updated_at = ? WHERE id = ?')
+          .bind(secret, new Date().toISOString(), userId)
+          .run();
+      },
+      /** Promotes the pending secret, recording the confirming code's step so it cannot log in. */
+      async enableTotp(userId: string, confirmedStep: number): Promise<void> {
+        const now = new Date().toISOString();
+        await env.DB.prepare(
+          `UPDATE users
+           SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_enabled_at = ?,
+               totp_last_step = ?, updated_at = ?
+           WHERE id = ? AND totp_pending_secret IS NOT NULL`,
+        )
+          .bind(now, confirmedStep, now, userId)
+          .run();
+      },
+      async disableTotp(userId: string): Promise<void> {
+        await env.DB.batch([
+          env.DB.prepare(
+            `UPDATE users
+             SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL,
+                 updated_at = ?
+             WHERE id = ?`,
+          ).bind(new Date().toISOString(), userId),
+          env.DB.prepare('DELETE FROM recovery_codes WHERE user_id = ?').bind(userId),
+        ]);
+      },
+      /**
+       * Records a used TOTP step. Fails when the same or a later step was already
+       * accepted, so two concurrent logins with one code cannot both succeed.
+       */
+      async claimTotpStep(userId: string, step: number): Promise<boolean> {
+        const result = await env.DB.prepare(
+          'UPDATE users SET totp_last_step = ? WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)',
+        )
+          .bind(step, userId, step)
+          .run();
+        return (result.meta?.changes ?? 0) > 0;
+      },
+      /**
+       * Counts a second-step attempt before its code is checked, so concurrent
+       * guesses cannot get past the limit. Returns the attempt number, or null
+       * while the account is locked or has no attempts left.
+       */
+      async claimTwoFactorAttempt(userId: string, limit: number): Promise<number | null> {
+        const row = await env.DB.prepare(
+          `UPDATE users SET totp_failed_attempts = totp_failed_attempts + 1, totp_locked_until = NULL
+           WHERE id = ? AND totp_failed_attempts < ? AND (totp_locked_until IS NULL OR totp_locked_until <= ?)
+           RETURNING totp_failed_attempts`,
+        )
+          .bind(userId, limit, new Date().toISOString())
+          .first<{ totp_failed_attempts: number }>();
+        return row?.totp_failed_attempts ?? null;
+      },
+      async lockTwoFactor(userId: string, until: string): Promise<void> {
+        await env.DB.prepare('UPDATE users SET totp_failed_attempts = 0, totp_locked_until = ? WHERE id = ?')
+          .bind(until, userId)
+          .run();
+      },
+      async resetTwoFactorAttempts(userId: string): Promise<void> {
+        await env.DB.prepare('UPDATE users SET totp_failed_attempts = 0, totp_locked_until = NULL WHERE id = ?')
+          .bind(userId)
+          .run();
+      },
+    },
+    recoveryCodes: {
+      /** Replaces any earlier set, so old codes stop working as soon as new ones are issued. */
+      async replaceForUser(userId: string, codeHashes: string[]): Promise<void> {
+        const now = new Date().toISOString();
+        await env.DB.batch([
+          env.DB.prepare('DELETE FROM recovery_codes WHERE user_id = ?').bind(userId),
+          ...codeHashes.map((codeHash) =>
+            env.DB.prepare('INSERT INTO recovery_codes (id, user_id, code_hash, created_at) VALUES (?, ?, ?, ?)').bind(
+              crypto.randomUUID(),
+              userId,
+              codeHash,
+              now,
+            ),
+          ),
+        ]);
+      },
+      async consume(userId: string, codeHash: string): Promise<boolean> {
+        const result = await env.DB.prepare(
+          'UPDATE recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+        )
+          .bind(new Date().toISOString(), userId, codeHash)
+          .run();
+        return (result.meta?.changes ?? 0) > 0;
+      },
+      async countUnused(userId: string): Promise<number> {
+        const record = await env.DB.prepare(
+          'SELECT COUNT(*) as total FROM recovery_codes WHERE user_id = ? AND used_at IS NULL',
+        )
+          .bind(userId)
+          .first<{ total: number }>();
+        return Number(record?.total ?? 0);
+      },
     },
     submissions: {
+      /** Trashed submissions do not count; they are on their way out and can only come back by restore. */
       async countForStreamer(streamerId: string): Promise<number> {
-        const record = await env.DB.prepare('SELECT COUNT(*) as total FROM submissions WHERE streamer_id = ?')
+        const record = await env.DB.prepare(
+          'SELECT COUNT(*) as total FROM submissions WHERE streamer_id = ? AND trashed_at IS NULL',
+        )
           .bind(streamerId)
           .first<{ total: number }>();
         return Number(record?.total ?? 0);
@@ -110,9 +286,9 @@ export function createRepositories(env: GifstremBindings) {
         const record = await env.DB.prepare(
           `INSERT INTO submissions (
             id, streamer_id, uploader_name, message, file_key, file_url, file_name, file_size, status,
-            expires_at, created_at, updated_at, approved_at, denied_at, layout
+            expires_at, created_at, updated_at, approved_at, denied_at, layout, content_hash, perceptual_hash
           )
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, NULL, NULL, NULL)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, NULL, NULL, NULL, ?, ?)
           RETURNING *`,
         )
           .bind(
@@ -127,6 +303,8 @@ export function createRepositories(env: GifstremBindings) {
             expires,
             now.toISOString(),
             now.toISOString(),
+            input.contentHash,
+            input.perceptualHash,
           )
           .first<SubmissionRow>();
         if (!record) {
@@ -134,14 +312,28 @@ export function createRepositories(env: GifstremBindings) {
         }
         return record;
       },
-      async oldestBeyondLimit(streamerId: string, limit: number = SUBMISSION_LIMIT): Promise<SubmissionRow[]> {
+      /**
+       * Submissions to evict to get back under the cap: denied first, then
+       * pending, and approved items only as a last resort. Trashed items do not
+       * count towards the cap, so they are never picked.
+       */
+      async oldestBeyondLimit(streamerId: string, limit: number): Promise<SubmissionRow[]> {
         const total = await this.countForStreamer(streamerId);
         const overage = total - limit;
         if (overage <= 0) {
           return [];
         }
         const { results } = await env.DB.prepare(
-          'SELECT * FROM submissions WHERE streamer_id = ? ORDER BY created_at ASC LIMIT ?',
+          `SELECT * FROM submissions
+           WHERE streamer_id = ? AND trashed_at IS NULL
+           ORDER BY
+             CASE
+               WHEN status = 'denied' THEN 0
+               WHEN status = 'pending' THEN 1
+               ELSE 2
+             END,
+             created_at ASC
+           LIMIT ?`,
         )
           .bind(streamerId, overage)
           .all<SubmissionRow>();
@@ -149,7 +341,7 @@ export function createRepositories(env: GifstremBindings) {
       },
       async listByStatus(streamerId: string, status: 'pending' | 'approved' | 'denied'): Promise<SubmissionRow[]> {
         const { results } = await env.DB.prepare(
-          'SELECT * FROM submissions WHERE streamer_id = ? AND status = ? ORDER BY created_at DESC',
+          'SELECT * FROM submissions WHERE streamer_id = ? AND status = ? AND trashed_at IS NULL ORDER BY created_at DESC',
         )
           .bind(streamerId, status)
           .all<SubmissionRow>();
@@ -158,18 +350,69 @@ export function createRepositories(env: GifstremBindings) {
       async listActiveForOverlay(streamerId: string): Promise<SubmissionRow[]> {
         const { results } = await env.DB.prepare(
           `SELECT * FROM submissions
-           WHERE streamer_id = ? AND status = 'approved' AND expires_at > ?
+           WHERE streamer_id = ? AND status = 'approved' AND trashed_at IS NULL AND expires_at > ?
            ORDER BY approved_at ASC`,
         )
           .bind(streamerId, new Date().toISOString())
           .all<SubmissionRow>();
         return (results ?? []) as SubmissionRow[];
       },
+      /** Pending and live submissions that carry a fingerprint, for duplicate checks. */
+      async listFingerprinted(streamerId: string): Promise<SubmissionRow[]> {
+        const { results } = await env.DB.prepare(
+          `SELECT * FROM submissions
+           WHERE streamer_id = ? AND status IN ('pending', 'approved') AND trashed_at IS NULL
+             AND content_hash IS NOT NULL
+           ORDER BY created_at ASC`,
+        )
+          .bind(streamerId)
+          .all<SubmissionRow>();
+        return (results ?? []) as SubmissionRow[];
+      },
+      async incrementDuplicateCount(id: string): Promise<void> {
+        await env.DB.prepare(
+          'UPDATE submissions SET duplicate_count = duplicate_count + 1, updated_at = ? WHERE id = ?',
+        )
+          .bind(new Date().toISOString(), id)
+          .run();
+      },
+      async setPreviewKeys(id: string, keys: { thumbnailKey: string; previewKey: string | null }): Promise<void> {
+        await env.DB.prepare('UPDATE submissions SET thumbnail_key = ?, preview_key = ? WHERE id = ?')
+          .bind(keys.thumbnailKey, keys.previewKey, id)
+          .run();
+      },
+      async listTrashed(streamerId: string): Promise<SubmissionRow[]> {
+        const { results } = await env.DB.prepare(
+          'SELECT * FROM submissions WHERE streamer_id = ? AND trashed_at IS NOT NULL ORDER BY trashed_at DESC',
+        )
+          .bind(streamerId)
+          .all<SubmissionRow>();
+        return (results ?? []) as SubmissionRow[];
+      },
+      /**
+       * Submissions past their expiry or whose trash grace period has run out. A trashed
+       * submission stays restorable until its purge_at, whatever its own expiry says.
+       */
       async listExpired(streamerId: string): Promise<SubmissionRow[]> {
+        const now = new Date().toISOString();
         const { results } = await env.DB.prepare(
-          'SELECT * FROM submissions WHERE streamer_id = ? AND expires_at <= ?',
+          `SELECT * FROM submissions
+           WHERE streamer_id = ? AND ((trashed_at IS NULL AND expires_at <= ?) OR purge_at <= ?)`,
         )
-          .bind(streamerId, new Date().toISOString())
+          .bind(streamerId, now, now)
+          .all<SubmissionRow>();
+        return (results ?? []) as SubmissionRow[];
+      },
+      /** Expired or purgeable submissions across every streamer, oldest expiry first. */
+      async listExpiredBatch(limit: number): Promise<SubmissionRow[]> {
+        const now = new Date().toISOString();
+        const { results } = await env.DB.prepare(
+          `SELECT * FROM submissions
+           WHERE (trashed_at IS NULL AND expires_at <= ?) OR purge_at <= ?
+           ORDER BY COALESCE(purge_at, expires_at) ASC
+           LIMIT ?`,
+        )
+          .bind(now, now, limit)
           .all<SubmissionRow>();
         return (results ?? []) as SubmissionRow[];
       },
@@ -177,42 +420,376 @@ export function createRepositories(env: GifstremBindings) {
         const record = await env.DB.prepare('SELECT * FROM submissions WHERE id = ?').bind(id).first<SubmissionRow>();
         return record ?? undefined;
       },
-      async updateStatus(id: string, status: 'pending' | 'approved' | 'denied'): Promise<void> {
+      async updateStatus(id: string, status: 'pending' | 'approved' | 'denied', expiresAt?: string): Promise<void> {
         const now = new Date().toISOString();
         if (status === 'pending') {
-          await env.DB.prepare(
+          await env.DB.batch([
+            env.DB.prepare(
+              `UPDATE submissions
+               SET status = 'pending', updated_at = ?, approved_at = NULL, denied_at = NULL
+               WHERE id = ?`,
+            ).bind(now, id),
+            bumpFeedVersionForSubmissions(env, [id]),
+          ]);
+          return;
+        }
+        const field = status === 'approved' ? 'approved_at' : 'denied_at';
+        await env.DB.batch([
+          env.DB.prepare(
             `UPDATE submissions
-             SET status = 'pending', updated_at = ?, approved_at = NULL, denied_at = NULL
+             SET status = ?, updated_at = ?, ${field} = ?, expires_at = COALESCE(?, expires_at)
              WHERE id = ?`,
+          ).bind(status, now, now, expiresAt ?? null, id),
+          bumpFeedVersionForSubmissions(env, [id]),
+        ]);
+      },
+      /** Hides a submission everywhere but the trash list; the file survives until purgeAt. */
+      async trash(id: string, purgeAt: string): Promise<void> {
+        const now = new Date().toISOString();
+        await env.DB.batch([
+          env.DB.prepare('UPDATE submissions SET trashed_at = ?, purge_at = ?, updated_at = ? WHERE id = ?').bind(
+            now,
+            purgeAt,
+            now,
+            id,
+          ),
+          bumpFeedVersionForSubmissions(env, [id]),
+        ]);
+      },
+      async restore(id: string): Promise<void> {
+        await env.DB.batch([
+          env.DB.prepare('UPDATE submissions SET trashed_at = NULL, purge_at = NULL, updated_at = ? WHERE id = ?').bind(
+            new Date().toISOString(),
+            id,
+          ),
+          bumpFeedVersionForSubmissions(env, [id]),
+        ]);
+      },
+      async delete(id: string): Promise<void> {
+        await env.DB.batch([
+          bumpFeedVersionForSubmissions(env, [id]),
+          env.DB.prepare('DELETE FROM submissions WHERE id = ?').bind(id),
+        ]);
+      },
+      async deleteMany(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        const placeholders = ids.map(() => '?').join(', ');
+        await env.DB.batch([
+          bumpFeedVersionForSubmissions(env, ids),
+          env.DB.prepare(`DELETE FROM submissions WHERE id IN (${placeholders})`).bind(...ids),
+        ]);
+      },
+      async updateLayout({ id, layout }: UpdateSubmissionLayoutInput): Promise<void> {
+        await env.DB.batch([
+          env.DB.prepare('UPDATE submissions SET layout = ?, updated_at = ? WHERE id = ?').bind(
+            layout ? JSON.stringify(layout) : null,
+            new Date().toISOString(),
+            id,
+          ),
+          bumpFeedVersionForSubmissions(env, [id]),
+        ]);
+      },
+    },
+    members: {
+      async createInvite(input: CreateMemberInviteInput): Promise<StreamerMemberRow> {
+        const record = await env.DB.prepare(
+          `INSERT INTO streamer_members (id, streamer_id, user_id, invite_code, permissions, created_at, accepted_at)
+           VALUES (?, ?, NULL, ?, ?, ?, NULL)
+           RETURNING *`,
+        )
+          .bind(
+            crypto.randomUUID(),
+            input.streamerId,
+            input.inviteCode,
+            JSON.stringify(input.permissions),
+            new Date().toISOString(),
           )
-            .bind(now, id)
-            .run();
-          return;
+          .first<StreamerMemberRow>();
+        if (!record) {
+          throw new Error('Failed to create invite');
         }
-        const field = status === 'approved' ? 'approved_at' : 'denied_at';
+        return record;
+      },
+      async findById(id: string): Promise<StreamerMemberRow | undefined> {
+        const record = await env.DB.prepare('SELECT * FROM streamer_members WHERE id = ?')
+          .bind(id)
+          .first<StreamerMemberRow>();
+        return record ?? undefined;
+      },
+      async findByInviteCode(inviteCode: string): Promise<StreamerMemberRow | undefined> {
+        const record = await env.DB.prepare('SELECT * FROM streamer_members WHERE invite_code = ? AND user_id IS NULL')
+          .bind(inviteCode)
+          .first<StreamerMemberRow>();
+        return record ?? undefined;
+      },
+      async findMembership(streamerId: string, userId: string): Promise<StreamerMemberRow | undefined> {
+        const record = await env.DB.prepare('SELECT * FROM streamer_members WHERE streamer_id = ? AND user_id = ?')
+          .bind(streamerId, userId)
+          .first<StreamerMemberRow>();
+        return record ?? undefined;
+      },
+      /** Members and open invites of a streamer, joined with the moderator's account. */
+      async listForStreamer(streamerId: string): Promise<StreamerMemberWithUserRow[]> {
+        const { results } = await env.DB.prepare(
+          `SELECT streamer_members.*, users.display_name, users.slug
+           FROM streamer_members
+           LEFT JOIN users ON users.id = streamer_members.user_id
+           WHERE streamer_members.streamer_id = ?
+           ORDER BY streamer_members.created_at ASC`,
+        )
+          .bind(streamerId)
+          .all<StreamerMemberWithUserRow>();
+        return (results ?? []) as StreamerMemberWithUserRow[];
+      },
+      /** Channels a user moderates, joined with the streamer's account. */
+      async listForUser(userId: string): Promise<StreamerMemberWithUserRow[]> {
+        const { results } = await env.DB.prepare(
+          `SELECT streamer_members.*, users.display_name, users.slug
+           FROM streamer_members
+           JOIN users ON users.id = streamer_members.streamer_id
+           WHERE streamer_members.user_id = ?
+           ORDER BY users.display_name ASC`,
+        )
+          .bind(userId)
+          .all<StreamerMemberWithUserRow>();
+        return (results ?? []) as StreamerMemberWithUserRow[];
+      },
+      /** Joins a user to an open invite. Returns false when someone else used it first. */
+      async accept(id: string, userId: string): Promise<boolean> {
+        const result = await env.DB.prepare(
+          'UPDATE streamer_members SET user_id = ?, invite_code = NULL, accepted_at = ? WHERE id = ? AND accepted_at IS NULL',
+        )
+          .bind(userId, new Date().toISOString(), id)
+          .run();
+        return (result.meta?.changes ?? 0) > 0;
+      },
+      /**
+       * Takes an open invite for an account that does not exist yet, so signup can
+       * answer before creating it. Returns false when someone else used it first;
+       * assignUser then attaches the new account.
+       */
+      async claim(id: string): Promise<boolean> {
+        const result = await env.DB.prepare(
+          'UPDATE streamer_members SET invite_code = NULL, accepted_at = ? WHERE id = ? AND accepted_at IS NULL',
+        )
+          .bind(new Date().toISOString(), id)
+          .run();
+        return (result.meta?.changes ?? 0) > 0;
+      },
+      async assignUser(id: string, userId: string): Promise<void> {
+        await env.DB.prepare('UPDATE streamer_members SET user_id = ? WHERE id = ? AND user_id IS NULL')
+          .bind(userId, id)
+          .run();
+      },
+      async updatePermissions(id: string, permissions: string[]): Promise<void> {
+        await env.DB.prepare('UPDATE streamer_members SET permissions = ? WHERE id = ?')
+          .bind(JSON.stringify(permissions), id)
+          .run();
+      },
+      async delete(id: string): Promise<void> {
+        await env.DB.prepare('DELETE FROM streamer_members WHERE id = ?').bind(id).run();
+      },
+    },
+    sessions: {
+      async create(input: CreateSessionInput): Promise<SessionRow> {
+        const now = new Date().toISOString();
+        const record = await env.DB.prepare(
+          `INSERT INTO sessions (
+            id, user_id, refresh_hash, created_at, refreshed_at, expires_at, user_agent, location_hint, last_seen_at
+          )
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`,
+        )
+          .bind(
+            crypto.randomUUID(),
+            input.userId,
+            input.refreshHash,
+            now,
+            now,
+            input.expiresAt,
+            input.userAgent,
+            input.locationHint,
+            now,
+          )
+          .first<SessionRow>();
+        if (!record) {
+          throw new Error('Failed to create session');
+        }
+        return record;
+      },
+      async findById(id: string): Promise<SessionRow | undefined> {
+        const record = await env.DB.prepare('SELECT * FROM sessions WHERE id = ?').bind(id).first<SessionRow>();
+        return record ?? undefined;
+      },
+      /** Sessions that can still be refreshed, most recently used first. */
+      async listActiveForUser(userId: string): Promise<SessionRow[]> {
+        const { results } = await env.DB.prepare(
+          `SELECT * FROM sessions
+           WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+           ORDER BY COALESCE(last_seen_at, created_at) DESC`,
+        )
+          .bind(userId, new Date().toISOString())
+          .all<SessionRow>();
+        return (results ?? []) as SessionRow[];
+      },
+      async touch(id: string, userAgent: string | null, locationHint: string | null): Promise<void> {
         await env.DB.prepare(
-          `UPDATE submissions
-           SET status = ?, updated_at = ?, ${field} = ?
+          `UPDATE sessions
+           SET last_seen_at = ?, user_agent = COALESCE(?, user_agent), location_hint = COALESCE(?, location_hint)
            WHERE id = ?`,
         )
-          .bind(status, now, now, id)
+          .bind(new Date().toISOString(), userAgent, locationHint, id)
+          .run();
+      },
+      /**
+       * Swaps in a new refresh hash. Only succeeds while `currentHash` is still
+       * the live one, so two concurrent refreshes cannot both win.
+       */
+      async rotate(id: string, currentHash: string, nextHash: string): Promise<boolean> {
+        const result = await env.DB.prepare(
+          `UPDATE sessions
+           SET refresh_hash = ?, previous_refresh_hash = refresh_hash, refreshed_at = ?
+           WHERE id = ? AND refresh_hash = ? AND revoked_at IS NULL`,
+        )
+          .bind(nextHash, new Date().toISOString(), id, currentHash)
+          .run();
+        return (result.meta?.changes ?? 0) > 0;
+      },
+      async revoke(id: string): Promise<void> {
+        await env.DB.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+          .bind(new Date().toISOString(), id)
+          .run();
+      },
+      /** Revokes every live session for the user, optionally keeping the caller's own. */
+      async revokeAllForUser(userId: string, exceptId?: string): Promise<number> {
+        const result = await env.DB.prepare(
+          'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND id != ?',
+        )
+          .bind(new Date().toISOString(), userId, exceptId ?? '')
           .run();
+        return result.meta?.changes ?? 0;
+      },
+    },
+    blocklist: {
+      async listForStreamer(streamerId: string): Promise<BlocklistEntryRow[]> {
+        const { results } = await env.DB.prepare(
+          'SELECT * FROM blocklist_entries WHERE streamer_id = ? ORDER BY created_at DESC',
+        )
+          .bind(streamerId)
+          .all<BlocklistEntryRow>();
+        return (results ?? []) as BlocklistEntryRow[];
+      },
+      async findById(id: string): Promise<BlocklistEntryRow | undefined> {
+        const record = await env.DB.prepare('SELECT * FROM blocklist_entries WHERE id = ?')
+          .bind(id)
+          .first<BlocklistEntryRow>();
+        return record ?? undefined;
+      },
+      /** Adding an entry that already exists returns the existing row. */
+      async create(input: CreateBlocklistEntryInput): Promise<BlocklistEntryRow> {
+        await env.DB.prepare(
+          `INSERT INTO blocklist_entries (id, streamer_id, kind, value, created_at)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(streamer_id, kind, value) DO NOTHING`,
+        )
+          .bind(crypto.randomUUID(), input.streamerId, input.kind, input.value, new Date().toISOString())
+          .run();
+        const record = await env.DB.prepare(
+          'SELECT * FROM blocklist_entries WHERE streamer_id = ? AND kind = ? AND value = ?',
+        )
+          .bind(input.streamerId, input.kind, input.value)
+          .first<BlocklistEntryRow>();
+        if (!record) {
+          throw new Error('Failed to save blocklist entry');
+        }
+        return record;
       },
       async delete(id: string): Promise<void> {
-        await env.DB.prepare('DELETE FROM submissions WHERE id = ?').bind(id).run();
+        await env.DB.prepare('DELETE FROM blocklist_entries WHERE id = ?').bind(id).run();
       },
-      async deleteMany(ids: string[]): Promise<void> {
-        if (ids.length === 0) return;
-        const placeholders = ids.map(() => '?').join(', ');
-        await env.DB.prepare(`DELETE FROM submissions WHERE id IN (${placeholders})`).bind(...ids).run();
+    },
+    audit: {
+      async create(input: CreateAuditEventInput): Promise<void> {
+        await env.DB.prepare(
+          `INSERT INTO audit_events (
+            id, streamer_id, actor_id, actor_name, action, target_type, target_id, before, after, created_at
+          )
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+          .bind(
+            crypto.randomUUID(),
+            input.streamerId,
+            input.actorId,
+            input.actorName,
+            input.action,
+            input.targetType,
+            input.targetId ?? null,
+            input.before === undefined ? null : JSON.stringify(input.before),
+            input.after === undefined ? null : JSON.stringify(input.after),
+            new Date().toISOString(),
+          )
+          .run();
       },
-      async updateLayout({ id, layout }: UpdateSubmissionLayoutInput): Promise<void> {
-        await env.DB.prepare('UPDATE submissions SET layout = ?, updated_at = ? WHERE id = ?')
-          .bind(JSON.stringify(layout), new Date().toISOString(), id)
+      /** Newest first; pass the last row of a page as the cursor to continue. */
+      async listForStreamer(streamerId: string, limit: number, cursor?: AuditCursor): Promise<AuditEventRow[]> {
+        const statement = cursor
+          ? env.DB.prepare(
+              `SELECT * FROM audit_events
+               WHERE streamer_id = ? AND (created_at < ? OR (created_at = ? AND id < ?))
+               ORDER BY created_at DESC, id DESC
+               LIMIT ?`,
+            ).bind(streamerId, cursor.createdAt, cursor.createdAt, cursor.id, limit)
+          : env.DB.prepare(
+              'SELECT * FROM audit_events WHERE streamer_id = ? ORDER BY created_at DESC, id DESC LIMIT ?',
+            ).bind(streamerId, limit);
+        const { results } = await statement.all<AuditEventRow>();
+        return (results ?? []) as AuditEventRow[];
+      },
+    },
+    overlayEvents: {
+      async create(input: CreateOverlayEventInput): Promise<void> {
+        await env.DB.prepare('INSERT INTO overlay_events (streamer_id, type, payload, created_at) VALUES (?, ?, ?, ?)')
+          .bind(
+            input.streamerId,
+            input.type,
+            input.payload === undefined ? null : JSON.stringify(input.payload),
+            new Date().toISOString(),
+          )
+          .run();
+      },
+      async latestId(streamerId: string): Promise<number> {
+        const record = await env.DB.prepare('SELECT MAX(id) as latest FROM overlay_events WHERE streamer_id = ?')
+          .bind(streamerId)
+          .first<{ latest: number | null }>();
+        return Number(record?.latest ?? 0);
+      },
+      async listAfter(streamerId: string, afterId: number, limit = 100): Promise<OverlayEventRow[]> {
+        const { results } = await env.DB.prepare(
+          'SELECT * FROM overlay_events WHERE streamer_id = ? AND id > ? ORDER BY id ASC LIMIT ?',
+        )
+          .bind(streamerId, afterId, limit)
+          .all<OverlayEventRow>();
+        return (results ?? []) as OverlayEventRow[];
+      },
+      async pruneBefore(streamerId: string, before: string): Promise<void> {
+        await env.DB.prepare('DELETE FROM overlay_events WHERE streamer_id = ? AND created_at < ?')
+          .bind(streamerId, before)
           .run();
       },
     },
   };
 }
 
+/**
+ * Bumps feed_version for every streamer owning one of the given submissions so
+ * overlay polls notice the change. Must run before rows are deleted.
+ */
+function bumpFeedVersionForSubmissions(env: GifstremBindings, submissionIds: string[]) {
+  const placeholders = submissionIds.map(() => '?').join(', ');
+  return env.DB.prepare(
+    `UPDATE users SET feed_version = feed_version + 1
+     WHERE id IN (SELECT DISTINCT streamer_id FROM submissions WHERE id IN (${placeholders}))`,
+  ).bind(...submissionIds);
+}
+
 export type Repositories = ReturnType<typeof createRepositories>;
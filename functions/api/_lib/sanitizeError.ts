@@ -0,0 +1,9 @@
+/** Thrown when an upload claims the right format but its structure is broken or unsupported; maps to a 400. */
+export class MediaSanitizeError extends Error {
+  readonly code = 'invalid_image';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaSanitizeError';
+  }
+}
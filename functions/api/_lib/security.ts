@@ -1,6 +1,6 @@
 import { SignJWT, jwtVerify } from 'jose';
 import { scrypt } from 'scrypt-js';
-import { GifstremBindings, UserRow } from './types';
+import type { GifstremBindings, UserRow } from './types';
 
 const encoder = new TextEncoder();
 
@@ -8,8 +8,17 @@ export type TokenPayload = {
   userId: string;
   username: string;
   slug: string;
+  /** Session the token was issued for; requireAuth rejects it once that session is revoked. */
+  sid: string;
 };
 
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60 * 24 * 7;
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Each token kind gets its own audience so jwtVerify refuses one where the other is expected
+const ACCESS_TOKEN_AUDIENCE = 'access';
+const LOGIN_CHALLENGE_AUDIENCE = 'login_2fa';
+
 const SCRYPT_PARAMS = {
   N: 2 ** 15,
   r: 8,
@@ -19,7 +28,14 @@ const SCRYPT_PARAMS = {
 
 export async function hashPassword(password: string): Promise<string> {
   const salt = crypto.getRandomValues(new Uint8Array(16));
-  const derived = await scrypt(encoder.encode(password), salt, SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, SCRYPT_PARAMS.dkLen);
+  const derived = await scrypt(
+    encoder.encode(password),
+    salt,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    SCRYPT_PARAMS.dkLen,
+  );
   return `${toHex(salt)}:${toHex(derived)}`;
 }
 
@@ -27,34 +43,92 @@ export async function verifyPassword(hash: string, password: string): Promise<bo
   const [saltHex, hashHex] = hash.split(':');
   if (!saltHex || !hashHex) return false;
   const salt = fromHex(saltHex);
-  const derived = await scrypt(encoder.encode(password), salt, SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, SCRYPT_PARAMS.dkLen);
+  const derived = await scrypt(
+    encoder.encode(password),
+    salt,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    SCRYPT_PARAMS.dkLen,
+  );
   return timingSafeEqual(fromHex(hashHex), derived);
 }
 
-export async function generateAccessToken(env: GifstremBindings, user: UserRow): Promise<string> {
+export async function generateAccessToken(env: GifstremBindings, user: UserRow, sessionId: string): Promise<string> {
   const payload: TokenPayload = {
     userId: user.id,
     username: user.username,
     slug: user.slug,
+    sid: sessionId,
   };
-  const ttl = Number(env.SESSION_TTL_SECONDS ?? 60 * 60 * 24 * 7);
+  const ttl = Number(env.ACCESS_TOKEN_TTL_SECONDS ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS);
   return new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(ACCESS_TOKEN_AUDIENCE)
     .setIssuedAt()
     .setExpirationTime(`${ttl}s`)
     .sign(encoder.encode(env.JWT_SECRET));
 }
 
+/**
+ * Accepts only session-bound access tokens. Anything else signed with the same
+ * secret, such as a login challenge or a token from before sessions existed,
+ * is refused so it cannot stand in for a signed-in session.
+ */
 export async function verifyAccessToken(env: GifstremBindings, token: string): Promise<TokenPayload> {
-  const { payload } = await jwtVerify(token, encoder.encode(env.JWT_SECRET));
+  const { payload } = await jwtVerify(token, encoder.encode(env.JWT_SECRET), { audience: ACCESS_TOKEN_AUDIENCE });
+  if (typeof payload.userId !== 'string' || typeof payload.sid !== 'string') {
+    throw new Error('Not an access token');
+  }
   return payload as TokenPayload;
 }
 
+/**
+ * Short-lived proof that the password step passed for an account with 2FA on.
+ * Its audience keeps it from being used as an access token, and access tokens from being used as it.
+ */
+export async function generateLoginChallenge(env: GifstremBindings, user: UserRow): Promise<string> {
+  return new SignJWT({ userId: user.id })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(LOGIN_CHALLENGE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${LOGIN_CHALLENGE_TTL_SECONDS}s`)
+    .sign(encoder.encode(env.JWT_SECRET));
+}
+
+/** Returns the user id the challenge was issued for, or null when it is invalid or expired. */
+export async function verifyLoginChallenge(env: GifstremBindings, token: string): Promise<string | null> {
+  try {
+    const { payload } = await jwtVerify(token, encoder.encode(env.JWT_SECRET), { audience: LOGIN_CHALLENGE_AUDIENCE });
+    return typeof payload.userId === 'string' ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionExpiresAt(env: GifstremBindings): string {
+  const ttl = Number(env.SESSION_TTL_SECONDS ?? DEFAULT_SESSION_TTL_SECONDS);
+  return new Date(Date.now() + ttl * 1000).toISOString();
+}
+
+/** Refresh tokens are `<session id>.<secret>`; only a SHA-256 of the secret is stored. */
+export function createRefreshSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashRefreshSecret(secret: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(secret))));
+}
+
 export function createOverlayToken(): string {
   const bytes = crypto.getRandomValues(new Uint8Array(24));
   return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
 
+export function createInviteCode(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(10)));
+}
+
 function toHex(bytes: Uint8Array) {
   return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
@@ -62,11 +136,15 @@ function toHex(bytes: Uint8Array) {
 function fromHex(hex: string) {
   const result = new Uint8Array(hex.length / 2);
   for (let i = 0; i < result.length; i++) {
-    result[i] = parseInt(hex.substr(i * 2, 2), 16);
+    result[i] = Number.parseInt(hex.substr(i * 2, 2), 16);
   }
   return result;
 }
 
+export function secretsMatch(expected: string, provided: string): boolean {
+  return timingSafeEqual(encoder.encode(expected), encoder.encode(provided));
+}
+
 function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
   if (a.length !== b.length) return false;
   let diff = 0;
@@ -1,5 +1,13 @@
+import { parsePermissions } from './permissions';
 import { ensureSettings } from './settings';
-import { SubmissionRow, UserRow } from './types';
+import type {
+  AuditEventRow,
+  BlocklistEntryRow,
+  SessionRow,
+  StreamerMemberWithUserRow,
+  SubmissionRow,
+  UserRow,
+} from './types';
 
 export function serializeUser(user: UserRow) {
   return {
@@ -8,6 +16,7 @@ export function serializeUser(user: UserRow) {
     displayName: user.display_name,
     slug: user.slug,
     overlayToken: user.overlay_token,
+    role: user.role ?? 'streamer',
     settings: ensureSettings(user.settings),
     createdAt: user.created_at,
     updatedAt: user.updated_at,
@@ -29,6 +38,78 @@ export function serializeSubmission(submission: SubmissionRow) {
     approvedAt: submission.approved_at,
     deniedAt: submission.denied_at,
     layout: submission.layout ? safeParse(submission.layout) : null,
+    trashedAt: submission.trashed_at ?? null,
+    purgeAt: submission.purge_at ?? null,
+    duplicateCount: submission.duplicate_count ?? 0,
+    thumbnailUrl: derivedFileUrl(submission, submission.thumbnail_key),
+    previewUrl: derivedFileUrl(submission, submission.preview_key),
+  };
+}
+
+/** Generated objects live under the same public base URL as the original upload. */
+function derivedFileUrl(submission: SubmissionRow, key: string | null) {
+  if (!key || !submission.file_url.endsWith(submission.file_key)) {
+    return null;
+  }
+  return submission.file_url.slice(0, -submission.file_key.length) + key;
+}
+
+export function serializeBlocklistEntry(entry: BlocklistEntryRow) {
+  return {
+    id: entry.id,
+    kind: entry.kind,
+    value: entry.value,
+    createdAt: entry.created_at,
+  };
+}
+
+export function serializeSession(session: SessionRow, currentSessionId?: string) {
+  return {
+    id: session.id,
+    userAgent: session.user_agent,
+    locationHint: session.location_hint,
+    createdAt: session.created_at,
+    lastSeenAt: session.last_seen_at ?? session.created_at,
+    current: session.id === currentSessionId,
+  };
+}
+
+export function serializeMember(member: StreamerMemberWithUserRow) {
+  return {
+    id: member.id,
+    userId: member.user_id,
+    displayName: member.display_name,
+    slug: member.slug,
+    inviteCode: member.invite_code,
+    permissions: parsePermissions(member.permissions),
+    createdAt: member.created_at,
+    acceptedAt: member.accepted_at,
+  };
+}
+
+export function serializeMembership(membership: StreamerMemberWithUserRow) {
+  return {
+    id: membership.id,
+    streamer: {
+      id: membership.streamer_id,
+      displayName: membership.display_name,
+      slug: membership.slug,
+    },
+    permissions: parsePermissions(membership.permissions),
+    acceptedAt: membership.accepted_at,
+  };
+}
+
+export function serializeAuditEvent(event: AuditEventRow) {
+  return {
+    id: event.id,
+    actor: { id: event.actor_id, name: event.actor_name },
+    action: event.action,
+    targetType: event.target_type,
+    targetId: event.target_id,
+    before: event.before ? safeParse(event.before) : null,
+    after: event.after ? safeParse(event.after) : null,
+    createdAt: event.created_at,
   };
 }
 
@@ -1,8 +1,90 @@
-import type { ResolutionSafeZone, SafeZone, SettingsShape } from './types';
+import type {
+  AnimationEasing,
+  AnimationSettings,
+  AnimationVariant,
+  BlocklistMode,
+  CaptionFont,
+  CaptionPosition,
+  CaptionSettings,
+  DisplayMode,
+  DisplayModeSettings,
+  DuplicateHandling,
+  MediaPolicy,
+  RateLimits,
+  ResolutionSafeZone,
+  SafeZone,
+  SettingsShape,
+  SubmissionLimits,
+  TickerEdge,
+} from './types';
 
-const DEFAULT_ANIMATION = { type: 'pop', durationMs: 600 } as const;
+export const ANIMATION_VARIANTS = ['pop', 'fade', 'slide', 'drop', 'spin', 'confetti'] as const;
+export const ANIMATION_EASINGS = ['ease-out', 'ease-in-out', 'linear', 'spring'] as const;
+export const ANIMATION_DURATION_BOUNDS = { min: 150, max: 3000 } as const;
+const DEFAULT_ANIMATION: AnimationSettings = { enter: 'pop', exit: 'fade', easing: 'spring', durationMs: 600 };
+export const DISPLAY_MODES = ['collage', 'spotlight', 'ticker'] as const;
+export const TICKER_EDGES = ['top', 'bottom'] as const;
+export const DISPLAY_MODE_BOUNDS = {
+  secondsPerItem: { min: 3, max: 120 },
+  itemSize: { min: 64, max: 400 },
+  speed: { min: 20, max: 600 },
+} as const;
+const DEFAULT_DISPLAY_MODE: DisplayModeSettings = {
+  mode: 'collage',
+  spotlight: { secondsPerItem: 8, showCaptions: true },
+  ticker: { edge: 'bottom', itemSize: 160, speed: 120 },
+};
+export const CAPTION_FONTS = ['sans', 'rounded', 'serif', 'mono', 'display'] as const;
+export const CAPTION_POSITIONS = ['above', 'below', 'overlay'] as const;
+export const CAPTION_BOUNDS = {
+  fontSize: { min: 12, max: 72 },
+  maxLength: { min: 10, max: 200 },
+} as const;
+export const CAPTION_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const DEFAULT_CAPTIONS: CaptionSettings = {
+  enabled: false,
+  font: 'rounded',
+  fontSize: 24,
+  color: '#ffffff',
+  position: 'below',
+  maxLength: 80,
+};
 const DEFAULT_SIZE = { width: 1920, height: 1080 } as const;
 const DEFAULT_ROTATION_ENABLED = true;
+export const DEFAULT_TRASH_RETENTION_MINUTES = 30;
+export const MAX_TRASH_RETENTION_MINUTES = 24 * 60;
+export const DEFAULT_SUBMISSION_LIMITS: SubmissionLimits = {
+  pendingExpiryHours: 12,
+  approvedExpiryHours: 12,
+  maxSubmissions: 64,
+};
+export const MAX_SUBMISSION_EXPIRY_HOURS = 72;
+export const MAX_SUBMISSIONS_CAP = 500;
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  windowMinutes: 10,
+  perIp: 8,
+  perUploader: 4,
+};
+export const MAX_RATE_LIMIT_WINDOW_MINUTES = 24 * 60;
+export const MAX_RATE_LIMIT_REQUESTS = 100;
+export const DUPLICATE_HANDLING_MODES: DuplicateHandling[] = ['merge', 'reject', 'allow'];
+const DEFAULT_DUPLICATE_HANDLING: DuplicateHandling = 'merge';
+export const BLOCKLIST_MODES: BlocklistMode[] = ['silent', 'reject'];
+const DEFAULT_BLOCKLIST_MODE: BlocklistMode = 'silent';
+export const DEFAULT_MEDIA_POLICY: MediaPolicy = {
+  maxFrames: 300,
+  maxDurationSeconds: 15,
+  maxWidth: 1280,
+  maxHeight: 1280,
+  allowStillImages: true,
+  limitStillSize: false,
+};
+export const MEDIA_POLICY_BOUNDS = {
+  maxFrames: { min: 1, max: 2000 },
+  maxDurationSeconds: { min: 1, max: 120 },
+  maxWidth: { min: 64, max: 4096 },
+  maxHeight: { min: 64, max: 4096 },
+} as const;
 
 export function ensureSettings(payload: string | null | undefined): SettingsShape {
   let parsed: unknown;
@@ -30,6 +112,8 @@ export function ensureSettings(payload: string | null | undefined): SettingsShap
   }
 
   const animation = normalizeAnimation(parsed);
+  const displayMode = normalizeDisplayMode(parsed);
+  const captions = normalizeCaptions(parsed);
   const showSafeZoneOverlay =
     parsed && typeof parsed === 'object' && 'showSafeZoneOverlay' in parsed
       ? typeof (parsed as Record<string, unknown>).showSafeZoneOverlay === 'boolean'
@@ -39,14 +123,28 @@ export function ensureSettings(payload: string | null | undefined): SettingsShap
   const rotationEnabled = normalizeRotationEnabled(parsed);
   const preferredResolution = normalizePreferredResolution(parsed);
   const customResolution = normalizeCustomResolution(parsed);
+  const trashRetentionMinutes = normalizeTrashRetention(parsed);
+  const submissionLimits = normalizeSubmissionLimits(parsed);
+  const rateLimits = normalizeRateLimits(parsed);
+  const duplicateHandling = normalizeDuplicateHandling(parsed);
+  const blocklistMode = normalizeBlocklistMode(parsed);
+  const mediaPolicy = normalizeMediaPolicy(parsed);
 
   return {
     safeZones,
     animation,
+    displayMode,
+    captions,
     showSafeZoneOverlay,
     rotationEnabled,
     preferredResolution,
     customResolution,
+    trashRetentionMinutes,
+    submissionLimits,
+    rateLimits,
+    duplicateHandling,
+    blocklistMode,
+    mediaPolicy,
   };
 }
 
@@ -57,8 +155,7 @@ function normalizeResolutionSafeZone(entry: unknown): ResolutionSafeZone | null
   const safeEntry = entry as Record<string, unknown>;
   const size = normalizeSize(safeEntry.size);
   const zones = normalizeZonesArray(safeEntry);
-  const enabled =
-    typeof safeEntry.enabled === 'boolean' ? safeEntry.enabled : undefined;
+  const enabled = typeof safeEntry.enabled === 'boolean' ? safeEntry.enabled : undefined;
   return {
     zones: zones.length > 0 ? zones : [defaultZoneForSize(size)],
     size,
@@ -68,9 +165,7 @@ function normalizeResolutionSafeZone(entry: unknown): ResolutionSafeZone | null
 
 function normalizeZonesArray(entry: Record<string, unknown>): SafeZone[] {
   if (Array.isArray(entry.zones)) {
-    const zones = entry.zones
-      .map((zone) => normalizeZone(zone))
-      .filter((zone): zone is SafeZone => Boolean(zone));
+    const zones = entry.zones.map((zone) => normalizeZone(zone)).filter((zone): zone is SafeZone => Boolean(zone));
     if (zones.length > 0) {
       return zones;
     }
@@ -91,14 +186,7 @@ function normalizeZone(zone: unknown): SafeZone | null {
   const y = numberOrNull(payload.y);
   const width = numberOrNull(payload.width);
   const height = numberOrNull(payload.height);
-  if (
-    x === null ||
-    y === null ||
-    width === null ||
-    height === null ||
-    width <= 0 ||
-    height <= 0
-  ) {
+  if (x === null || y === null || width === null || height === null || width <= 0 || height <= 0) {
     return null;
   }
   return {
@@ -130,23 +218,121 @@ function defaultZoneForSize(size: { width: number; height: number }): SafeZone {
   };
 }
 
-function normalizeAnimation(payload: unknown) {
+function normalizeAnimation(payload: unknown): AnimationSettings {
   if (payload && typeof payload === 'object' && 'animation' in payload) {
     const animation = (payload as Record<string, unknown>).animation;
     if (animation && typeof animation === 'object') {
       const value = animation as Record<string, unknown>;
-      const type =
-        typeof value.type === 'string' ? value.type : DEFAULT_ANIMATION.type;
-      const durationMs =
-        typeof value.durationMs === 'number'
-          ? value.durationMs
-          : DEFAULT_ANIMATION.durationMs;
-      return { type, durationMs };
+      // Settings saved before enter/exit existed only had a single `type`
+      const enter = value.enter ?? value.type;
+      return {
+        enter: ANIMATION_VARIANTS.includes(enter as AnimationVariant)
+          ? (enter as AnimationVariant)
+          : DEFAULT_ANIMATION.enter,
+        exit: ANIMATION_VARIANTS.includes(value.exit as AnimationVariant)
+          ? (value.exit as AnimationVariant)
+          : DEFAULT_ANIMATION.exit,
+        easing: ANIMATION_EASINGS.includes(value.easing as AnimationEasing)
+          ? (value.easing as AnimationEasing)
+          : DEFAULT_ANIMATION.easing,
+        durationMs: clampInteger(
+          value.durationMs,
+          ANIMATION_DURATION_BOUNDS.min,
+          ANIMATION_DURATION_BOUNDS.max,
+          DEFAULT_ANIMATION.durationMs,
+        ),
+      };
     }
   }
   return { ...DEFAULT_ANIMATION };
 }
 
+function normalizeDisplayMode(payload: unknown): DisplayModeSettings {
+  const raw =
+    payload && typeof payload === 'object' && 'displayMode' in payload
+      ? (payload as Record<string, unknown>).displayMode
+      : null;
+  if (!raw || typeof raw !== 'object') {
+    return {
+      mode: DEFAULT_DISPLAY_MODE.mode,
+      spotlight: { ...DEFAULT_DISPLAY_MODE.spotlight },
+      ticker: { ...DEFAULT_DISPLAY_MODE.ticker },
+    };
+  }
+  const value = raw as Record<string, unknown>;
+  const spotlight = (value.spotlight && typeof value.spotlight === 'object' ? value.spotlight : {}) as Record<
+    string,
+    unknown
+  >;
+  const ticker = (value.ticker && typeof value.ticker === 'object' ? value.ticker : {}) as Record<string, unknown>;
+  return {
+    mode: DISPLAY_MODES.includes(value.mode as DisplayMode) ? (value.mode as DisplayMode) : DEFAULT_DISPLAY_MODE.mode,
+    spotlight: {
+      secondsPerItem: clampInteger(
+        spotlight.secondsPerItem,
+        DISPLAY_MODE_BOUNDS.secondsPerItem.min,
+        DISPLAY_MODE_BOUNDS.secondsPerItem.max,
+        DEFAULT_DISPLAY_MODE.spotlight.secondsPerItem,
+      ),
+      showCaptions:
+        typeof spotlight.showCaptions === 'boolean'
+          ? spotlight.showCaptions
+          : DEFAULT_DISPLAY_MODE.spotlight.showCaptions,
+    },
+    ticker: {
+      edge: TICKER_EDGES.includes(ticker.edge as TickerEdge)
+        ? (ticker.edge as TickerEdge)
+        : DEFAULT_DISPLAY_MODE.ticker.edge,
+      itemSize: clampInteger(
+        ticker.itemSize,
+        DISPLAY_MODE_BOUNDS.itemSize.min,
+        DISPLAY_MODE_BOUNDS.itemSize.max,
+        DEFAULT_DISPLAY_MODE.ticker.itemSize,
+      ),
+      speed: clampInteger(
+        ticker.speed,
+        DISPLAY_MODE_BOUNDS.speed.min,
+        DISPLAY_MODE_BOUNDS.speed.max,
+        DEFAULT_DISPLAY_MODE.ticker.speed,
+      ),
+    },
+  };
+}
+
+function normalizeCaptions(payload: unknown): CaptionSettings {
+  const raw =
+    payload && typeof payload === 'object' && 'captions' in payload
+      ? (payload as Record<string, unknown>).captions
+      : null;
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_CAPTIONS };
+  }
+  const value = raw as Record<string, unknown>;
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_CAPTIONS.enabled,
+    font: CAPTION_FONTS.includes(value.font as CaptionFont) ? (value.font as CaptionFont) : DEFAULT_CAPTIONS.font,
+    fontSize: clampInteger(
+      value.fontSize,
+      CAPTION_BOUNDS.fontSize.min,
+      CAPTION_BOUNDS.fontSize.max,
+      DEFAULT_CAPTIONS.fontSize,
+    ),
+    color:
+      typeof value.color === 'string' && CAPTION_COLOR_PATTERN.test(value.color)
+        ? value.color.toLowerCase()
+        : DEFAULT_CAPTIONS.color,
+    position: CAPTION_POSITIONS.includes(value.position as CaptionPosition)
+      ? (value.position as CaptionPosition)
+      : DEFAULT_CAPTIONS.position,
+    maxLength: clampInteger(
+      value.maxLength,
+      CAPTION_BOUNDS.maxLength.min,
+      CAPTION_BOUNDS.maxLength.max,
+      DEFAULT_CAPTIONS.maxLength,
+    ),
+  };
+}
+
 function normalizeRotationEnabled(payload: unknown) {
   if (payload && typeof payload === 'object' && 'rotationEnabled' in payload) {
     const value = (payload as Record<string, unknown>).rotationEnabled;
@@ -182,6 +368,119 @@ function normalizeCustomResolution(payload: unknown) {
   return undefined;
 }
 
+function normalizeTrashRetention(payload: unknown) {
+  if (payload && typeof payload === 'object' && 'trashRetentionMinutes' in payload) {
+    const value = numberOrNull((payload as Record<string, unknown>).trashRetentionMinutes);
+    if (value !== null && value >= 1) {
+      return Math.min(Math.round(value), MAX_TRASH_RETENTION_MINUTES);
+    }
+  }
+  return DEFAULT_TRASH_RETENTION_MINUTES;
+}
+
+function normalizeSubmissionLimits(payload: unknown): SubmissionLimits {
+  const raw =
+    payload && typeof payload === 'object' && 'submissionLimits' in payload
+      ? (payload as Record<string, unknown>).submissionLimits
+      : null;
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_SUBMISSION_LIMITS };
+  }
+  const value = raw as Record<string, unknown>;
+  return {
+    pendingExpiryHours: clampInteger(
+      value.pendingExpiryHours,
+      1,
+      MAX_SUBMISSION_EXPIRY_HOURS,
+      DEFAULT_SUBMISSION_LIMITS.pendingExpiryHours,
+    ),
+    approvedExpiryHours: clampInteger(
+      value.approvedExpiryHours,
+      1,
+      MAX_SUBMISSION_EXPIRY_HOURS,
+      DEFAULT_SUBMISSION_LIMITS.approvedExpiryHours,
+    ),
+    maxSubmissions: clampInteger(
+      value.maxSubmissions,
+      1,
+      MAX_SUBMISSIONS_CAP,
+      DEFAULT_SUBMISSION_LIMITS.maxSubmissions,
+    ),
+  };
+}
+
+function normalizeRateLimits(payload: unknown): RateLimits {
+  const raw =
+    payload && typeof payload === 'object' && 'rateLimits' in payload
+      ? (payload as Record<string, unknown>).rateLimits
+      : null;
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_RATE_LIMITS };
+  }
+  const value = raw as Record<string, unknown>;
+  return {
+    windowMinutes: clampInteger(
+      value.windowMinutes,
+      1,
+      MAX_RATE_LIMIT_WINDOW_MINUTES,
+      DEFAULT_RATE_LIMITS.windowMinutes,
+    ),
+    perIp: clampInteger(value.perIp, 1, MAX_RATE_LIMIT_REQUESTS, DEFAULT_RATE_LIMITS.perIp),
+    perUploader: clampInteger(value.perUploader, 1, MAX_RATE_LIMIT_REQUESTS, DEFAULT_RATE_LIMITS.perUploader),
+  };
+}
+
+function normalizeDuplicateHandling(payload: unknown): DuplicateHandling {
+  if (payload && typeof payload === 'object' && 'duplicateHandling' in payload) {
+    const value = (payload as Record<string, unknown>).duplicateHandling;
+    if (DUPLICATE_HANDLING_MODES.includes(value as DuplicateHandling)) {
+      return value as DuplicateHandling;
+    }
+  }
+  return DEFAULT_DUPLICATE_HANDLING;
+}
+
+function normalizeBlocklistMode(payload: unknown): BlocklistMode {
+  if (payload && typeof payload === 'object' && 'blocklistMode' in payload) {
+    const value = (payload as Record<string, unknown>).blocklistMode;
+    if (BLOCKLIST_MODES.includes(value as BlocklistMode)) {
+      return value as BlocklistMode;
+    }
+  }
+  return DEFAULT_BLOCKLIST_MODE;
+}
+
+function normalizeMediaPolicy(payload: unknown): MediaPolicy {
+  const raw =
+    payload && typeof payload === 'object' && 'mediaPolicy' in payload
+      ? (payload as Record<string, unknown>).mediaPolicy
+      : null;
+  if (!raw || typeof raw !== 'object') {
+    return { ...DEFAULT_MEDIA_POLICY };
+  }
+  const value = raw as Record<string, unknown>;
+  const bounded = (key: keyof typeof MEDIA_POLICY_BOUNDS) =>
+    clampInteger(value[key], MEDIA_POLICY_BOUNDS[key].min, MEDIA_POLICY_BOUNDS[key].max, DEFAULT_MEDIA_POLICY[key]);
+  return {
+    maxFrames: bounded('maxFrames'),
+    maxDurationSeconds: bounded('maxDurationSeconds'),
+    maxWidth: bounded('maxWidth'),
+    maxHeight: bounded('maxHeight'),
+    allowStillImages:
+      typeof value.allowStillImages === 'boolean' ? value.allowStillImages : DEFAULT_MEDIA_POLICY.allowStillImages,
+    limitStillSize:
+      typeof value.limitStillSize === 'boolean' ? value.limitStillSize : DEFAULT_MEDIA_POLICY.limitStillSize,
+  };
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number) {
+  const number = numberOrNull(value);
+  if (number === null) {
+    return fallback;
+  }
+  return Math.min(Math.max(Math.round(number), min), max);
+}
+
 function numberOrNull(value: unknown) {
   return typeof value === 'number' && Number.isFinite(value) ? value : null;
 }
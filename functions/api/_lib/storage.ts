@@ -1,37 +1,67 @@
 import type { R2HTTPMetadata } from '@cloudflare/workers-types';
-import type { GifstremBindings } from './types';
-import { sanitizeGif, validateGifStructure } from './gifSanitize';
+import { fingerprintMedia } from './fingerprint';
+import type { MediaFingerprint } from './fingerprint';
+import { inspectGif, sanitizeGif, validateGifStructure } from './gifSanitize';
+import { getStillImageSize } from './imageInfo';
+import { sanitizeJpeg } from './jpegSanitize';
+import { enforceAnimationPolicy, enforceStillPolicy } from './mediaPolicy';
+import { sanitizePng } from './pngSanitize';
+import { MediaSanitizeError } from './sanitizeError';
+import { resolveImageType } from './sniff';
+import type { GifstremBindings, MediaPolicy, SubmissionRow } from './types';
+import { sanitizeWebp } from './webpSanitize';
 
 export type StoredFileInfo = {
   key: string;
   url: string;
+  fingerprint: MediaFingerprint;
   sanitizationWarnings?: string[];
 };
 
-const STILL_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/jpg']);
-
-export async function saveSubmissionFileToR2(env: GifstremBindings, file: File, slug: string): Promise<StoredFileInfo> {
-  if (file.type === 'image/gif') {
-    return saveGifFile(env, file, slug);
-  }
-  if (STILL_IMAGE_TYPES.has(file.type)) {
-    return saveStillImage(env, file, slug);
+/**
+ * Validates, sanitizes and stores an upload. The format is sniffed from the
+ * bytes and must match the declared type. Throws MediaTypeError,
+ * MediaSanitizeError or MediaPolicyError before anything is written.
+ */
+export async function saveSubmissionFileToR2(
+  env: GifstremBindings,
+  file: File,
+  slug: string,
+  policy: MediaPolicy,
+): Promise<StoredFileInfo> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  switch (resolveImageType(data, file.type)) {
+    case 'image/gif':
+      return saveGifFile(env, file, data, slug, policy);
+    case 'image/png':
+      return savePngFile(env, file, data, slug, policy);
+    case 'image/webp':
+      return saveWebpFile(env, file, data, slug, policy);
+    case 'image/jpeg':
+      return saveStillImage(env, file, data, slug, policy);
   }
-  throw new Error('Unsupported file type');
 }
 
-async function saveGifFile(env: GifstremBindings, file: File, slug: string): Promise<StoredFileInfo> {
+async function saveGifFile(
+  env: GifstremBindings,
+  file: File,
+  data: Uint8Array,
+  slug: string,
+  policy: MediaPolicy,
+): Promise<StoredFileInfo> {
   // First, do a quick validation
-  const buffer = await file.arrayBuffer();
-  const data = new Uint8Array(buffer);
   const validation = validateGifStructure(data);
   if (!validation.valid) {
-    throw new Error(`Invalid GIF file: ${validation.error}`);
+    throw new MediaSanitizeError(`Invalid GIF file: ${validation.error}`);
   }
+  const inspection = inspectGif(data);
+  enforceAnimationPolicy(policy, inspection);
 
   console.info('[storage] Sanitizing GIF', {
     originalSize: data.length,
     fileName: file.name,
+    frames: inspection.frameCount,
+    durationMs: inspection.durationMs,
   });
 
   let sanitizedData: Uint8Array;
@@ -48,39 +78,100 @@ async function saveGifFile(env: GifstremBindings, file: File, slug: string): Pro
     });
   } catch (error) {
     console.error('[storage] GIF sanitization failed', error);
-    throw new Error(`Failed to sanitize GIF: ${(error as Error).message}`);
+    throw new MediaSanitizeError(`Failed to sanitize GIF: ${(error as Error).message}`);
   }
 
-  const key = `gifstrem/${slug}/${crypto.randomUUID()}.gif`;
-  const httpMetadata: R2HTTPMetadata = {
-    contentType: 'image/gif',
-    contentDisposition: `inline; filename="${encodeURIComponent(file.name)}"`,
-  };
-  await env.GIF_BUCKET.put(key, sanitizedData, { httpMetadata });
-  const base = (env.R2_PUBLIC_BASE_URL ?? 'https://r2.gifstrem.com').replace(/\/$/, '');
-  const url = `${base}/${key}`;
+  const fingerprint = await fingerprintMedia(sanitizedData, 'image/gif');
+  const stored = await putSubmissionObject(env, sanitizedData, slug, '.gif', 'image/gif', file.name);
 
   return {
-    key,
-    url,
+    ...stored,
+    fingerprint,
     sanitizationWarnings: warnings.length > 0 ? warnings : undefined,
   };
 }
 
-async function saveStillImage(env: GifstremBindings, file: File, slug: string): Promise<StoredFileInfo> {
-  const buffer = await file.arrayBuffer();
-  const data = new Uint8Array(buffer);
-  const normalizedType = file.type === 'image/jpg' ? 'image/jpeg' : file.type;
-  const extension = normalizedType === 'image/png' ? '.png' : '.jpg';
+/** PNGs and APNGs; APNGs are held to the same frame and duration limits as GIFs. */
+async function savePngFile(
+  env: GifstremBindings,
+  file: File,
+  data: Uint8Array,
+  slug: string,
+  policy: MediaPolicy,
+): Promise<StoredFileInfo> {
+  const result = sanitizePng(data);
+  enforceAnimationPolicy(policy, result.info);
+  const fingerprint = await fingerprintMedia(result.sanitized, 'image/png');
+  const stored = await putSubmissionObject(env, result.sanitized, slug, '.png', 'image/png', file.name);
+  return {
+    ...stored,
+    fingerprint,
+    sanitizationWarnings: result.warnings.length > 0 ? result.warnings : undefined,
+  };
+}
+
+async function saveWebpFile(
+  env: GifstremBindings,
+  file: File,
+  data: Uint8Array,
+  slug: string,
+  policy: MediaPolicy,
+): Promise<StoredFileInfo> {
+  const result = sanitizeWebp(data);
+  enforceAnimationPolicy(policy, result.info);
+  const fingerprint = await fingerprintMedia(result.sanitized, 'image/webp');
+  const stored = await putSubmissionObject(env, result.sanitized, slug, '.webp', 'image/webp', file.name);
+  return {
+    ...stored,
+    fingerprint,
+    sanitizationWarnings: result.warnings.length > 0 ? result.warnings : undefined,
+  };
+}
+
+/** JPEG stills, with EXIF, IPTC and comments stripped before storing. */
+async function saveStillImage(
+  env: GifstremBindings,
+  file: File,
+  data: Uint8Array,
+  slug: string,
+  policy: MediaPolicy,
+): Promise<StoredFileInfo> {
+  enforceStillPolicy(policy, getStillImageSize(data, 'image/jpeg'));
+  const result = sanitizeJpeg(data);
+  const fingerprint = await fingerprintMedia(result.sanitized, 'image/jpeg');
+  const stored = await putSubmissionObject(env, result.sanitized, slug, '.jpg', 'image/jpeg', file.name);
+  return {
+    ...stored,
+    fingerprint,
+    sanitizationWarnings: result.warnings.length > 0 ? result.warnings : undefined,
+  };
+}
+
+async function putSubmissionObject(
+  env: GifstremBindings,
+  data: Uint8Array,
+  slug: string,
+  extension: string,
+  contentType: string,
+  fileName: string,
+): Promise<{ key: string; url: string }> {
   const key = `gifstrem/${slug}/${crypto.randomUUID()}${extension}`;
   const httpMetadata: R2HTTPMetadata = {
-    contentType: normalizedType,
-    contentDisposition: `inline; filename="${encodeURIComponent(file.name)}"`,
+    contentType,
+    contentDisposition: `inline; filename="${encodeURIComponent(fileName)}"`,
   };
   await env.GIF_BUCKET.put(key, data, { httpMetadata });
   const base = (env.R2_PUBLIC_BASE_URL ?? 'https://r2.gifstrem.com').replace(/\/$/, '');
-  const url = `${base}/${key}`;
-  return { key, url };
+  return { key, url: `${base}/${key}` };
+}
+
+/** The original upload plus any generated thumbnail and preview. */
+export function submissionObjectKeys(submissions: SubmissionRow[]): string[] {
+  return submissions.flatMap((submission) =>
+    [submission.file_key, submission.thumbnail_key, submission.preview_key].filter((key): key is string =>
+      Boolean(key),
+    ),
+  );
 }
 
 export async function deleteSubmissionFileFromR2(env: GifstremBindings, keys: string | string[]): Promise<void> {
@@ -0,0 +1,129 @@
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second
+ * steps) and single-use recovery codes, on top of WebCrypto.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next step too, to absorb phone clock drift.
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'GIFstrem';
+
+const encoder = new TextEncoder();
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+/** The otpauth:// URI authenticator apps read from a QR code or a tapped link. */
+export function totpProvisioningUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Returns the time step the code matched, or null. Callers store the step and
+ * pass it back as `lastUsedStep` so a code cannot be replayed.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  now = Date.now(),
+): Promise<number | null> {
+  const normalized = code.replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, [
+    'sign',
+  ]);
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if ((await hotp(key, step)) === normalized) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** Ten `xxxxx-xxxxx` codes; only their hashes are stored. */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7)))
+      .slice(0, 10)
+      .toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/** Case and dashes are ignored so codes can be typed however they were written down. */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(normalized));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hotp(key: CryptoKey, counter: number): Promise<string> {
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  // Dynamic truncation, RFC 4226 section 5.3
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/=+$/, '');
+  const output = new Uint8Array(Math.floor((clean.length * 5) / 8));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of clean) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | digit;
+    bits += 5;
+    if (bits >= 8) {
+      output[index++] = (value >>> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  return output;
+}
@@ -1,9 +1,14 @@
 export type GifstremBindings = {
   DB: D1Database;
   JWT_SECRET: string;
+  /** Lifetime of a login; refresh tokens stop working after this. */
   SESSION_TTL_SECONDS?: string;
+  ACCESS_TOKEN_TTL_SECONDS?: string;
   GIF_BUCKET: R2Bucket;
   R2_PUBLIC_BASE_URL?: string;
+  CLEANUP_SECRET?: string;
+  /** Set to "memory" in .dev.vars to keep rate limits per isolate instead of in D1. */
+  RATE_LIMIT_STORE?: string;
 };
 
 export type UserRow = {
@@ -14,10 +19,66 @@ export type UserRow = {
   slug: string;
   overlay_token: string;
   settings: string;
+  feed_version: number;
+  role: UserRole;
+  /** Base32 TOTP secret; set only once enrolment has been confirmed. */
+  totp_secret: string | null;
+  /** Secret shown during enrolment, promoted to totp_secret by the first valid code. */
+  totp_pending_secret: string | null;
+  totp_enabled_at: string | null;
+  /** Last accepted TOTP time step, so the same code cannot be used twice. */
+  totp_last_step: number | null;
+  /** Second-step attempts since the last success or lockout. */
+  totp_failed_attempts: number;
+  /** Second-step sign-in is refused until this time after too many wrong codes. */
+  totp_locked_until: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type UserRole = 'streamer' | 'moderator';
+
+export type SessionRow = {
+  id: string;
+  user_id: string;
+  refresh_hash: string;
+  /** The hash rotated away by the last refresh; presenting it again means the token leaked. */
+  previous_refresh_hash: string | null;
+  created_at: string;
+  refreshed_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  user_agent: string | null;
+  /** City/country from Cloudflare, or a truncated IP when that is unavailable. */
+  location_hint: string | null;
+  last_seen_at: string | null;
+};
+
+export type BlocklistKind = 'name' | 'name_pattern' | 'word' | 'file_hash';
+
+export type BlocklistEntryRow = {
+  id: string;
+  streamer_id: string;
+  kind: BlocklistKind;
+  value: string;
+  created_at: string;
+};
+
+export type StreamerMemberRow = {
+  id: string;
+  streamer_id: string;
+  user_id: string | null;
+  invite_code: string | null;
+  permissions: string;
+  created_at: string;
+  accepted_at: string | null;
+};
+
+export type StreamerMemberWithUserRow = StreamerMemberRow & {
+  display_name: string | null;
+  slug: string | null;
+};
+
 export type SubmissionRow = {
   id: string;
   streamer_id: string;
@@ -34,6 +95,13 @@ export type SubmissionRow = {
   approved_at: string | null;
   denied_at: string | null;
   layout: string | null;
+  trashed_at: string | null;
+  purge_at: string | null;
+  content_hash: string | null;
+  perceptual_hash: string | null;
+  duplicate_count: number;
+  thumbnail_key: string | null;
+  preview_key: string | null;
 };
 
 export type SafeZone = {
@@ -51,9 +119,149 @@ export type ResolutionSafeZone = {
 
 export type SettingsShape = {
   safeZones: Record<string, ResolutionSafeZone>;
-  animation: { type: string; durationMs: number };
+  animation: AnimationSettings;
+  displayMode: DisplayModeSettings;
+  captions: CaptionSettings;
   showSafeZoneOverlay?: boolean;
   rotationEnabled?: boolean;
   preferredResolution?: '720p' | '1080p' | '2160p' | 'custom';
   customResolution?: { width: number; height: number };
+  trashRetentionMinutes: number;
+  submissionLimits: SubmissionLimits;
+  rateLimits: RateLimits;
+  duplicateHandling: DuplicateHandling;
+  blocklistMode: BlocklistMode;
+  mediaPolicy: MediaPolicy;
+};
+
+export type MediaPolicy = {
+  maxFrames: number;
+  maxDurationSeconds: number;
+  maxWidth: number;
+  maxHeight: number;
+  allowStillImages: boolean;
+  /** Stills skip maxWidth/maxHeight unless the streamer opts in; phone photos are far bigger than any GIF. */
+  limitStillSize: boolean;
+};
+
+/** Silent drops look like a normal submission to the uploader; reject tells them. */
+export type BlocklistMode = 'silent' | 'reject';
+
+export type AnimationVariant = 'pop' | 'fade' | 'slide' | 'drop' | 'spin' | 'confetti';
+
+export type AnimationEasing = 'ease-out' | 'ease-in-out' | 'linear' | 'spring';
+
+/** How stickers arrive on and leave the overlay. */
+export type AnimationSettings = {
+  enter: AnimationVariant;
+  exit: AnimationVariant;
+  easing: AnimationEasing;
+  durationMs: number;
+};
+
+export type DisplayMode = 'collage' | 'spotlight' | 'ticker';
+
+export type TickerEdge = 'top' | 'bottom';
+
+/**
+ * How the overlay shows approved GIFs: all at once, one at a time, or as a
+ * strip scrolling along an edge. Options for every mode are kept so switching
+ * back and forth does not lose them.
+ */
+export type DisplayModeSettings = {
+  mode: DisplayMode;
+  spotlight: {
+    secondsPerItem: number;
+    showCaptions: boolean;
+  };
+  ticker: {
+    edge: TickerEdge;
+    itemSize: number;
+    /** Scroll speed in canvas pixels per second. */
+    speed: number;
+  };
+};
+
+export type CaptionFont = 'sans' | 'rounded' | 'serif' | 'mono' | 'display';
+
+export type CaptionPosition = 'above' | 'below' | 'overlay';
+
+/** Bubbles crediting the sender under (or over) each GIF on the overlay. */
+export type CaptionSettings = {
+  enabled: boolean;
+  font: CaptionFont;
+  fontSize: number;
+  /** `#rrggbb` */
+  color: string;
+  position: CaptionPosition;
+  /** Messages longer than this are cut short with an ellipsis. */
+  maxLength: number;
+};
+
+/** What to do when a submission matches something already pending or live. */
+export type DuplicateHandling = 'merge' | 'reject' | 'allow';
+
+export type RateLimits = {
+  windowMinutes: number;
+  perIp: number;
+  perUploader: number;
+};
+
+export type SubmissionLimits = {
+  pendingExpiryHours: number;
+  approvedExpiryHours: number;
+  maxSubmissions: number;
+};
+
+export type OverlayEventType =
+  | 'submission.approved'
+  | 'submission.updated'
+  | 'submission.removed'
+  | 'streamer.updated'
+  | 'overlay.revoked';
+
+export type OverlayEventRow = {
+  id: number;
+  streamer_id: string;
+  type: OverlayEventType;
+  payload: string | null;
+  created_at: string;
+};
+
+export type AuditAction =
+  | 'submission.created'
+  | 'submission.approved'
+  | 'submission.denied'
+  | 'submission.deleted'
+  | 'submission.restored'
+  | 'submission.merged'
+  | 'submission.arranged'
+  | 'submission.blocked'
+  | 'blocklist.added'
+  | 'blocklist.removed'
+  | 'settings.updated'
+  | 'profile.updated'
+  | 'password.changed'
+  | 'sessions.revoked'
+  | 'two_factor.enabled'
+  | 'two_factor.disabled'
+  | 'two_factor.recovery_codes_regenerated'
+  | 'overlay_token.rotated'
+  | 'member.invited'
+  | 'member.updated'
+  | 'member.removed'
+  | 'member.joined'
+  | 'member.left';
+
+export type AuditEventRow = {
+  id: string;
+  streamer_id: string;
+  actor_id: string | null;
+  actor_name: string;
+  action: AuditAction;
+  target_type: string;
+  target_id: string | null;
+  before: string | null;
+  after: string | null;
+  created_at: string;
 };
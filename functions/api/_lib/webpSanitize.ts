@@ -0,0 +1,206 @@
+/**
+ * WebP sanitization. Walks the RIFF chunk list, validates sizes, and drops
+ * EXIF, XMP and unknown chunks the same way sanitizeGif drops comments.
+ */
+
+import type { AnimationInfo } from './mediaPolicy';
+import { MediaSanitizeError } from './sanitizeError';
+
+const MAX_WEBP_BYTES = 10 * 1024 * 1024;
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+
+// Chunks needed to render the image or its animation.
+const KEPT_CHUNKS = new Set(['VP8 ', 'VP8L', 'VP8X', 'ALPH', 'ICCP', 'ANIM', 'ANMF']);
+const IMAGE_CHUNKS = new Set(['VP8 ', 'VP8L']);
+
+// VP8X feature flags
+const ANIMATION_FLAG = 0x02;
+const XMP_FLAG = 0x04;
+const EXIF_FLAG = 0x08;
+
+// Browsers play frame durations of 10ms or less at 100ms, like GIF delays.
+const MIN_EFFECTIVE_DURATION_MS = 11;
+const DEFAULT_DURATION_MS = 100;
+
+export type WebpSanitizationResult = {
+  sanitized: Uint8Array;
+  removedBytes: number;
+  warnings: string[];
+  /** frameCount is 1 for still WebPs. */
+  info: AnimationInfo;
+};
+
+export function isWebp(data: Uint8Array): boolean {
+  return data.length >= RIFF_HEADER_SIZE && fourCC(data, 0) === 'RIFF' && fourCC(data, 8) === 'WEBP';
+}
+
+/**
+ * Validate and sanitize a WebP (lossy, lossless or animated).
+ * - Validates the RIFF header and every chunk size
+ * - Requires a VP8X, VP8 or VP8L chunk first
+ * - Removes EXIF, XMP and unknown chunks and clears the matching VP8X flags
+ * - Drops anything past the declared RIFF size
+ * - Collects frame count and duration for animations
+ */
+export function sanitizeWebp(data: Uint8Array): WebpSanitizationResult {
+  if (!isWebp(data)) {
+    throw new MediaSanitizeError('Invalid WebP: Missing or corrupted RIFF header');
+  }
+  if (data.length > MAX_WEBP_BYTES) {
+    throw new MediaSanitizeError('WebP file too large for sanitization (max 10MB)');
+  }
+
+  const warnings: string[] = [];
+  let removedBytes = 0;
+  const riffEnd = CHUNK_HEADER_SIZE + readUint32LE(data, 4);
+  if (riffEnd > data.length) {
+    throw new MediaSanitizeError('Invalid WebP: File is truncated');
+  }
+  if (riffEnd < data.length) {
+    const extraBytes = data.length - riffEnd;
+    removedBytes += extraBytes;
+    warnings.push(`Removed ${extraBytes} bytes of data after WebP RIFF container (potential steganography)`);
+  }
+
+  const kept: Uint8Array[] = [];
+  let position = RIFF_HEADER_SIZE;
+  let extendedHeader: Uint8Array | null = null;
+  let width = 0;
+  let height = 0;
+  let imageChunks = 0;
+  let frameCount = 0;
+  let durationMs = 0;
+  let maxFrameWidth = 0;
+  let maxFrameHeight = 0;
+
+  while (position < riffEnd) {
+    if (position + CHUNK_HEADER_SIZE > riffEnd) {
+      throw new MediaSanitizeError('Invalid WebP: Incomplete chunk header');
+    }
+    const type = fourCC(data, position);
+    const size = readUint32LE(data, position + 4);
+    // Chunks are padded to an even length
+    const end = position + CHUNK_HEADER_SIZE + size + (size & 1);
+    if (position + CHUNK_HEADER_SIZE + size > riffEnd) {
+      throw new MediaSanitizeError('Invalid WebP: Chunk extends beyond file');
+    }
+    const body = data.subarray(position + CHUNK_HEADER_SIZE, position + CHUNK_HEADER_SIZE + size);
+
+    if (position === RIFF_HEADER_SIZE && type !== 'VP8X' && !IMAGE_CHUNKS.has(type)) {
+      throw new MediaSanitizeError('Invalid WebP: First chunk must be VP8X, VP8 or VP8L');
+    }
+
+    if (type === 'VP8X') {
+      if (size < 10 || extendedHeader) {
+        throw new MediaSanitizeError('Invalid WebP: Malformed VP8X chunk');
+      }
+      width = readUint24LE(body, 4) + 1;
+      height = readUint24LE(body, 7) + 1;
+    } else if (IMAGE_CHUNKS.has(type)) {
+      imageChunks++;
+      const dimensions = readBitstreamSize(type, body);
+      if (!dimensions) {
+        throw new MediaSanitizeError(`Invalid WebP: Malformed ${type.trim()} chunk`);
+      }
+      if (!width) {
+        width = dimensions.width;
+        height = dimensions.height;
+      }
+    } else if (type === 'ANMF') {
+      if (size < 16) {
+        throw new MediaSanitizeError('Invalid WebP: Malformed ANMF chunk');
+      }
+      frameCount++;
+      maxFrameWidth = Math.max(maxFrameWidth, readUint24LE(body, 6) + 1);
+      maxFrameHeight = Math.max(maxFrameHeight, readUint24LE(body, 9) + 1);
+      const duration = readUint24LE(body, 12);
+      durationMs += duration < MIN_EFFECTIVE_DURATION_MS ? DEFAULT_DURATION_MS : duration;
+    }
+
+    const chunk = data.subarray(position, Math.min(end, riffEnd));
+    if (KEPT_CHUNKS.has(type)) {
+      if (type === 'VP8X') {
+        // Copied so the metadata flags can be cleared below without touching the upload
+        extendedHeader = chunk.slice();
+        kept.push(extendedHeader);
+      } else {
+        kept.push(chunk);
+      }
+    } else {
+      removedBytes += chunk.length;
+      warnings.push(`Removed ${type.trim()} chunk (${size} bytes)`);
+    }
+    position = end;
+  }
+
+  const animated = extendedHeader !== null && (extendedHeader[CHUNK_HEADER_SIZE] & ANIMATION_FLAG) !== 0;
+  if (animated ? frameCount === 0 : imageChunks !== 1) {
+    throw new MediaSanitizeError('Invalid WebP: Missing image data');
+  }
+  if (width === 0 || height === 0) {
+    throw new MediaSanitizeError('Invalid WebP: Zero image dimensions');
+  }
+  if (extendedHeader) {
+    extendedHeader[CHUNK_HEADER_SIZE] &= ~(EXIF_FLAG | XMP_FLAG);
+  }
+
+  const body = concatBytes(kept);
+  const sanitized = new Uint8Array(RIFF_HEADER_SIZE + body.length);
+  sanitized.set(data.subarray(0, RIFF_HEADER_SIZE));
+  new DataView(sanitized.buffer).setUint32(4, 4 + body.length, true);
+  sanitized.set(body, RIFF_HEADER_SIZE);
+
+  return {
+    sanitized,
+    removedBytes,
+    warnings,
+    info: {
+      width,
+      height,
+      frameCount: animated ? frameCount : 1,
+      durationMs: animated ? durationMs : 0,
+      maxFrameWidth: animated ? maxFrameWidth : width,
+      maxFrameHeight: animated ? maxFrameHeight : height,
+    },
+  };
+}
+
+/** Reads dimensions from a VP8 key frame header or a VP8L header. */
+function readBitstreamSize(type: string, body: Uint8Array): { width: number; height: number } | null {
+  if (type === 'VP8 ') {
+    // 3-byte frame tag, then the 9d 01 2a start code and two 14-bit sizes
+    if (body.length < 10 || body[3] !== 0x9d || body[4] !== 0x01 || body[5] !== 0x2a) {
+      return null;
+    }
+    return { width: (body[6] | (body[7] << 8)) & 0x3fff, height: (body[8] | (body[9] << 8)) & 0x3fff };
+  }
+  // VP8L: 0x2f signature, then width-1 and height-1 as packed 14-bit fields
+  if (body.length < 5 || body[0] !== 0x2f) {
+    return null;
+  }
+  const bits = body[1] | (body[2] << 8) | (body[3] << 16) | (body[4] << 24);
+  return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+}
+
+function fourCC(data: Uint8Array, offset: number) {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+function readUint32LE(data: Uint8Array, offset: number) {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function readUint24LE(data: Uint8Array, offset: number) {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
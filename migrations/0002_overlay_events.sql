@@ -0,0 +1,12 @@
+-- Overlay events are an append-only change feed tailed by /api/overlay/stream
+CREATE TABLE IF NOT EXISTS overlay_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  streamer_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(streamer_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_overlay_events_streamer_id
+  ON overlay_events(streamer_id, id);
@@ -0,0 +1,2 @@
+-- Feed version lets overlay polls skip unchanged payloads (ETag / ?since=)
+ALTER TABLE users ADD COLUMN feed_version INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,21 @@
+-- Users can be a streamer's own account or a moderator invited onto other channels
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'streamer';
+
+-- Streamer members are moderators (or pending invites) scoped to a single streamer
+CREATE TABLE IF NOT EXISTS streamer_members (
+  id TEXT PRIMARY KEY,
+  streamer_id TEXT NOT NULL,
+  user_id TEXT,
+  invite_code TEXT UNIQUE,
+  permissions TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  accepted_at TEXT,
+  FOREIGN KEY(streamer_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streamer_members_streamer_user
+  ON streamer_members(streamer_id, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_streamer_members_user
+  ON streamer_members(user_id);
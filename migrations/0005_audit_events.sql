@@ -0,0 +1,17 @@
+-- Audit events record who changed what on a streamer's channel
+CREATE TABLE IF NOT EXISTS audit_events (
+  id TEXT PRIMARY KEY,
+  streamer_id TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  before TEXT,
+  after TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(streamer_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_streamer_created
+  ON audit_events(streamer_id, created_at DESC, id DESC);
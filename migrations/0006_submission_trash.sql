@@ -0,0 +1,5 @@
+-- Denied and deleted submissions stay in a trash state until purge_at so moderators can undo misclicks.
+ALTER TABLE submissions ADD COLUMN trashed_at TEXT;
+ALTER TABLE submissions ADD COLUMN purge_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_purge_at ON submissions(streamer_id, purge_at);
@@ -0,0 +1,6 @@
+-- Content and perceptual hashes let the public submission route spot resubmitted GIFs.
+ALTER TABLE submissions ADD COLUMN content_hash TEXT;
+ALTER TABLE submissions ADD COLUMN perceptual_hash TEXT;
+ALTER TABLE submissions ADD COLUMN duplicate_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_submissions_content_hash ON submissions(streamer_id, content_hash);
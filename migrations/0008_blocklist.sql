@@ -0,0 +1,12 @@
+-- Per-streamer blocklist for uploader names, name patterns, message words and file hashes
+CREATE TABLE IF NOT EXISTS blocklist_entries (
+  id TEXT PRIMARY KEY,
+  streamer_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(streamer_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_blocklist_entries_unique
+  ON blocklist_entries(streamer_id, kind, value);
@@ -0,0 +1,3 @@
+-- Poster frames and downscaled previews generated after upload, stored next to the original in R2.
+ALTER TABLE submissions ADD COLUMN thumbnail_key TEXT;
+ALTER TABLE submissions ADD COLUMN preview_key TEXT;
@@ -0,0 +1,15 @@
+-- One row per login. Access tokens carry the session id so revoking the row
+-- logs that browser out; refresh tokens rotate on every use.
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  refresh_hash TEXT NOT NULL,
+  previous_refresh_hash TEXT,
+  created_at TEXT NOT NULL,
+  refreshed_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT,
+  FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, revoked_at);
@@ -0,0 +1,4 @@
+-- Lets streamers recognise their sessions in account settings.
+ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN location_hint TEXT;
+ALTER TABLE sessions ADD COLUMN last_seen_at TEXT;
@@ -0,0 +1,11 @@
+-- Fixed-window request counters shared by every isolate. Each row is one key's
+-- count for one window; rows past expires_at are swept by the cleanup worker.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT NOT NULL,
+  window_start INTEGER NOT NULL,
+  count INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires_at ON rate_limits(expires_at);
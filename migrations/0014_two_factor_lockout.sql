@@ -0,0 +1,5 @@
+-- Second-step sign-in attempts per account. Each attempt is counted before the
+-- code is checked and a success clears the count; reaching the limit locks the
+-- second step until totp_locked_until and starts the count again from zero.
+ALTER TABLE users ADD COLUMN totp_failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN totp_locked_until TEXT;
@@ -0,0 +1,14 @@
+-- Sliding-window request log shared by every isolate, replacing the fixed-window
+-- counters, which let twice the limit through across a window boundary. Each row
+-- is one counted request; rows past expires_at are swept by the cleanup worker.
+DROP TABLE IF EXISTS rate_limits;
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_expires_at ON rate_limit_hits(expires_at);
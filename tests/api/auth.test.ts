@@ -0,0 +1,208 @@
+import { SignJWT } from 'jose';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { generateTotpSecret, hashRecoveryCode } from '../../functions/api/_lib/totp';
+import { createTestApp, signUpStreamer } from '../helpers/app';
+import type { SerializedUser, Session, TestApp } from '../helpers/app';
+
+let testApp: TestApp;
+
+beforeEach(async () => {
+  testApp = await createTestApp();
+});
+
+describe('signup', () => {
+  it('creates a streamer and starts a session', async () => {
+    const { token, refreshToken, user } = await signUpStreamer(testApp, 'alice');
+    expect(user).toMatchObject({ slug: 'alice', displayName: 'Streamer alice', role: 'streamer' });
+    expect(refreshToken).toMatch(/^[0-9a-f-]{36}\.[0-9a-f]{64}$/);
+
+    const me = await testApp.request<{ user: SerializedUser }>('GET', '/api/auth/me', { token });
+    expect(me.status).toBe(200);
+    expect(me.body.user.id).toBe(user.id);
+  });
+
+  it('refuses a slug that is taken', async () => {
+    await signUpStreamer(testApp, 'alice');
+    const response = await testApp.request('POST', '/api/auth/signup', {
+      json: { displayName: 'Someone else', slug: 'alice', password: 'another password' },
+    });
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Slug already in use');
+  });
+
+  it('validates the payload', async () => {
+    const response = await testApp.request('POST', '/api/auth/signup', {
+      json: { displayName: 'A', slug: 'Not A Slug', password: 'short' },
+    });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid payload');
+  });
+});
+
+describe('login', () => {
+  it('signs in with the right password', async () => {
+    const { user, password } = await signUpStreamer(testApp, 'alice');
+    const response = await testApp.request<Session>('POST', '/api/auth/login', { json: { slug: 'alice', password } });
+    expect(response.status).toBe(200);
+    expect(response.body.user.id).toBe(user.id);
+    const me = await testApp.request('GET', '/api/auth/me', { token: response.body.token });
+    expect(me.status).toBe(200);
+  });
+
+  it('gives the same answer for a wrong password and an unknown account', async () => {
+    await signUpStreamer(testApp, 'alice');
+    const wrongPassword = await testApp.request('POST', '/api/auth/login', {
+      json: { slug: 'alice', password: 'not the password' },
+    });
+    const unknownSlug = await testApp.request('POST', '/api/auth/login', {
+      json: { slug: 'nobody', password: 'not the password' },
+    });
+    expect(wrongPassword.status).toBe(401);
+    expect(unknownSlug.status).toBe(401);
+    expect(wrongPassword.body).toEqual(unknownSlug.body);
+  });
+
+  it('requires a bearer token on authenticated routes', async () => {
+    const missing = await testApp.request('GET', '/api/auth/me');
+    expect(missing.status).toBe(401);
+    const garbage = await testApp.request('GET', '/api/auth/me', { token: 'not-a-jwt' });
+    expect(garbage.status).toBe(401);
+  });
+});
+
+describe('two-factor sign-in', () => {
+  const recoveryCode = 'abcde-fghij';
+
+  async function enableTwoFactor(userId: string) {
+    testApp.d1.sqlite.run('UPDATE users SET totp_secret = ? WHERE id = ?', [generateTotpSecret(), userId]);
+    testApp.d1.sqlite.run('INSERT INTO recovery_codes (id, user_id, code_hash, created_at) VALUES (?, ?, ?, ?)', [
+      crypto.randomUUID(),
+      userId,
+      await hashRecoveryCode(recoveryCode),
+      new Date().toISOString(),
+    ]);
+  }
+
+  async function challenge(password: string) {
+    const response = await testApp.request<{ challengeToken: string }>('POST', '/api/auth/login', {
+      json: { slug: 'alice', password },
+    });
+    return response.body.challengeToken;
+  }
+
+  function lockState(userId: string) {
+    const [result] = testApp.d1.sqlite.exec('SELECT totp_failed_attempts, totp_locked_until FROM users WHERE id = ?', [
+      userId,
+    ]);
+    const [attempts, lockedUntil] = result.values[0];
+    return { attempts, lockedUntil };
+  }
+
+  it('locks the second step after too many wrong codes, across challenges', async () => {
+    const { user, password } = await signUpStreamer(testApp, 'alice');
+    await enableTwoFactor(user.id);
+    const attempt = async (code: string) =>
+      testApp.request('POST', '/api/auth/login/totp', { json: { challengeToken: await challenge(password), code } });
+
+    for (let remaining = 4; remaining > 0; remaining--) {
+      const wrong = await attempt('000000');
+      expect(wrong.status).toBe(401);
+      expect(wrong.body.attemptsRemaining).toBe(remaining);
+    }
+    const locked = await attempt('000000');
+    expect(locked.status).toBe(429);
+    expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(14 * 60);
+    expect(Date.parse(String(lockState(user.id).lockedUntil))).toBeGreaterThan(Date.now());
+
+    // The right code does not help while the lock holds
+    expect((await attempt(recoveryCode)).status).toBe(429);
+    const [unused] = testApp.d1.sqlite.exec('SELECT COUNT(*) FROM recovery_codes WHERE used_at IS NULL');
+    expect(unused.values[0][0]).toBe(1);
+  });
+
+  it('accepts the right code once the lock has passed and clears the count', async () => {
+    const { user, password } = await signUpStreamer(testApp, 'alice');
+    await enableTwoFactor(user.id);
+    testApp.d1.sqlite.run('UPDATE users SET totp_failed_attempts = 3, totp_locked_until = ? WHERE id = ?', [
+      new Date(Date.now() - 1000).toISOString(),
+      user.id,
+    ]);
+
+    const response = await testApp.request<Session>('POST', '/api/auth/login/totp', {
+      json: { challengeToken: await challenge(password), code: recoveryCode },
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.user.id).toBe(user.id);
+    expect(lockState(user.id)).toEqual({ attempts: 0, lockedUntil: null });
+  });
+
+  it('does not accept a challenge token in place of an access token', async () => {
+    const { user, password } = await signUpStreamer(testApp, 'alice');
+    await enableTwoFactor(user.id);
+    const token = await challenge(password);
+
+    expect((await testApp.request('GET', '/api/auth/me', { token })).status).toBe(401);
+    const disable = await testApp.request('POST', '/api/settings/two-factor/disable', {
+      token,
+      json: { currentPassword: password },
+    });
+    expect(disable.status).toBe(401);
+    const [secret] = testApp.d1.sqlite.exec('SELECT totp_secret FROM users WHERE id = ?', [user.id]);
+    expect(secret.values[0][0]).not.toBeNull();
+  });
+
+  it('does not accept an access token in place of a challenge token', async () => {
+    const { user, token } = await signUpStreamer(testApp, 'alice');
+    await enableTwoFactor(user.id);
+    const response = await testApp.request('POST', '/api/auth/login/totp', {
+      json: { challengeToken: token, code: recoveryCode },
+    });
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('challenge_expired');
+    const [unused] = testApp.d1.sqlite.exec('SELECT COUNT(*) FROM recovery_codes WHERE used_at IS NULL');
+    expect(unused.values[0][0]).toBe(1);
+  });
+});
+
+describe('sessions', () => {
+  it('rotates the refresh token', async () => {
+    const { refreshToken } = await signUpStreamer(testApp, 'alice');
+    const refreshed = await testApp.request<Session>('POST', '/api/auth/refresh', { json: { refreshToken } });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refreshToken).not.toBe(refreshToken);
+    const me = await testApp.request('GET', '/api/auth/me', { token: refreshed.body.token });
+    expect(me.status).toBe(200);
+  });
+
+  it('stops accepting the access token after logout', async () => {
+    const { token, refreshToken } = await signUpStreamer(testApp, 'alice');
+    const logout = await testApp.request('POST', '/api/auth/logout', { token });
+    expect(logout.status).toBe(200);
+
+    const me = await testApp.request('GET', '/api/auth/me', { token });
+    expect(me.status).toBe(401);
+    expect(me.body.error).toBe('Session revoked');
+    const refreshed = await testApp.request('POST', '/api/auth/refresh', { json: { refreshToken } });
+    expect(refreshed.status).toBe(401);
+  });
+});
+
+describe('tokens without a session', () => {
+  function sessionlessToken(user: SerializedUser) {
+    return new SignJWT({ userId: user.id, username: user.username, slug: user.slug })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setAudience('access')
+      .setIssuedAt()
+      .setExpirationTime('7d')
+      .sign(new TextEncoder().encode(testApp.env.JWT_SECRET));
+  }
+
+  it('are refused, even before they expire', async () => {
+    const { user } = await signUpStreamer(testApp, 'alice');
+    const token = await sessionlessToken(user);
+    const me = await testApp.request('GET', '/api/auth/me', { token });
+    expect(me.status).toBe(401);
+    expect(me.body.error).toBe('Invalid token');
+    expect((await testApp.request('POST', '/api/auth/logout', { token })).status).toBe(401);
+  });
+});
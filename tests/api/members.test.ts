@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTestApp, signUpStreamer } from '../helpers/app';
+import type { TestApp } from '../helpers/app';
+
+type InviteBody = { member: { id: string; inviteCode: string } };
+
+let testApp: TestApp;
+let token: string;
+let streamerId: string;
+
+beforeEach(async () => {
+  testApp = await createTestApp();
+  const session = await signUpStreamer(testApp, 'alice');
+  token = session.token;
+  streamerId = session.user.id;
+});
+
+afterEach(async () => {
+  await testApp.settle();
+});
+
+async function invite() {
+  const response = await testApp.request<InviteBody>('POST', '/api/members/invites', {
+    token,
+    json: { permissions: ['view', 'review'] },
+  });
+  return response.body.member.inviteCode;
+}
+
+function joinedEvents() {
+  const [result] = testApp.d1.sqlite.exec(
+    "SELECT COUNT(*) FROM audit_events WHERE streamer_id = ? AND action = 'member.joined'",
+    [streamerId],
+  );
+  return result.values[0][0];
+}
+
+function count(table: string) {
+  const [result] = testApp.d1.sqlite.exec(`SELECT COUNT(*) FROM ${table}`);
+  return result.values[0][0];
+}
+
+describe('invites', () => {
+  it('lets only one of two accounts accepting at once join', async () => {
+    const inviteCode = await invite();
+    const bob = await signUpStreamer(testApp, 'bob');
+    const carol = await signUpStreamer(testApp, 'carol');
+
+    const responses = await Promise.all(
+      [bob, carol].map((session) =>
+        testApp.request('POST', '/api/memberships/accept', { token: session.token, json: { inviteCode } }),
+      ),
+    );
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 404]);
+    expect(joinedEvents()).toBe(1);
+  });
+
+  it('refuses a used invite at signup before creating the account', async () => {
+    const inviteCode = await invite();
+    const signup = (slug: string) =>
+      testApp.request('POST', '/api/auth/signup', {
+        json: { displayName: `Moderator ${slug}`, slug, password: 'correct horse battery', inviteCode },
+      });
+
+    const responses = await Promise.all([signup('bob'), signup('carol')]);
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 404]);
+    expect(count('users')).toBe(2);
+    expect(joinedEvents()).toBe(1);
+    const [member] = testApp.d1.sqlite.exec('SELECT user_id FROM streamer_members WHERE streamer_id = ?', [streamerId]);
+    expect(member.values[0][0]).not.toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { gif } from '../fixtures/gif';
+import { createTestApp, signUpStreamer, submissionForm } from '../helpers/app';
+import type { SerializedUser, TestApp } from '../helpers/app';
+
+type UserBody = { user: SerializedUser };
+
+let testApp: TestApp;
+let token: string;
+let streamerId: string;
+
+beforeEach(async () => {
+  testApp = await createTestApp();
+  const session = await signUpStreamer(testApp, 'alice');
+  token = session.token;
+  streamerId = session.user.id;
+});
+
+afterEach(async () => {
+  await testApp.settle();
+});
+
+function overlayEventTypes() {
+  const [result] = testApp.d1.sqlite.exec('SELECT type FROM overlay_events WHERE streamer_id = ? ORDER BY id', [
+    streamerId,
+  ]);
+  return (result?.values ?? []).map(([type]) => type);
+}
+
+function auditActions() {
+  const [result] = testApp.d1.sqlite.exec('SELECT action FROM audit_events WHERE streamer_id = ?', [streamerId]);
+  // Events in the same millisecond have no defined order, so compare them sorted
+  return (result?.values ?? []).map(([action]) => String(action)).sort();
+}
+
+describe('settings', () => {
+  it('returns the current settings with defaults filled in', async () => {
+    const response = await testApp.request<UserBody>('GET', '/api/settings', { token });
+    expect(response.status).toBe(200);
+    expect(response.body.user.settings.submissionLimits).toEqual({
+      pendingExpiryHours: 12,
+      approvedExpiryHours: 12,
+      maxSubmissions: 64,
+    });
+  });
+
+  it('saves caption settings, audits them and tells the overlay', async () => {
+    const captions = {
+      enabled: true,
+      font: 'rounded',
+      fontSize: 24,
+      color: '#FFAA00',
+      position: 'below',
+      maxLength: 80,
+    };
+    const response = await testApp.request<UserBody>('PUT', '/api/settings/captions', { token, json: captions });
+    expect(response.status).toBe(200);
+    expect(response.body.user.settings.captions).toEqual({ ...captions, color: '#ffaa00' });
+
+    const reread = await testApp.request<UserBody>('GET', '/api/settings', { token });
+    expect(reread.body.user.settings.captions.color).toBe('#ffaa00');
+    expect(auditActions()).toContain('settings.updated');
+    expect(overlayEventTypes()).toEqual(['streamer.updated']);
+  });
+
+  it('rejects out-of-range values without saving them', async () => {
+    const response = await testApp.request('PUT', '/api/settings/submission-limits', {
+      token,
+      json: { pendingExpiryHours: 0, approvedExpiryHours: 12, maxSubmissions: 10 },
+    });
+    expect(response.status).toBe(400);
+    const reread = await testApp.request<UserBody>('GET', '/api/settings', { token });
+    expect(reread.body.user.settings.submissionLimits.pendingExpiryHours).toBe(12);
+  });
+
+  it('keeps moderation-only settings off the overlay stream', async () => {
+    const response = await testApp.request<UserBody>('PUT', '/api/settings/rate-limits', {
+      token,
+      json: { windowMinutes: 5, perIp: 3, perUploader: 2 },
+    });
+    expect(response.body.user.settings.rateLimits).toEqual({ windowMinutes: 5, perIp: 3, perUploader: 2 });
+    expect(overlayEventTypes()).toEqual([]);
+  });
+
+  it('drops the custom size when switching back to a preset resolution', async () => {
+    const custom = await testApp.request<UserBody>('PUT', '/api/settings/resolution', {
+      token,
+      json: { resolution: 'custom', customSize: { width: 1000, height: 1600 } },
+    });
+    expect(custom.body.user.settings.customResolution).toEqual({ width: 1000, height: 1600 });
+
+    const preset = await testApp.request<UserBody>('PUT', '/api/settings/resolution', {
+      token,
+      json: { resolution: '720p' },
+    });
+    expect(preset.body.user.settings.preferredResolution).toBe('720p');
+    expect(preset.body.user.settings.customResolution).toBeUndefined();
+    expect(overlayEventTypes()).toEqual(['streamer.updated', 'streamer.updated']);
+  });
+
+  it('audits every settings change, whether or not the overlay hears of it', async () => {
+    await testApp.request('PUT', '/api/settings/duplicates', { token, json: { mode: 'reject' } });
+    await testApp.request('PUT', '/api/settings/rotation', { token, json: { enabled: false } });
+    expect(auditActions()).toEqual(['settings.updated', 'settings.updated']);
+    expect(overlayEventTypes()).toEqual(['streamer.updated']);
+  });
+
+  it('saves the media policy and applies it to uploads', async () => {
+    const policy = {
+      maxFrames: 1,
+      maxDurationSeconds: 15,
+      maxWidth: 640,
+      maxHeight: 640,
+      allowStillImages: true,
+      limitStillSize: false,
+    };
+    const response = await testApp.request<UserBody>('PUT', '/api/settings/media-policy', { token, json: policy });
+    expect(response.body.user.settings.mediaPolicy).toEqual(policy);
+
+    const animation = gif({
+      frames: [
+        { width: 4, height: 4, delayCs: 10 },
+        { width: 4, height: 4, delayCs: 10 },
+      ],
+    });
+    const upload = await testApp.request('POST', '/api/submissions/public', {
+      form: submissionForm('alice', new File([animation], 'two-frames.gif', { type: 'image/gif' })),
+    });
+    expect(upload.status).toBe(400);
+    expect(testApp.r2.objects.size).toBe(0);
+  });
+
+  it('requires a signed-in streamer', async () => {
+    const missing = await testApp.request('PUT', '/api/settings/rotation', { json: { enabled: false } });
+    expect(missing.status).toBe(401);
+  });
+});
+
+describe('blocklist', () => {
+  it('adds, lists and removes entries', async () => {
+    const added = await testApp.request<{ entry: { id: string } }>('POST', '/api/settings/blocklist', {
+      token,
+      json: { kind: 'name', value: 'Troll' },
+    });
+    expect(added.status).toBe(201);
+    const listed = await testApp.request<{ entries: { id: string; value: string }[]; mode: string }>(
+      'GET',
+      '/api/settings/blocklist',
+      { token },
+    );
+    expect(listed.body.mode).toBe('silent');
+    expect(listed.body.entries.map((entry) => entry.id)).toEqual([added.body.entry.id]);
+
+    const removed = await testApp.request('DELETE', `/api/settings/blocklist/${added.body.entry.id}`, { token });
+    expect(removed.status).toBe(204);
+    expect(auditActions()).toEqual(['blocklist.added', 'blocklist.removed']);
+  });
+
+  it.each(['(a+)+$', 'a*a*a*a*a*a*a*a*b', '.*.*.*.*.*.*.*.*x', `${'a?'.repeat(30)}${'a'.repeat(30)}`, 'a{1,9}b+c*'])(
+    'refuses %s, which can backtrack too long',
+    async (value) => {
+      const response = await testApp.request('POST', '/api/settings/blocklist', {
+        token,
+        json: { kind: 'name_pattern', value },
+      });
+      expect(response.status).toBe(400);
+    },
+  );
+
+  it.each(['^troll\\d+$', '^x+.*bot$', 'spam(mer)?', 'a{3}b{2,}', 'bad.*?word'])('accepts %s', async (value) => {
+    const response = await testApp.request('POST', '/api/settings/blocklist', {
+      token,
+      json: { kind: 'name_pattern', value },
+    });
+    expect(response.status).toBe(201);
+  });
+
+  it('answers blocked uploaders like a success in silent mode and with 403 in reject mode', async () => {
+    await testApp.request('POST', '/api/settings/blocklist', { token, json: { kind: 'name', value: 'troll' } });
+    const upload = () =>
+      testApp.request('POST', '/api/submissions/public', {
+        form: submissionForm('alice', new File([gif()], 'clip.gif', { type: 'image/gif' }), 'Troll'),
+      });
+
+    const silent = await upload();
+    expect(silent.status).toBe(201);
+    expect(silent.body).toEqual({ submission: null });
+
+    await testApp.request('PUT', '/api/settings/blocklist/mode', { token, json: { mode: 'reject' } });
+    expect((await upload()).status).toBe(403);
+    expect(testApp.r2.objects.size).toBe(0);
+  });
+});
@@ -0,0 +1,311 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCleanup } from '../../functions/api/_lib/cleanup';
+import { gif } from '../fixtures/gif';
+import { png } from '../fixtures/png';
+import { createTestApp, signUpStreamer, submissionForm } from '../helpers/app';
+import type { SerializedSubmission, SerializedUser, TestApp } from '../helpers/app';
+
+type SubmissionBody = { submission: SerializedSubmission };
+// Uploads answer with an error and its code when they are refused
+type UploadBody = SubmissionBody & { error?: string; code?: string };
+type SubmissionList = { submissions: SerializedSubmission[] };
+
+let testApp: TestApp;
+let token: string;
+let streamerId: string;
+
+beforeEach(async () => {
+  testApp = await createTestApp();
+  const session = await signUpStreamer(testApp, 'alice');
+  token = session.token;
+  streamerId = session.user.id;
+});
+
+afterEach(async () => {
+  await testApp.settle();
+});
+
+/** Noise GIFs, far enough apart that the perceptual hash does not call them duplicates. */
+function distinctGif(seed: number) {
+  let state = (seed * 2654435761) >>> 0;
+  const pixels = Array.from({ length: 64 }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state >>> 30;
+  });
+  return new File([gif({ width: 8, height: 8, frames: [{ width: 8, height: 8, pixels }] })], `clip-${seed}.gif`, {
+    type: 'image/gif',
+  });
+}
+
+async function submit(file: File, uploaderName = 'viewer') {
+  return testApp.request<UploadBody>('POST', '/api/submissions/public', {
+    form: submissionForm('alice', file, uploaderName),
+  });
+}
+
+async function listPending() {
+  return (await testApp.request<SubmissionList>('GET', '/api/submissions/pending', { token })).body.submissions;
+}
+
+async function overlayToken() {
+  return (await testApp.request<{ user: SerializedUser }>('GET', '/api/settings', { token })).body.user.overlayToken;
+}
+
+function setDuplicateHandling(mode: 'merge' | 'reject' | 'allow') {
+  return testApp.request('PUT', '/api/settings/duplicates', { token, json: { mode } });
+}
+
+describe('public submission', () => {
+  it('stores the sanitized file and queues it for review', async () => {
+    const response = await submit(distinctGif(1));
+    expect(response.status).toBe(201);
+    const { submission } = response.body;
+    expect(submission).toMatchObject({ status: 'pending', uploaderName: 'viewer', fileName: 'clip-1.gif' });
+    expect(submission.fileUrl).toBe(`https://r2.test/${submission.fileKey}`);
+    expect(testApp.r2.objects.get(submission.fileKey)?.httpMetadata?.contentType).toBe('image/gif');
+    expect((await listPending()).map((entry) => entry.id)).toEqual([submission.id]);
+  });
+
+  it('generates a poster and preview after responding', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    await testApp.settle();
+    const [pending] = await listPending();
+    expect(pending.thumbnailUrl).toMatch(/\.thumb\.png$/);
+    expect(pending.previewUrl).toMatch(/\.preview\.gif$/);
+    expect(testApp.r2.objects.size).toBe(3);
+    expect(pending.id).toBe(submission.id);
+  });
+
+  it('generates only a poster for an animated PNG', async () => {
+    const file = new File([png({ width: 8, height: 8, frames: 3 })], 'clip.png', { type: 'image/png' });
+    expect((await submit(file)).status).toBe(201);
+    await testApp.settle();
+    const [pending] = await listPending();
+    expect(pending.thumbnailUrl).toMatch(/\.thumb\.png$/);
+    expect(pending.previewUrl).toBeNull();
+    expect(testApp.r2.objects.size).toBe(2);
+  });
+
+  it('answers 404 for an unknown streamer', async () => {
+    const response = await testApp.request('POST', '/api/submissions/public', {
+      form: submissionForm('nobody', distinctGif(1)),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses a file whose bytes do not match its type and stores nothing', async () => {
+    const mislabeled = new File([await distinctGif(1).arrayBuffer()], 'clip.png', { type: 'image/png' });
+    const response = await submit(mislabeled);
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('type_mismatch');
+    expect(testApp.r2.objects.size).toBe(0);
+    expect(await listPending()).toEqual([]);
+  });
+
+  it('refuses a malformed GIF with a 400', async () => {
+    const truncated = new File([gif().subarray(0, 30)], 'broken.gif', { type: 'image/gif' });
+    const response = await submit(truncated);
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('invalid_image');
+  });
+
+  it('merges an exact duplicate into the original', async () => {
+    const first = await submit(distinctGif(1));
+    const second = await submit(distinctGif(1), 'someone else');
+    expect(second.status).toBe(200);
+    expect(second.body).toEqual({ merged: true, duplicateOf: first.body.submission.id });
+    const pending = await listPending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0].duplicateCount).toBe(1);
+  });
+
+  it('throttles an uploader past the configured rate', async () => {
+    await testApp.request('PUT', '/api/settings/rate-limits', {
+      token,
+      json: { windowMinutes: 10, perIp: 10, perUploader: 1 },
+    });
+    expect((await submit(distinctGif(1))).status).toBe(201);
+    const throttled = await submit(distinctGif(2));
+    expect(throttled.status).toBe(429);
+    expect(Number(throttled.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await submit(distinctGif(3), 'another viewer')).status).toBe(201);
+  });
+
+  it('keeps a burst across a window boundary to the configured rate', async () => {
+    await testApp.request('PUT', '/api/settings/rate-limits', {
+      token,
+      json: { windowMinutes: 10, perIp: 10, perUploader: 2 },
+    });
+    const windowMs = 10 * 60 * 1000;
+    const boundary = Math.ceil(Date.now() / windowMs) * windowMs + windowMs;
+    // Only the clock is faked; hashing and uploads still need real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(boundary - 1000);
+      expect((await submit(distinctGif(1))).status).toBe(201);
+      expect((await submit(distinctGif(2))).status).toBe(201);
+
+      vi.setSystemTime(boundary + 1000);
+      const throttled = await submit(distinctGif(3));
+      expect(throttled.status).toBe(429);
+      // The window slides past the earlier two a full window after they were sent
+      expect(Number(throttled.headers.get('retry-after'))).toBe(windowMs / 1000 - 2);
+
+      vi.setSystemTime(boundary + windowMs - 1000);
+      expect((await submit(distinctGif(4))).status).toBe(201);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('review', () => {
+  it('approves a submission onto the overlay', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    const response = await testApp.request<SubmissionBody>('POST', `/api/submissions/${submission.id}/review`, {
+      token,
+      json: { action: 'approve' },
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.submission.status).toBe('approved');
+
+    const feed = await testApp.request<SubmissionList>('GET', `/api/overlay/feed?token=${await overlayToken()}`);
+    expect(feed.body.submissions.map((entry) => entry.id)).toEqual([submission.id]);
+  });
+
+  it('moves a denied submission to the trash', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    const response = await testApp.request<SubmissionBody>('POST', `/api/submissions/${submission.id}/review`, {
+      token,
+      json: { action: 'deny' },
+    });
+    expect(response.body.submission).toMatchObject({ status: 'denied', trashedAt: expect.any(String) });
+    expect(await listPending()).toEqual([]);
+    const trash = await testApp.request<SubmissionList>('GET', '/api/submissions/trash', { token });
+    expect(trash.body.submissions.map((entry) => entry.id)).toEqual([submission.id]);
+  });
+
+  it("hides another streamer's submissions", async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    const other = await signUpStreamer(testApp, 'mallory');
+    const response = await testApp.request('POST', `/api/submissions/${submission.id}/review`, {
+      token: other.token,
+      json: { action: 'approve' },
+    });
+    expect(response.status).toBe(404);
+    const pending = await testApp.request('GET', `/api/submissions/pending?streamerId=${streamerId}`, {
+      token: other.token,
+    });
+    expect(pending.status).toBe(403);
+  });
+});
+
+describe('delete and restore', () => {
+  it('trashes a submission and brings it back', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    const deleted = await testApp.request('DELETE', `/api/submissions/${submission.id}`, { token });
+    expect(deleted.status).toBe(204);
+    expect(await listPending()).toEqual([]);
+    // The file stays until the trash is purged
+    expect(testApp.r2.objects.has(submission.fileKey)).toBe(true);
+
+    const restored = await testApp.request<SubmissionBody>('POST', `/api/submissions/${submission.id}/restore`, {
+      token,
+    });
+    expect(restored.status).toBe(200);
+    expect(restored.body.submission.trashedAt).toBeNull();
+    expect((await listPending()).map((entry) => entry.id)).toEqual([submission.id]);
+  });
+
+  it('refuses to delete twice', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    await testApp.request('DELETE', `/api/submissions/${submission.id}`, { token });
+    const again = await testApp.request('DELETE', `/api/submissions/${submission.id}`, { token });
+    expect(again.status).toBe(404);
+  });
+});
+
+describe('expiry', () => {
+  function expire(submissionId: string, column: 'expires_at' | 'purge_at') {
+    testApp.d1.sqlite.run(`UPDATE submissions SET ${column} = ? WHERE id = ?`, [
+      new Date(Date.now() - 1000).toISOString(),
+      submissionId,
+    ]);
+  }
+
+  it('drops expired submissions and their files when the overlay polls', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    await testApp.settle();
+    expire(submission.id, 'expires_at');
+    await testApp.request('GET', `/api/overlay/feed?token=${await overlayToken()}`);
+    expect(await listPending()).toEqual([]);
+    expect(testApp.r2.objects.size).toBe(0);
+  });
+
+  it('purges trash past its retention in the scheduled cleanup', async () => {
+    const kept = (await submit(distinctGif(1))).body.submission;
+    const trashed = (await submit(distinctGif(2))).body.submission;
+    await testApp.request('DELETE', `/api/submissions/${trashed.id}`, { token });
+    expire(trashed.id, 'purge_at');
+
+    const report = await runCleanup(testApp.env);
+    expect(report).toMatchObject({ deleted: 1, streamers: 1, failed: false });
+    expect(testApp.r2.objects.has(trashed.fileKey)).toBe(false);
+    expect(testApp.r2.objects.has(kept.fileKey)).toBe(true);
+    const trash = await testApp.request<SubmissionList>('GET', '/api/submissions/trash', { token });
+    expect(trash.body.submissions).toEqual([]);
+  });
+
+  it('leaves trashed submissions to the purge even once they expire', async () => {
+    const { submission } = (await submit(distinctGif(1))).body;
+    await testApp.request('DELETE', `/api/submissions/${submission.id}`, { token });
+    expire(submission.id, 'expires_at');
+    expect(await runCleanup(testApp.env)).toMatchObject({ deleted: 0 });
+  });
+});
+
+describe('submission cap', () => {
+  async function setCap(maxSubmissions: number) {
+    return testApp.request('PUT', '/api/settings/submission-limits', {
+      token,
+      json: { pendingExpiryHours: 12, approvedExpiryHours: 12, maxSubmissions },
+    });
+  }
+
+  async function submitInOrder(count: number) {
+    const submissions: SerializedSubmission[] = [];
+    for (let seed = 1; seed <= count; seed++) {
+      submissions.push((await submit(distinctGif(seed), `viewer ${seed}`)).body.submission);
+      // created_at decides which goes first, so keep the timestamps apart
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return submissions;
+  }
+
+  it('drops the oldest pending submission when a new one goes over the cap', async () => {
+    await setDuplicateHandling('allow');
+    await setCap(2);
+    const [oldest, ...rest] = await submitInOrder(3);
+    expect((await listPending()).map((entry) => entry.id).sort()).toEqual(rest.map((entry) => entry.id).sort());
+    expect(testApp.r2.objects.has(oldest.fileKey)).toBe(false);
+  });
+
+  it('applies a lower cap straight away', async () => {
+    await setDuplicateHandling('allow');
+    const submissions = await submitInOrder(3);
+    expect(await listPending()).toHaveLength(3);
+    expect((await setCap(1)).status).toBe(200);
+    expect((await listPending()).map((entry) => entry.id)).toEqual([submissions[2].id]);
+  });
+
+  it('does not count the trash against the cap', async () => {
+    await setDuplicateHandling('allow');
+    await setCap(1);
+    const [first] = await submitInOrder(1);
+    await testApp.request('DELETE', `/api/submissions/${first.id}`, { token });
+    const second = (await submit(distinctGif(2))).body.submission;
+    expect((await listPending()).map((entry) => entry.id)).toEqual([second.id]);
+    const trash = await testApp.request<SubmissionList>('GET', '/api/submissions/trash', { token });
+    expect(trash.body.submissions.map((entry) => entry.id)).toEqual([first.id]);
+  });
+});
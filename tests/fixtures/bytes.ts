@@ -0,0 +1,28 @@
+/** Byte helpers shared by the hand-built image fixtures. */
+
+export function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+  const arrays = parts.map((part) => (part instanceof Uint8Array ? part : Uint8Array.from(part)));
+  const out = new Uint8Array(arrays.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of arrays) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/** Index of `needle` in `haystack`, or -1. */
+export function indexOfBytes(haystack: Uint8Array, needle: Uint8Array | number[]): number {
+  const pattern = Array.from(needle);
+  outer: for (let i = 0; i + pattern.length <= haystack.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (haystack[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
@@ -0,0 +1,134 @@
+import { ascii, concat } from './bytes';
+
+/**
+ * Hand-built GIFs. Every frame is real LZW data that gifuct-js decodes, so the
+ * same fixtures work for the sanitizer, inspectGif and the fingerprinting.
+ */
+
+export const TRAILER = 0x3b;
+
+export type GifFrame = {
+  width: number;
+  height: number;
+  left?: number;
+  top?: number;
+  /** Palette indices, one per pixel; defaults to a checkerboard of 0 and 1. */
+  pixels?: number[];
+  /** Adds a Graphic Control Extension with this delay in hundredths of a second. */
+  delayCs?: number;
+  localColorTable?: boolean;
+};
+
+export type GifOptions = {
+  version?: '87a' | '89a';
+  width?: number;
+  height?: number;
+  frames?: GifFrame[];
+  /** Extension blocks written before the first frame, e.g. from the helpers below. */
+  extensions?: number[][];
+  /** Omits the trailer byte. */
+  withoutTrailer?: boolean;
+};
+
+// Four colours, so the LZW minimum code size is 2.
+const PALETTE = [0x00, 0x00, 0x00, 0xff, 0xff, 0xff, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff];
+const COLOR_TABLE_SIZE_BITS = 1; // 2^(1+1) = 4 entries
+const MIN_CODE_SIZE = 2;
+
+export function gif(options: GifOptions = {}): Uint8Array {
+  const width = options.width ?? 4;
+  const height = options.height ?? 4;
+  const frames = options.frames ?? [{ width, height }];
+  return concat(
+    ascii(`GIF${options.version ?? '89a'}`),
+    [width & 0xff, width >> 8, height & 0xff, height >> 8, 0x80 | COLOR_TABLE_SIZE_BITS, 0, 0],
+    PALETTE,
+    ...(options.extensions ?? []),
+    ...frames.map(frame),
+    options.withoutTrailer ? [] : [TRAILER],
+  );
+}
+
+function frame(options: GifFrame): number[] {
+  const { width, height, left = 0, top = 0 } = options;
+  const pixels =
+    options.pixels ??
+    Array.from({ length: width * height }, (_, index) => ((index % width) + Math.floor(index / width)) % 2);
+  const control = options.delayCs === undefined ? [] : graphicControl(options.delayCs);
+  const packed = options.localColorTable ? 0x80 | COLOR_TABLE_SIZE_BITS : 0;
+  return [
+    ...control,
+    0x2c,
+    left & 0xff,
+    left >> 8,
+    top & 0xff,
+    top >> 8,
+    width & 0xff,
+    width >> 8,
+    height & 0xff,
+    height >> 8,
+    packed,
+    ...(options.localColorTable ? PALETTE : []),
+    MIN_CODE_SIZE,
+    ...subBlocks(lzw(pixels)),
+  ];
+}
+
+/**
+ * LZW that sends a clear code before every pixel. The dictionary never grows,
+ * so every code has the same width; wasteful, but any decoder accepts it.
+ */
+export function lzw(pixels: number[]): number[] {
+  const clear = 1 << MIN_CODE_SIZE;
+  const end = clear + 1;
+  const codeSize = MIN_CODE_SIZE + 1;
+  const codes = [...pixels.flatMap((pixel) => [clear, pixel]), end];
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const code of codes) {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  }
+  if (bits > 0) {
+    out.push(buffer & 0xff);
+  }
+  return out;
+}
+
+/** Splits data into sub-blocks of at most 255 bytes and adds the terminator. */
+export function subBlocks(data: number[], size = 255): number[] {
+  const out: number[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    const block = data.slice(offset, offset + size);
+    out.push(block.length, ...block);
+  }
+  out.push(0);
+  return out;
+}
+
+export function graphicControl(delayCs: number): number[] {
+  return [0x21, 0xf9, 4, 0x00, delayCs & 0xff, delayCs >> 8, 0, 0];
+}
+
+export function comment(text: string): number[] {
+  return [0x21, 0xfe, ...subBlocks(ascii(text))];
+}
+
+export function plainText(text: string): number[] {
+  return [0x21, 0x01, 12, 0, 0, 0, 0, 8, 0, 8, 0, 8, 8, 1, 0, ...subBlocks(ascii(text))];
+}
+
+export function netscapeLoop(loopCount: number): number[] {
+  return [0x21, 0xff, 11, ...ascii('NETSCAPE2.0'), 3, 1, loopCount & 0xff, loopCount >> 8, 0];
+}
+
+/** An application extension other than NETSCAPE2.0, e.g. the XMP packets editors embed. */
+export function applicationExtension(identifier: string, payload: string): number[] {
+  return [0x21, 0xff, 11, ...ascii(identifier.padEnd(11).slice(0, 11)), ...subBlocks(ascii(payload))];
+}
@@ -0,0 +1,93 @@
+import { ascii, concat } from './bytes';
+
+/**
+ * Structurally valid JPEGs for the sanitizer. The entropy-coded data is not a
+ * decodable picture, but it has the byte patterns a real scan has: stuffed
+ * FF 00 pairs, restart markers and D9 bytes that are not preceded by FF.
+ */
+
+export const SOI = [0xff, 0xd8];
+export const EOI = [0xff, 0xd9];
+
+export function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+export const jfif = segment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+/** Big-endian EXIF with an orientation entry followed by text standing in for GPS tags. */
+export function exif(orientation: number, marker: string): number[] {
+  const tiff = [
+    0x4d,
+    0x4d,
+    0x00,
+    0x2a,
+    0x00,
+    0x00,
+    0x00,
+    0x08,
+    0x00,
+    0x01,
+    0x01,
+    0x12,
+    0x00,
+    0x03,
+    0x00,
+    0x00,
+    0x00,
+    0x01,
+    0x00,
+    orientation,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+  ];
+  return segment(0xe1, [...ascii('Exif\0\0'), ...tiff, ...ascii(marker)]);
+}
+
+export const mpfIndex = segment(0xe2, [...ascii('MPF\0'), 0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8]);
+export const iccProfile = segment(0xe2, [...ascii('ICC_PROFILE\0'), 1, 1, 0, 0, 0, 0]);
+export const quantTable = segment(0xdb, [0x00, ...new Array(64).fill(1)]);
+export const frameHeader = segment(0xc0, [8, 0, 16, 0, 16, 1, 1, 0x11, 0]);
+export const progressiveFrameHeader = segment(0xc2, [8, 0, 16, 0, 16, 1, 1, 0x11, 0]);
+export const huffmanTable = segment(0xc4, [0x00, 1, ...new Array(15).fill(0), 0]);
+export const scanHeader = segment(0xda, [1, 1, 0x00, 0, 63, 0]);
+
+/** Scan bytes with stuffing, a restart marker and a bare D9. */
+export const entropyData = [0x12, 0xff, 0x00, 0xd9, 0x34, 0xff, 0xd0, 0x56, 0xff, 0xff, 0xd3, 0x78, 0xd9, 0x9a];
+
+export function baselineJpeg(...metadata: number[][]): Uint8Array {
+  return concat(SOI, jfif, ...metadata, quantTable, frameHeader, huffmanTable, scanHeader, entropyData, EOI);
+}
+
+/** Two scans with a table and a comment between them, as progressive encoders write. */
+export function progressiveJpeg(): Uint8Array {
+  return concat(
+    SOI,
+    jfif,
+    quantTable,
+    progressiveFrameHeader,
+    huffmanTable,
+    scanHeader,
+    entropyData,
+    huffmanTable,
+    segment(0xfe, ascii('between scans')),
+    scanHeader,
+    entropyData,
+    EOI,
+  );
+}
+
+/**
+ * A phone photo in the MPF layout: the primary image, then a second complete
+ * JPEG carrying its own EXIF block after the primary EOI.
+ */
+export function jpegWithAppendedExifJpeg() {
+  const primary = baselineJpeg(exif(6, 'GPS primary 51.5007N'), mpfIndex);
+  const secondary = baselineJpeg(exif(1, 'GPS secondary 51.5007N'));
+  return { primary, secondary, file: concat(primary, secondary) };
+}
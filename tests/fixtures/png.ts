@@ -0,0 +1,129 @@
+import { ascii, concat } from './bytes';
+
+/**
+ * Hand-built PNGs and APNGs. The image data is real zlib (stored blocks, so no
+ * compressor is needed) that DecompressionStream inflates, and every chunk
+ * carries a correct CRC, so the same fixtures work for the sanitizer, the
+ * fingerprinting and the poster frames.
+ */
+
+export const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export type PngOptions = {
+  width?: number;
+  height?: number;
+  /** RGB triples, one per pixel; defaults to a red and blue checkerboard. */
+  pixels?: number[];
+  /** Chunks written between IHDR and IDAT, e.g. from the helpers below. */
+  beforeImage?: Uint8Array[];
+  /** Chunks written between the last image data and IEND. */
+  afterImage?: Uint8Array[];
+  /** Turns the file into an APNG with this many frames, the first one being IDAT. */
+  frames?: number;
+  /** Omits IEND. */
+  withoutEnd?: boolean;
+};
+
+export function png(options: PngOptions = {}): Uint8Array {
+  const width = options.width ?? 4;
+  const height = options.height ?? 4;
+  const pixels =
+    options.pixels ??
+    Array.from({ length: width * height }, (_, index) =>
+      ((index % width) + Math.floor(index / width)) % 2 ? [0x00, 0x00, 0xff] : [0xff, 0x00, 0x00],
+    ).flat();
+  const data = imageData(width, pixels);
+  const frames = options.frames ?? 0;
+  const animation: Uint8Array[] = [];
+  // Sequence number 0 belongs to the frame control in front of IDAT
+  let sequence = 1;
+  for (let index = 1; index < frames; index++) {
+    animation.push(frameControl(sequence++, width, height));
+    animation.push(chunk('fdAT', [...uint32(sequence++), ...data]));
+  }
+  return concat(
+    SIGNATURE,
+    chunk('IHDR', [...uint32(width), ...uint32(height), 8, 2, 0, 0, 0]),
+    ...(frames > 0 ? [chunk('acTL', [...uint32(frames), ...uint32(0)])] : []),
+    ...(options.beforeImage ?? []),
+    ...(frames > 0 ? [frameControl(0, width, height)] : []),
+    chunk('IDAT', data),
+    ...animation,
+    ...(options.afterImage ?? []),
+    options.withoutEnd ? [] : chunk('IEND', []),
+  );
+}
+
+export function chunk(type: string, body: number[] | Uint8Array): Uint8Array {
+  const typeAndBody = concat(ascii(type), body);
+  return concat(uint32(body.length), typeAndBody, uint32(crc32(typeAndBody)));
+}
+
+export function textChunk(keyword: string, text: string) {
+  return chunk('tEXt', [...ascii(keyword), 0, ...ascii(text)]);
+}
+
+export function exifChunk(marker: string) {
+  return chunk('eXIf', [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8, ...ascii(marker)]);
+}
+
+export const timeChunk = chunk('tIME', [0x07, 0xe8, 1, 2, 3, 4, 5]);
+export const gammaChunk = chunk('gAMA', uint32(45455));
+
+/** Ten frames a second, drawn over the whole canvas. */
+function frameControl(sequence: number, width: number, height: number) {
+  return chunk('fcTL', [
+    ...uint32(sequence),
+    ...uint32(width),
+    ...uint32(height),
+    ...uint32(0),
+    ...uint32(0),
+    0,
+    1,
+    0,
+    10,
+    0,
+    0,
+  ]);
+}
+
+/** Filter byte 0 before every row, wrapped in a zlib stream of stored deflate blocks. */
+function imageData(width: number, pixels: number[]): number[] {
+  const raw: number[] = [];
+  for (let row = 0; row < pixels.length / (width * 3); row++) {
+    raw.push(0, ...pixels.slice(row * width * 3, (row + 1) * width * 3));
+  }
+  const blocks: number[] = [];
+  for (let offset = 0; offset < raw.length || offset === 0; offset += 0xffff) {
+    const block = raw.slice(offset, offset + 0xffff);
+    const last = offset + 0xffff >= raw.length ? 1 : 0;
+    const length = block.length;
+    blocks.push(last, length & 0xff, length >> 8, ~length & 0xff, (~length >> 8) & 0xff, ...block);
+  }
+  return [0x78, 0x01, ...blocks, ...uint32(adler32(raw))];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function adler32(bytes: number[]) {
+  let a = 1;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,82 @@
+import { ascii, concat } from './bytes';
+
+/**
+ * Structurally valid WebPs for the sanitizer. The bitstreams carry real VP8
+ * and VP8L headers, so their dimensions parse, but the coded data after them
+ * is filler rather than a decodable picture.
+ */
+
+// VP8X feature flags
+export const ANIMATION_FLAG = 0x02;
+export const XMP_FLAG = 0x04;
+export const EXIF_FLAG = 0x08;
+
+/** A RIFF container around the given chunks, with the size field filled in. */
+export function riff(...chunks: Uint8Array[]): Uint8Array {
+  const body = concat(...chunks);
+  return concat(ascii('RIFF'), uint32LE(4 + body.length), ascii('WEBP'), body);
+}
+
+/** One chunk, padded to an even length like every RIFF chunk. */
+export function chunk(type: string, body: number[]): Uint8Array {
+  return concat(ascii(type), uint32LE(body.length), body, body.length % 2 ? [0] : []);
+}
+
+export function vp8l(width: number, height: number): Uint8Array {
+  const bits = (width - 1) | ((height - 1) << 14);
+  return chunk('VP8L', [0x2f, ...uint32LE(bits), 0x10, 0x88, 0x88, 0x08]);
+}
+
+export function vp8(width: number, height: number): Uint8Array {
+  // Key frame tag, start code, then the two 14-bit sizes
+  return chunk('VP8 ', [0x50, 0x02, 0x00, 0x9d, 0x01, 0x2a, ...uint16LE(width), ...uint16LE(height), 0x00, 0x00]);
+}
+
+export function vp8x(flags: number, width: number, height: number): Uint8Array {
+  return chunk('VP8X', [flags, 0, 0, 0, ...uint24LE(width - 1), ...uint24LE(height - 1)]);
+}
+
+export const anim = chunk('ANIM', [0xff, 0xff, 0xff, 0xff, 0, 0]);
+
+export type WebpFrame = { width: number; height: number; durationMs: number };
+
+export function anmf({ width, height, durationMs }: WebpFrame): Uint8Array {
+  return chunk('ANMF', [
+    ...uint24LE(0),
+    ...uint24LE(0),
+    ...uint24LE(width - 1),
+    ...uint24LE(height - 1),
+    ...uint24LE(durationMs),
+    0,
+    ...vp8l(width, height),
+  ]);
+}
+
+export function exifChunk(marker: string) {
+  return chunk('EXIF', [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8, ...ascii(marker)]);
+}
+
+export function xmpChunk(marker: string) {
+  return chunk('XMP ', ascii(`<x:xmpmeta>${marker}</x:xmpmeta>`));
+}
+
+/** A lossless still behind a VP8X header, with any metadata chunks after the image. */
+export function extendedWebp(flags: number, ...metadata: Uint8Array[]): Uint8Array {
+  return riff(vp8x(flags, 4, 4), vp8l(4, 4), ...metadata);
+}
+
+export function animatedWebp(frames: WebpFrame[], flags = 0, ...metadata: Uint8Array[]): Uint8Array {
+  return riff(vp8x(ANIMATION_FLAG | flags, 8, 6), anim, ...frames.map(anmf), ...metadata);
+}
+
+function uint16LE(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function uint24LE(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+}
+
+function uint32LE(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+}
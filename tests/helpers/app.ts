@@ -0,0 +1,101 @@
+import { app } from '../../functions/api/[[path]]';
+import type { serializeSubmission, serializeUser } from '../../functions/api/_lib/serializers';
+import type { GifstremBindings } from '../../functions/api/_lib/types';
+import { createTestD1 } from './d1';
+import { createTestR2 } from './r2';
+
+export type SerializedUser = ReturnType<typeof serializeUser>;
+export type SerializedSubmission = ReturnType<typeof serializeSubmission>;
+export type Session = { token: string; refreshToken: string; user: SerializedUser };
+
+export type ApiResponse<T = Record<string, unknown>> = {
+  status: number;
+  headers: Headers;
+  body: T;
+};
+
+type RequestOptions = {
+  token?: string;
+  json?: unknown;
+  form?: FormData;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Boots the Hono app in-process against fresh D1 and R2 stand-ins. Work the
+ * routes hand to waitUntil is collected so tests can wait for it with settle().
+ */
+export async function createTestApp() {
+  const d1 = await createTestD1();
+  const r2 = createTestR2();
+  const env: GifstremBindings = {
+    DB: d1.db,
+    GIF_BUCKET: r2.bucket,
+    JWT_SECRET: 'test-secret-that-is-long-enough-for-hs256',
+    R2_PUBLIC_BASE_URL: 'https://r2.test',
+  };
+  const pending: Promise<unknown>[] = [];
+  const executionCtx = {
+    waitUntil(task: Promise<unknown>) {
+      pending.push(task);
+    },
+    passThroughOnException() {},
+  };
+
+  async function request<T = Record<string, unknown>>(
+    method: string,
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<ApiResponse<T>> {
+    const headers = new Headers(options.headers);
+    if (options.token) {
+      headers.set('authorization', `Bearer ${options.token}`);
+    }
+    let body: BodyInit | undefined;
+    if (options.json !== undefined) {
+      headers.set('content-type', 'application/json');
+      body = JSON.stringify(options.json);
+    } else if (options.form) {
+      body = options.form;
+    }
+    const response = await app.fetch(
+      new Request(`http://localhost${path}`, { method, headers, body }),
+      env,
+      executionCtx,
+    );
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+  }
+
+  async function settle() {
+    while (pending.length > 0) {
+      await Promise.all(pending.splice(0));
+    }
+  }
+
+  return { env, d1, r2, request, settle };
+}
+
+export type TestApp = Awaited<ReturnType<typeof createTestApp>>;
+
+/** Signs up a streamer and returns the access token along with the user. */
+export async function signUpStreamer(testApp: TestApp, slug: string, password = 'correct horse battery') {
+  const response = await testApp.request<Session>('POST', '/api/auth/signup', {
+    json: { displayName: `Streamer ${slug}`, slug, password },
+  });
+  if (response.status !== 201) {
+    throw new Error(`Signup failed with ${response.status}: ${JSON.stringify(response.body)}`);
+  }
+  return { ...response.body, password };
+}
+
+export function submissionForm(slug: string, file: File, uploaderName = 'viewer', message?: string) {
+  const form = new FormData();
+  form.set('slug', slug);
+  form.set('uploaderName', uploaderName);
+  if (message) {
+    form.set('message', message);
+  }
+  form.set('file', file);
+  return form;
+}
@@ -0,0 +1,113 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import initSqlJs from 'sql.js';
+import type { Database, SqlValue } from 'sql.js';
+
+/**
+ * A D1 stand-in backed by sql.js, with every file in migrations/ applied in
+ * order. It covers the parts of the D1 API the repositories use: prepared
+ * statements with bind/first/all/run/raw, batch (one transaction) and exec.
+ */
+
+const MIGRATIONS_DIR = join(__dirname, '../../migrations');
+
+let sqlJs: ReturnType<typeof initSqlJs> | undefined;
+
+export type TestD1 = {
+  db: D1Database;
+  /** The underlying database, for arranging rows the API has no route for. */
+  sqlite: Database;
+};
+
+export async function createTestD1(): Promise<TestD1> {
+  sqlJs ??= initSqlJs();
+  const sqlite = new (await sqlJs).Database();
+  for (const file of readdirSync(MIGRATIONS_DIR)
+    .filter((name) => name.endsWith('.sql'))
+    .sort()) {
+    sqlite.exec(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+  return { db: createD1Database(sqlite), sqlite };
+}
+
+type Row = Record<string, SqlValue>;
+
+function createD1Database(sqlite: Database): D1Database {
+  const execute = (query: string, params: SqlValue[]) => {
+    const statement = sqlite.prepare(query);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return { rows, changes: sqlite.getRowsModified() };
+    } finally {
+      statement.free();
+    }
+  };
+
+  const result = ({ rows, changes }: { rows: Row[]; changes: number }) => ({
+    success: true as const,
+    results: rows,
+    meta: { changes, duration: 0, rows_read: rows.length, rows_written: changes },
+  });
+
+  const statement = (query: string, params: SqlValue[] = []) => ({
+    query,
+    params,
+    bind(...values: unknown[]) {
+      return statement(query, values.map(toSqlValue));
+    },
+    async first(column?: string) {
+      const [row] = execute(query, params).rows;
+      if (!row) return null;
+      return column ? row[column] : row;
+    },
+    async all() {
+      return result(execute(query, params));
+    },
+    async run() {
+      return result(execute(query, params));
+    },
+    async raw() {
+      return execute(query, params).rows.map((row) => Object.values(row));
+    },
+  });
+
+  type Statement = ReturnType<typeof statement>;
+
+  const db = {
+    prepare(query: string) {
+      return statement(query);
+    },
+    // D1 runs a batch as one transaction, so a failing statement undoes the earlier ones.
+    async batch(statements: Statement[]) {
+      sqlite.exec('BEGIN');
+      try {
+        const results = statements.map((entry) => result(execute(entry.query, entry.params)));
+        sqlite.exec('COMMIT');
+        return results;
+      } catch (error) {
+        sqlite.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    async exec(query: string) {
+      sqlite.exec(query);
+      return { count: 1, duration: 0 };
+    },
+  };
+  return db as unknown as D1Database;
+}
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined) {
+    // D1 refuses undefined too; catching it here keeps the fake from hiding bugs.
+    throw new TypeError('D1_TYPE_ERROR: Type undefined is not supported');
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return value as SqlValue;
+}
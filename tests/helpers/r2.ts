@@ -0,0 +1,65 @@
+/**
+ * An R2 stand-in holding objects in a Map. Only put, get, head and delete are
+ * implemented, which is all storage and previews use.
+ */
+
+export type StoredObject = {
+  data: Uint8Array;
+  httpMetadata?: R2HTTPMetadata;
+};
+
+export type TestR2 = {
+  bucket: R2Bucket;
+  objects: Map<string, StoredObject>;
+};
+
+export function createTestR2(): TestR2 {
+  const objects = new Map<string, StoredObject>();
+
+  const describe = (key: string, object: StoredObject) => ({
+    key,
+    size: object.data.length,
+    httpMetadata: object.httpMetadata,
+    async arrayBuffer() {
+      return object.data.slice().buffer;
+    },
+    async text() {
+      return new TextDecoder().decode(object.data);
+    },
+  });
+
+  const bucket = {
+    async put(key: string, value: ArrayBuffer | ArrayBufferView | string, options?: R2PutOptions) {
+      const object = {
+        data: toBytes(value),
+        httpMetadata: options?.httpMetadata as R2HTTPMetadata | undefined,
+      };
+      objects.set(key, object);
+      return describe(key, object);
+    },
+    async get(key: string) {
+      const object = objects.get(key);
+      return object ? describe(key, object) : null;
+    },
+    async head(key: string) {
+      const object = objects.get(key);
+      return object ? describe(key, object) : null;
+    },
+    async delete(keys: string | string[]) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        objects.delete(key);
+      }
+    },
+  };
+  return { bucket: bucket as unknown as R2Bucket, objects };
+}
+
+function toBytes(value: ArrayBuffer | ArrayBufferView | string): Uint8Array {
+  if (typeof value === 'string') {
+    return new TextEncoder().encode(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+  }
+  return new Uint8Array(value.slice(0));
+}
@@ -0,0 +1,250 @@
+import fc from 'fast-check';
+import { decompressFrames, parseGIF } from 'gifuct-js';
+import { describe, expect, it } from 'vitest';
+import { inspectGif, sanitizeGif, validateGifStructure } from '../../functions/api/_lib/gifSanitize';
+import { ascii, concat, indexOfBytes } from '../fixtures/bytes';
+import {
+  TRAILER,
+  applicationExtension,
+  comment,
+  gif,
+  graphicControl,
+  netscapeLoop,
+  plainText,
+  subBlocks,
+} from '../fixtures/gif';
+
+function sanitize(data: Uint8Array) {
+  return sanitizeGif(new File([data], 'upload.gif', { type: 'image/gif' }));
+}
+
+const animated = gif({
+  width: 8,
+  height: 6,
+  extensions: [netscapeLoop(0)],
+  frames: [
+    { width: 8, height: 6, delayCs: 5 },
+    { width: 4, height: 3, left: 2, top: 1, delayCs: 0, localColorTable: true },
+    { width: 8, height: 6, delayCs: 20 },
+  ],
+});
+
+const corpus: [string, Uint8Array][] = [
+  ['a GIF87a still', gif({ version: '87a' })],
+  ['a GIF89a still', gif({ version: '89a' })],
+  ['an animation with a loop count and a local colour table', animated],
+  ['image data split over many sub-blocks', gif({ width: 32, height: 32 })],
+];
+
+describe('sanitizeGif corpus', () => {
+  it.each(corpus)('keeps %s byte for byte', async (_, file) => {
+    const result = await sanitize(file);
+    expect(result.removedBytes).toBe(0);
+    expect(result.warnings).toEqual([]);
+    expect(result.sanitized).toEqual(file);
+  });
+
+  it('strips comment extensions', async () => {
+    const result = await sanitize(gif({ extensions: [comment('made with a leaky editor')] }));
+    expect(indexOfBytes(result.sanitized, ascii('leaky'))).toBe(-1);
+    expect(result.sanitized).toEqual(gif());
+    expect(result.warnings).toEqual([`Removed ${comment('made with a leaky editor').length} bytes of comment data`]);
+  });
+
+  it('strips plain text extensions', async () => {
+    const block = plainText('hello');
+    const result = await sanitize(gif({ extensions: [block] }));
+    expect(result.sanitized).toEqual(gif());
+    expect(result.warnings).toEqual([`Removed ${block.length} bytes of plain text extension`]);
+  });
+
+  it('strips application extensions other than NETSCAPE2.0', async () => {
+    const xmp = applicationExtension('XMP DataXMP', '<x:xmpmeta>GPS</x:xmpmeta>');
+    const result = await sanitize(gif({ extensions: [netscapeLoop(3), xmp] }));
+    expect(result.sanitized).toEqual(gif({ extensions: [netscapeLoop(3)] }));
+    expect(result.warnings).toEqual([`Removed ${xmp.length} bytes of application extension data`]);
+  });
+
+  it('strips unknown extensions', async () => {
+    const unknown = [0x21, 0x99, ...subBlocks(ascii('mystery'))];
+    const result = await sanitize(gif({ extensions: [unknown] }));
+    expect(result.sanitized).toEqual(gif());
+    expect(result.warnings).toEqual([`Removed ${unknown.length} bytes of unknown extension (label: 0x99)`]);
+  });
+
+  it('drops data after the trailer', async () => {
+    const result = await sanitize(concat(gif(), ascii('payload')));
+    expect(result.sanitized).toEqual(gif());
+    expect(result.removedBytes).toBe('payload'.length);
+  });
+
+  it('adds a missing trailer', async () => {
+    const result = await sanitize(gif({ withoutTrailer: true }));
+    expect(result.sanitized).toEqual(gif());
+    expect(result.warnings).toEqual(['Added missing GIF trailer']);
+  });
+
+  it.each([
+    ['a bad header', concat(ascii('GIF90a'), gif().subarray(6)), 'Invalid GIF file: Missing or corrupted GIF header'],
+    ['a header only', Uint8Array.from(ascii('GIF89a')), 'Invalid GIF file: File too small'],
+    ['no frames', concat(gif().subarray(0, 25), [TRAILER]), 'Invalid GIF: No image frames found'],
+    ['an unknown block', concat(gif().subarray(0, 25), [0x42, TRAILER]), 'Invalid GIF structure: Unexpected byte 0x42'],
+  ])('rejects %s', async (_, file, message) => {
+    await expect(sanitize(file)).rejects.toThrow(message);
+  });
+
+  it('rejects frames whose image data runs past the end of the file', async () => {
+    const file = gif();
+    // Drop the block terminator along with the trailer
+    const truncated = file.subarray(0, file.length - 2);
+    await expect(sanitize(truncated)).rejects.toThrow('Invalid GIF: Missing block terminator');
+    const overlong = concat(gif().subarray(0, 36), [200, 1, 2, 3]);
+    await expect(sanitize(overlong)).rejects.toThrow('Invalid GIF: Data sub-blocks extend beyond file');
+  });
+
+  it('rejects or repairs every truncation of an animation', async () => {
+    for (let length = 0; length < animated.length; length++) {
+      const truncated = animated.slice(0, length);
+      const outcome = await sanitize(truncated).then(
+        (result) => result.sanitized,
+        (error: unknown) => {
+          expect(error).toBeInstanceOf(Error);
+          return null;
+        },
+      );
+      // Cuts between blocks keep the frames before the cut and get a trailer back
+      if (outcome) {
+        expect(outcome).toEqual(concat(truncated, [TRAILER]));
+      }
+    }
+  });
+});
+
+describe('GIF fixtures', () => {
+  it('decode to the pixels they were built from', () => {
+    const pixels = [0, 1, 2, 3, 3, 2, 1, 0];
+    const file = gif({ width: 4, height: 2, frames: [{ width: 4, height: 2, pixels }] });
+    const parsed = parseGIF(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+    const [frame] = decompressFrames(parsed, false);
+    expect(Array.from(frame.pixels)).toEqual(pixels);
+  });
+});
+
+describe('inspectGif', () => {
+  it('counts frames, duration and loops', () => {
+    expect(inspectGif(animated)).toEqual({
+      width: 8,
+      height: 6,
+      hasGlobalColorTable: true,
+      frameCount: 3,
+      // 5cs, 0cs bumped to 10cs, 20cs
+      durationMs: 350,
+      loopCount: 0,
+      maxFrameWidth: 8,
+      maxFrameHeight: 6,
+    });
+  });
+
+  it('reports a still as having no duration and no loop', () => {
+    expect(inspectGif(gif({ extensions: [graphicControl(50)] }))).toMatchObject({
+      frameCount: 1,
+      durationMs: 0,
+      loopCount: null,
+    });
+  });
+
+  it('throws on truncated frames', () => {
+    expect(() => inspectGif(animated.subarray(0, 60))).toThrow(Error);
+  });
+});
+
+describe('validateGifStructure', () => {
+  it.each(corpus)('accepts %s', (_, file) => {
+    expect(validateGifStructure(file)).toEqual({ valid: true });
+  });
+
+  it('reports why a file is rejected', () => {
+    expect(validateGifStructure(Uint8Array.from(ascii('PNG')))).toEqual({ valid: false, error: 'Invalid GIF header' });
+    expect(validateGifStructure(gif().subarray(0, 10))).toEqual({ valid: false, error: 'File too small' });
+    expect(validateGifStructure(gif({ withoutTrailer: true }))).toEqual({ valid: false, error: 'Missing GIF trailer' });
+  });
+});
+
+/**
+ * Mutations of real GIFs reach far deeper into the parser than random bytes,
+ * which mostly fail the header check.
+ */
+const mutatedGif = fc
+  .record({
+    base: fc.constantFrom(...corpus.map(([, file]) => file), gif({ extensions: [comment('c'), plainText('p')] })),
+    edits: fc.array(
+      fc.oneof(
+        fc.record({ kind: fc.constant('set' as const), at: fc.nat(), value: fc.integer({ min: 0, max: 255 }) }),
+        fc.record({ kind: fc.constant('insert' as const), at: fc.nat(), bytes: fc.uint8Array({ maxLength: 8 }) }),
+        fc.record({ kind: fc.constant('truncate' as const), at: fc.nat() }),
+      ),
+      { maxLength: 6 },
+    ),
+  })
+  .map(({ base, edits }) => {
+    let bytes = Uint8Array.from(base);
+    for (const edit of edits) {
+      const at = edit.at % (bytes.length + 1);
+      if (edit.kind === 'set' && at < bytes.length) {
+        bytes[at] = edit.value;
+      } else if (edit.kind === 'insert') {
+        bytes = concat(bytes.subarray(0, at), edit.bytes, bytes.subarray(at));
+      } else if (edit.kind === 'truncate') {
+        bytes = bytes.slice(0, at);
+      }
+    }
+    return bytes;
+  });
+
+const headedNoise = fc
+  .tuple(fc.constantFrom('GIF87a', 'GIF89a'), fc.uint8Array({ maxLength: 256 }))
+  .map(([header, rest]) => concat(ascii(header), rest));
+
+describe('sanitizeGif fuzzing', () => {
+  async function checkSanitizer(input: Uint8Array) {
+    let result: Awaited<ReturnType<typeof sanitizeGif>>;
+    try {
+      result = await sanitize(input);
+    } catch (error) {
+      // A clean rejection: always an Error, never a string or undefined
+      expect(error).toBeInstanceOf(Error);
+      return;
+    }
+    const { sanitized } = result;
+    // Nothing is invented beyond the trailer it may add
+    expect(sanitized.length).toBeLessThanOrEqual(input.length + 1);
+    expect(sanitized[sanitized.length - 1]).toBe(TRAILER);
+    expect(validateGifStructure(sanitized)).toEqual({ valid: true });
+    // The output is exactly the blocks the sanitizer kept, so a second pass has nothing to remove
+    const again = await sanitize(sanitized);
+    expect(again.sanitized).toEqual(sanitized);
+    expect(again.removedBytes).toBe(0);
+  }
+
+  it('rejects or cleans mutated GIFs', async () => {
+    await fc.assert(fc.asyncProperty(mutatedGif, checkSanitizer), { numRuns: 1000 });
+  });
+
+  it('rejects or cleans random bytes behind a GIF header', async () => {
+    await fc.assert(fc.asyncProperty(headedNoise, checkSanitizer), { numRuns: 1000 });
+  });
+
+  it('never throws anything but an Error from inspectGif', () => {
+    fc.assert(
+      fc.property(fc.oneof(mutatedGif, headedNoise), (input) => {
+        try {
+          const info = inspectGif(input);
+          expect(info.frameCount).toBeGreaterThan(0);
+        } catch (error) {
+          expect(error).toBeInstanceOf(Error);
+        }
+      }),
+      { numRuns: 1000 },
+    );
+  });
+});
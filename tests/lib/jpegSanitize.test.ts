@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeJpeg } from '../../functions/api/_lib/jpegSanitize';
+import { MediaSanitizeError } from '../../functions/api/_lib/sanitizeError';
+import { ascii, concat, indexOfBytes } from '../fixtures/bytes';
+import {
+  EOI,
+  baselineJpeg,
+  entropyData,
+  exif,
+  iccProfile,
+  jpegWithAppendedExifJpeg,
+  progressiveJpeg,
+  scanHeader,
+} from '../fixtures/jpeg';
+
+describe('sanitizeJpeg', () => {
+  it('returns a clean file untouched', () => {
+    const file = baselineJpeg();
+    const result = sanitizeJpeg(file);
+    expect(result.removedBytes).toBe(0);
+    expect(result.sanitized).toBe(file);
+  });
+
+  it('strips EXIF but keeps a non-default orientation', () => {
+    const result = sanitizeJpeg(baselineJpeg(exif(6, 'GPS 51.5007N')));
+    expect(indexOfBytes(result.sanitized, ascii('GPS'))).toBe(-1);
+    // SOI, then APP0, then the rebuilt orientation segment
+    expect(Array.from(result.sanitized.subarray(20, 22))).toEqual([0xff, 0xe1]);
+    expect(sanitizeJpeg(result.sanitized).sanitized).toEqual(result.sanitized);
+  });
+
+  it('keeps ICC profiles in APP2', () => {
+    const result = sanitizeJpeg(baselineJpeg(iccProfile));
+    expect(result.removedBytes).toBe(0);
+  });
+
+  it('drops an appended JPEG and its EXIF after the primary image', () => {
+    const { primary, secondary, file } = jpegWithAppendedExifJpeg();
+    const result = sanitizeJpeg(file);
+    expect(indexOfBytes(result.sanitized, ascii('GPS'))).toBe(-1);
+    expect(indexOfBytes(result.sanitized, ascii('MPF'))).toBe(-1);
+    expect(Array.from(result.sanitized.subarray(-2))).toEqual(EOI);
+    expect(result.warnings).toContain(
+      `Removed ${secondary.length} bytes of data after JPEG EOI marker (embedded images or steganography)`,
+    );
+    // Only the primary's metadata and the trailer went; the orientation segment came back in
+    expect(result.sanitized.length).toBeLessThan(primary.length);
+  });
+
+  it('walks every scan of a progressive file and strips segments between them', () => {
+    const file = progressiveJpeg();
+    const result = sanitizeJpeg(file);
+    expect(indexOfBytes(result.sanitized, ascii('between scans'))).toBe(-1);
+    expect(result.sanitized.length).toBe(file.length - (4 + 'between scans'.length));
+    expect(Array.from(result.sanitized.subarray(-entropyData.length - 2))).toEqual([...entropyData, ...EOI]);
+  });
+
+  it('drops trailing bytes that are not a JPEG', () => {
+    const result = sanitizeJpeg(concat(baselineJpeg(), ascii('hidden payload')));
+    expect(result.removedBytes).toBe('hidden payload'.length);
+    expect(indexOfBytes(result.sanitized, ascii('hidden'))).toBe(-1);
+  });
+
+  it.each([
+    ['no SOI', Uint8Array.from([0x00, 0x01, 0x02, 0x03])],
+    ['no scan', concat([0xff, 0xd8], exif(1, ''))],
+    ['no EOI', baselineJpeg().subarray(0, -2)],
+    ['a scan cut short', concat(baselineJpeg().subarray(0, -(entropyData.length + 2)), scanHeader.slice(0, 3))],
+  ])('rejects a file with %s', (_, file) => {
+    expect(() => sanitizeJpeg(file)).toThrow(MediaSanitizeError);
+  });
+});
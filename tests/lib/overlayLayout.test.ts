@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { computeLayout, resolveOverlayStage } from '../../apps/web/src/lib/overlayLayout';
+import type { LayoutItem, OverlayStage } from '../../apps/web/src/lib/overlayLayout';
+import type { OverlayStageSettings } from '../../apps/web/src/types';
+
+type Sticker = LayoutItem<{ id: string }>;
+
+const STAGES: Record<string, OverlayStageSettings> = {
+  // Nothing configured, so these use the default centred safe zone
+  '720p': { preferredResolution: '720p', safeZones: {} },
+  '1080p': { preferredResolution: '1080p', safeZones: {} },
+  '2160p': { preferredResolution: '2160p', safeZones: {} },
+  // Portrait, with a webcam corner and a chat column drawn at half size
+  custom: {
+    preferredResolution: 'custom',
+    customResolution: { width: 1000, height: 1600 },
+    safeZones: {
+      custom: {
+        zones: [
+          { x: 0, y: 0, width: 200, height: 150 },
+          { x: 300, y: 300, width: 150, height: 400 },
+        ],
+        size: { width: 500, height: 800 },
+      },
+    },
+  },
+};
+
+const GOLDEN_COUNTS = [1, 2, 4, 8, 16, 32, 64];
+const MAX_ITEMS = 64;
+// Every canvas fits this many stickers side by side; past it some overlap is allowed
+const NON_OVERLAPPING_COUNT = 6;
+// No sticker may lose more than this share of its area to any other one
+const MAX_PAIR_OVERLAP = 0.65;
+
+function submissions(count: number) {
+  return Array.from({ length: count }, (_, index) => ({ id: `submission-${index + 1}` }));
+}
+
+function layout(stage: OverlayStage, count: number, safeZonesEnabled = true) {
+  return computeLayout(stage.canvas, safeZonesEnabled ? stage.safeZones : [], submissions(count), {
+    rotationEnabled: true,
+  });
+}
+
+function overlap(a: { x: number; y: number; width: number; height: number }, b: typeof a) {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function bounds(item: Sticker) {
+  return { x: item.x, y: item.y, width: item.size, height: item.size };
+}
+
+/** The largest share of a sticker covered by any single other sticker. */
+function worstPairOverlap(items: Sticker[]) {
+  let worst = 0;
+  items.forEach((a, index) => {
+    for (const b of items.slice(index + 1)) {
+      const smaller = Math.min(a.size, b.size) ** 2;
+      worst = Math.max(worst, overlap(bounds(a), bounds(b)) / smaller);
+    }
+  });
+  return worst;
+}
+
+// One line per sticker keeps the snapshot readable and its diffs small
+function describeLayout(items: Sticker[]) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return items.map(
+    (item) =>
+      `${item.id} at ${round(item.x)},${round(item.y)} size ${round(item.size)} rotation ${round(item.rotation)} z ${
+        item.zIndex
+      }`,
+  );
+}
+
+describe.each(Object.entries(STAGES))('computeLayout on a %s canvas', (_name, settings) => {
+  const stage = resolveOverlayStage(settings);
+  // The sweeps below share layouts, and the crowded ones are slow to compute
+  const computed = new Map<number, Sticker[]>();
+  const cachedLayout = (count: number) => {
+    const items = computed.get(count) ?? layout(stage, count);
+    computed.set(count, items);
+    return items;
+  };
+
+  it.each(GOLDEN_COUNTS)('matches the golden layout for %i items', (count) => {
+    expect(describeLayout(layout(stage, count))).toMatchSnapshot();
+  });
+
+  it('lays out the same feed the same way every time', () => {
+    expect(layout(stage, 24)).toEqual(layout(stage, 24));
+  });
+
+  it('keeps every sticker on the canvas and out of the safe zones', () => {
+    for (let count = 1; count <= MAX_ITEMS; count++) {
+      for (const item of cachedLayout(count)) {
+        expect(item.x).toBeGreaterThanOrEqual(0);
+        expect(item.y).toBeGreaterThanOrEqual(0);
+        expect(item.x + item.size).toBeLessThanOrEqual(stage.canvas.width);
+        expect(item.y + item.size).toBeLessThanOrEqual(stage.canvas.height);
+        for (const zone of stage.safeZones) {
+          expect(overlap(bounds(item), zone), `${item.id} of ${count} inside a safe zone`).toBe(0);
+        }
+      }
+    }
+  });
+
+  it('keeps every sticker on the canvas with the safe zones turned off', () => {
+    for (const count of GOLDEN_COUNTS) {
+      for (const item of layout(stage, count, false)) {
+        expect(item.x).toBeGreaterThanOrEqual(0);
+        expect(item.y).toBeGreaterThanOrEqual(0);
+        expect(item.x + item.size).toBeLessThanOrEqual(stage.canvas.width);
+        expect(item.y + item.size).toBeLessThanOrEqual(stage.canvas.height);
+      }
+    }
+  });
+
+  it('does not overlap stickers while they fit side by side', () => {
+    for (let count = 1; count <= NON_OVERLAPPING_COUNT; count++) {
+      expect(worstPairOverlap(cachedLayout(count)), `${count} items`).toBe(0);
+    }
+  });
+
+  it('bounds how much crowded stickers overlap', () => {
+    for (let count = NON_OVERLAPPING_COUNT + 1; count <= MAX_ITEMS; count++) {
+      expect(worstPairOverlap(cachedLayout(count)), `${count} items`).toBeLessThanOrEqual(MAX_PAIR_OVERLAP);
+    }
+  });
+});
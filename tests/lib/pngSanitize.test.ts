@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { openPng } from '../../functions/api/_lib/pngDecode';
+import { sanitizePng } from '../../functions/api/_lib/pngSanitize';
+import { MediaSanitizeError } from '../../functions/api/_lib/sanitizeError';
+import { ascii, concat, indexOfBytes } from '../fixtures/bytes';
+import { SIGNATURE, chunk, exifChunk, gammaChunk, png, textChunk, timeChunk } from '../fixtures/png';
+
+const animated = png({ width: 6, height: 4, frames: 3 });
+
+function countChunks(file: Uint8Array, type: string) {
+  let count = 0;
+  for (let at = indexOfBytes(file, ascii(type)); at !== -1; ) {
+    count++;
+    const next = indexOfBytes(file.subarray(at + 4), ascii(type));
+    at = next === -1 ? -1 : at + 4 + next;
+  }
+  return count;
+}
+
+describe('sanitizePng', () => {
+  it('returns a clean still untouched', () => {
+    const file = png();
+    const result = sanitizePng(file);
+    expect(result.removedBytes).toBe(0);
+    expect(result.sanitized).toBe(file);
+    expect(result.info).toMatchObject({ width: 4, height: 4, frameCount: 1, durationMs: 0 });
+  });
+
+  it('strips text, EXIF and timestamps but keeps chunks needed to render', () => {
+    const text = textChunk('Comment', 'GPS 51.5007N');
+    const exif = exifChunk('GPS 51.5007N');
+    const result = sanitizePng(png({ beforeImage: [gammaChunk, text, exif], afterImage: [timeChunk] }));
+    expect(indexOfBytes(result.sanitized, ascii('GPS'))).toBe(-1);
+    expect(result.sanitized).toEqual(png({ beforeImage: [gammaChunk] }));
+    expect(result.removedBytes).toBe(text.length + exif.length + timeChunk.length);
+    expect(result.warnings).toEqual([
+      `Removed tEXt chunk (${text.length - 12} bytes)`,
+      `Removed eXIf chunk (${exif.length - 12} bytes)`,
+      'Removed tIME chunk (7 bytes)',
+    ]);
+  });
+
+  it('drops data after IEND', () => {
+    const result = sanitizePng(concat(png(), ascii('hidden payload')));
+    expect(result.sanitized).toEqual(png());
+    expect(result.removedBytes).toBe('hidden payload'.length);
+  });
+
+  it('keeps every frame of an APNG', () => {
+    const result = sanitizePng(animated);
+    expect(result.sanitized).toBe(animated);
+    expect(result.info).toEqual({
+      width: 6,
+      height: 4,
+      frameCount: 3,
+      durationMs: 300,
+      maxFrameWidth: 6,
+      maxFrameHeight: 4,
+    });
+  });
+
+  it('keeps the frames of an APNG while stripping its metadata', () => {
+    const file = png({ width: 6, height: 4, frames: 3, afterImage: [textChunk('Software', 'leaky editor')] });
+    const result = sanitizePng(file);
+    expect(result.sanitized).toEqual(animated);
+    expect(countChunks(result.sanitized, 'fcTL')).toBe(3);
+    expect(countChunks(result.sanitized, 'fdAT')).toBe(2);
+    expect(result.info.frameCount).toBe(3);
+  });
+
+  it('treats frame controls without acTL as a still', () => {
+    const withoutAnimationControl = concat(animated.subarray(0, 33), animated.subarray(33 + 20));
+    expect(sanitizePng(withoutAnimationControl).info).toMatchObject({ frameCount: 1, durationMs: 0 });
+  });
+
+  it('rejects an APNG whose acTL miscounts its frames', () => {
+    const frames = animated.subarray(33 + 20);
+    const file = concat(animated.subarray(0, 33), chunk('acTL', [0, 0, 0, 5, 0, 0, 0, 0]), frames);
+    expect(() => sanitizePng(file)).toThrow('Invalid APNG: acTL declares 5 frames but 3 were found');
+  });
+
+  it.each([
+    ['a bad signature', concat([0x89, ...ascii('PNX')], png().subarray(4)), 'Missing or corrupted signature'],
+    ['a cut chunk header', png().subarray(0, 40), 'Incomplete chunk header'],
+    ['a chunk longer than the file', png().subarray(0, 60), 'Chunk extends beyond file'],
+    ['a CRC mismatch', concat(png().subarray(0, 29), [0, 0, 0, 0], png().subarray(33)), 'CRC mismatch in IHDR'],
+    ['no IEND', png({ withoutEnd: true }), 'Missing IEND chunk'],
+    ['IHDR not first', concat(SIGNATURE, gammaChunk, png().subarray(8)), 'IHDR must be the first chunk'],
+    ['an unknown critical chunk', png({ beforeImage: [chunk('ABCD', [1])] }), 'Unsupported critical chunk ABCD'],
+    ['zero dimensions', png({ width: 0, height: 0, pixels: [] }), 'Zero image dimensions'],
+  ])('rejects %s', (_, file, message) => {
+    expect(() => sanitizePng(file)).toThrow(message);
+  });
+
+  it('rejects every truncation of an APNG', () => {
+    for (let length = 0; length < animated.length; length++) {
+      expect(() => sanitizePng(animated.slice(0, length))).toThrow(MediaSanitizeError);
+    }
+  });
+});
+
+describe('PNG fixtures', () => {
+  it('decode to the pixels they were built from', async () => {
+    const pixels = [255, 0, 0, 0, 255, 0, 0, 0, 255, 10, 20, 30];
+    const decoded = openPng(png({ width: 2, height: 2, pixels }), 16);
+    const rows: number[] = [];
+    for await (const row of decoded?.rows() ?? []) {
+      rows.push(...row);
+    }
+    expect(rows).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 10, 20, 30, 255]);
+  });
+});
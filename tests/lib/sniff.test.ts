@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MEDIA_POLICY } from '../../functions/api/_lib/settings';
+import { MediaTypeError, resolveImageType, sniffImageType } from '../../functions/api/_lib/sniff';
+import { saveSubmissionFileToR2 } from '../../functions/api/_lib/storage';
+import type { GifstremBindings } from '../../functions/api/_lib/types';
+import { ascii, concat } from '../fixtures/bytes';
+import { gif } from '../fixtures/gif';
+import { baselineJpeg } from '../fixtures/jpeg';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Only the leading bytes matter to the sniffer; the sanitizers check the rest.
+const fixtures = {
+  gif87a: gif({ version: '87a' }),
+  gif89a: gif({ version: '89a' }),
+  png: concat(PNG_SIGNATURE, [0, 0, 0, 13], ascii('IHDR')),
+  jpeg: baselineJpeg(),
+  webp: concat(ascii('RIFF'), [26, 0, 0, 0], ascii('WEBPVP8L')),
+};
+
+describe('sniffImageType', () => {
+  it.each([
+    ['GIF87a', fixtures.gif87a, 'image/gif'],
+    ['GIF89a', fixtures.gif89a, 'image/gif'],
+    ['PNG', fixtures.png, 'image/png'],
+    ['JPEG', fixtures.jpeg, 'image/jpeg'],
+    ['WebP', fixtures.webp, 'image/webp'],
+  ])('recognises %s', (_, data, type) => {
+    expect(sniffImageType(data)).toBe(type);
+  });
+
+  it.each([
+    ['an empty file', new Uint8Array(0)],
+    ['a GIF header cut short', Uint8Array.from(ascii('GIF8'))],
+    ['an unknown GIF version', Uint8Array.from(ascii('GIF88a'))],
+    ['a PNG signature cut short', Uint8Array.from(PNG_SIGNATURE.slice(0, 5))],
+    ['a JPEG SOI without a marker after it', Uint8Array.from([0xff, 0xd8])],
+    ['RIFF without the WEBP tag', concat(ascii('RIFF'), [26, 0, 0, 0], ascii('WEB'))],
+    ['a RIFF file that is not WebP', concat(ascii('RIFF'), [26, 0, 0, 0], ascii('AVI LIST'))],
+    ['WEBP at offset 8 without RIFF', concat(ascii('RIFX'), [26, 0, 0, 0], ascii('WEBPVP8L'))],
+    ['an SVG', Uint8Array.from(ascii('<svg xmlns="http://www.w3.org/2000/svg"/>'))],
+  ])('rejects %s', (_, data) => {
+    expect(sniffImageType(data)).toBeNull();
+  });
+});
+
+describe('resolveImageType', () => {
+  it.each([
+    ['image/gif', 'image/gif', fixtures.gif87a],
+    ['image/gif', 'image/gif', fixtures.gif89a],
+    ['image/png', 'image/png', fixtures.png],
+    ['image/apng', 'image/png', fixtures.png],
+    ['image/jpeg', 'image/jpeg', fixtures.jpeg],
+    ['image/jpg', 'image/jpeg', fixtures.jpeg],
+    ['image/webp', 'image/webp', fixtures.webp],
+  ])('accepts a file labelled %s as %s', (declared, expected, data) => {
+    expect(resolveImageType(data, declared)).toBe(expected);
+  });
+
+  it.each([
+    [fixtures.gif89a, 'image/png', 'This file is labelled image/png but contains image/gif.'],
+    [fixtures.png, 'image/gif', 'This file is labelled image/gif but contains image/png.'],
+    [fixtures.jpeg, 'image/webp', 'This file is labelled image/webp but contains image/jpeg.'],
+    [fixtures.webp, 'image/jpeg', 'This file is labelled image/jpeg but contains image/webp.'],
+    [fixtures.gif89a, 'image/svg+xml', 'This file is labelled image/svg+xml but contains image/gif.'],
+    [fixtures.gif89a, '', 'This file is labelled with no type but contains image/gif.'],
+  ])('refuses a mismatched label (case %#)', (data, declared, message) => {
+    expect(() => resolveImageType(data, declared)).toThrow(new MediaTypeError(message));
+  });
+
+  it('refuses truncated headers whatever the label says', () => {
+    const error = 'This file is not a GIF, PNG, WebP or JPEG image.';
+    expect(() => resolveImageType(Uint8Array.from(ascii('GIF8')), 'image/gif')).toThrow(new MediaTypeError(error));
+    expect(() => resolveImageType(Uint8Array.from(PNG_SIGNATURE.slice(0, 7)), 'image/png')).toThrow(MediaTypeError);
+    expect(() => resolveImageType(Uint8Array.from([0xff, 0xd8]), 'image/jpeg')).toThrow(MediaTypeError);
+    expect(() => resolveImageType(Uint8Array.from(ascii('RIFF')), 'image/webp')).toThrow(MediaTypeError);
+  });
+
+  it('marks the error for a 400 response', () => {
+    try {
+      resolveImageType(fixtures.png, 'image/gif');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MediaTypeError);
+      expect((error as MediaTypeError).code).toBe('type_mismatch');
+    }
+  });
+});
+
+describe('saveSubmissionFileToR2', () => {
+  function fakeEnv() {
+    const puts: { key: string; contentType?: string }[] = [];
+    const bucket = {
+      async put(key: string, _data: Uint8Array, options?: { httpMetadata?: { contentType?: string } }) {
+        puts.push({ key, contentType: options?.httpMetadata?.contentType });
+        return null;
+      },
+    };
+    return { env: { GIF_BUCKET: bucket } as unknown as GifstremBindings, puts };
+  }
+
+  it('names the stored object after the sniffed type, not the file extension', async () => {
+    const { env, puts } = fakeEnv();
+    const file = new File([fixtures.gif89a], 'cat.png', { type: 'image/gif' });
+    const stored = await saveSubmissionFileToR2(env, file, 'streamer', DEFAULT_MEDIA_POLICY);
+    expect(stored.key).toMatch(/^gifstrem\/streamer\/[0-9a-f-]+\.gif$/);
+    expect(puts).toEqual([{ key: stored.key, contentType: 'image/gif' }]);
+  });
+
+  it('stores a JPEG labelled with the image/jpg alias as image/jpeg', async () => {
+    const { env, puts } = fakeEnv();
+    const file = new File([fixtures.jpeg], 'photo.gif', { type: 'image/jpg' });
+    const stored = await saveSubmissionFileToR2(env, file, 'streamer', DEFAULT_MEDIA_POLICY);
+    expect(stored.key).toMatch(/\.jpg$/);
+    expect(puts[0].contentType).toBe('image/jpeg');
+  });
+
+  it('writes nothing when the label and the bytes disagree', async () => {
+    const { env, puts } = fakeEnv();
+    const file = new File([fixtures.gif89a], 'cat.gif', { type: 'image/png' });
+    await expect(saveSubmissionFileToR2(env, file, 'streamer', DEFAULT_MEDIA_POLICY)).rejects.toBeInstanceOf(
+      MediaTypeError,
+    );
+    expect(puts).toEqual([]);
+  });
+
+  it('writes nothing for a file with no recognisable signature', async () => {
+    const { env, puts } = fakeEnv();
+    const file = new File([Uint8Array.from(ascii('GIF8'))], 'cat.gif', { type: 'image/gif' });
+    await expect(saveSubmissionFileToR2(env, file, 'streamer', DEFAULT_MEDIA_POLICY)).rejects.toThrow(
+      'This file is not a GIF, PNG, WebP or JPEG image.',
+    );
+    expect(puts).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { MediaSanitizeError } from '../../functions/api/_lib/sanitizeError';
+import { sanitizeWebp } from '../../functions/api/_lib/webpSanitize';
+import { ascii, concat, indexOfBytes } from '../fixtures/bytes';
+import {
+  ANIMATION_FLAG,
+  EXIF_FLAG,
+  XMP_FLAG,
+  animatedWebp,
+  chunk,
+  exifChunk,
+  extendedWebp,
+  riff,
+  vp8,
+  vp8l,
+  vp8x,
+  xmpChunk,
+} from '../fixtures/webp';
+
+const frames = [
+  { width: 8, height: 6, durationMs: 80 },
+  { width: 4, height: 3, durationMs: 120 },
+  { width: 8, height: 6, durationMs: 200 },
+];
+const animated = animatedWebp(frames);
+
+function countChunks(file: Uint8Array, type: string) {
+  let count = 0;
+  for (let at = indexOfBytes(file, ascii(type)); at !== -1; ) {
+    count++;
+    const next = indexOfBytes(file.subarray(at + 4), ascii(type));
+    at = next === -1 ? -1 : at + 4 + next;
+  }
+  return count;
+}
+
+describe('sanitizeWebp', () => {
+  it.each([
+    ['a lossless still', riff(vp8l(5, 3)), { width: 5, height: 3 }],
+    ['a lossy still', riff(vp8(7, 2)), { width: 7, height: 2 }],
+    ['an extended still', extendedWebp(0), { width: 4, height: 4 }],
+  ])('keeps %s byte for byte', (_, file, size) => {
+    const result = sanitizeWebp(file);
+    expect(result.removedBytes).toBe(0);
+    expect(result.warnings).toEqual([]);
+    expect(result.sanitized).toEqual(file);
+    expect(result.info).toMatchObject({ ...size, frameCount: 1, durationMs: 0 });
+  });
+
+  it('strips EXIF and XMP and clears their VP8X flags', () => {
+    const exif = exifChunk('GPS 51.5007N');
+    const xmp = xmpChunk('GPS 51.5007N');
+    const result = sanitizeWebp(extendedWebp(EXIF_FLAG | XMP_FLAG, exif, xmp));
+    expect(indexOfBytes(result.sanitized, ascii('GPS'))).toBe(-1);
+    expect(result.sanitized).toEqual(extendedWebp(0));
+    expect(result.removedBytes).toBe(exif.length + xmp.length);
+    expect(result.warnings).toEqual([
+      `Removed EXIF chunk (${exif.length - 8} bytes)`,
+      // The size field leaves out the padding byte after an odd-sized chunk
+      `Removed XMP chunk (${'<x:xmpmeta>GPS 51.5007N</x:xmpmeta>'.length} bytes)`,
+    ]);
+  });
+
+  it('strips unknown chunks, padding included', () => {
+    const unknown = chunk('ZZZZ', ascii('odd'));
+    const result = sanitizeWebp(riff(vp8l(4, 4), unknown));
+    expect(result.sanitized).toEqual(riff(vp8l(4, 4)));
+    expect(result.removedBytes).toBe(12);
+  });
+
+  it('drops data past the RIFF size', () => {
+    const result = sanitizeWebp(concat(riff(vp8l(4, 4)), ascii('hidden payload')));
+    expect(result.sanitized).toEqual(riff(vp8l(4, 4)));
+    expect(result.removedBytes).toBe('hidden payload'.length);
+  });
+
+  it('keeps every frame of an animation', () => {
+    const result = sanitizeWebp(animated);
+    expect(result.sanitized).toEqual(animated);
+    expect(result.info).toEqual({
+      width: 8,
+      height: 6,
+      frameCount: 3,
+      durationMs: 400,
+      maxFrameWidth: 8,
+      maxFrameHeight: 6,
+    });
+  });
+
+  it('keeps the frames of an animation while stripping its metadata', () => {
+    const result = sanitizeWebp(animatedWebp(frames, EXIF_FLAG, exifChunk('GPS 51.5007N')));
+    expect(result.sanitized).toEqual(animated);
+    expect(countChunks(result.sanitized, 'ANMF')).toBe(3);
+    expect(result.sanitized[20] & ANIMATION_FLAG).toBe(ANIMATION_FLAG);
+    expect(result.info.frameCount).toBe(3);
+  });
+
+  it('plays frames of 10ms or less at 100ms', () => {
+    const result = sanitizeWebp(animatedWebp([{ width: 8, height: 6, durationMs: 0 }, ...frames.slice(1)]));
+    expect(result.info.durationMs).toBe(100 + 120 + 200);
+  });
+
+  it.each([
+    ['no RIFF header', concat(ascii('RIFX'), riff(vp8l(4, 4)).subarray(4)), 'Missing or corrupted RIFF header'],
+    ['a RIFF size past the end', riff(vp8l(4, 4)).subarray(0, 20), 'File is truncated'],
+    [
+      'a cut chunk header',
+      concat(ascii('RIFF'), [8, 0, 0, 0], ascii('WEBP'), ascii('VP8L')),
+      'Incomplete chunk header',
+    ],
+    ['a chunk longer than the file', riff(concat(ascii('VP8L'), [40, 0, 0, 0])), 'Chunk extends beyond file'],
+    ['metadata first', riff(exifChunk('GPS'), vp8l(4, 4)), 'First chunk must be VP8X, VP8 or VP8L'],
+    ['a short VP8X', riff(chunk('VP8X', [0, 0, 0, 0]), vp8l(4, 4)), 'Malformed VP8X chunk'],
+    ['two VP8X chunks', riff(vp8x(0, 4, 4), vp8x(0, 4, 4), vp8l(4, 4)), 'Malformed VP8X chunk'],
+    ['a VP8L without its signature', riff(chunk('VP8L', [0, 0, 0, 0, 0])), 'Malformed VP8L chunk'],
+    ['a VP8 without its start code', riff(chunk('VP8 ', new Array(10).fill(0))), 'Malformed VP8 chunk'],
+    ['a short ANMF', riff(vp8x(ANIMATION_FLAG, 4, 4), chunk('ANMF', [0, 0, 0, 0])), 'Malformed ANMF chunk'],
+    ['an animation without frames', riff(vp8x(ANIMATION_FLAG, 4, 4)), 'Missing image data'],
+    ['two images in a still', riff(vp8l(4, 4), vp8l(4, 4)), 'Missing image data'],
+    ['zero dimensions', riff(vp8(0, 0)), 'Zero image dimensions'],
+  ])('rejects %s', (_, file, message) => {
+    expect(() => sanitizeWebp(file)).toThrow(message);
+  });
+
+  it('rejects every truncation of an animation', () => {
+    for (let length = 0; length < animated.length; length++) {
+      expect(() => sanitizeWebp(animated.slice(0, length))).toThrow(MediaSanitizeError);
+    }
+  });
+});
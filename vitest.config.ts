@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Route tests sign up through the real scrypt parameters, which take about a second each.
+    testTimeout: 20_000,
+  },
+});
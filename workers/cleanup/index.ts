@@ -0,0 +1,13 @@
+import type { ExecutionContext, ScheduledController } from '@cloudflare/workers-types';
+import { runCleanup } from '../../functions/api/_lib/cleanup';
+import type { GifstremBindings } from '../../functions/api/_lib/types';
+
+export default {
+  async scheduled(controller: ScheduledController, env: GifstremBindings, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      runCleanup(env).then((report) => {
+        console.info('[cleanup] Scheduled sweep finished', { cron: controller.cron, ...report });
+      }),
+    );
+  },
+};